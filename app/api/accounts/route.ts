@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { MeliAuthError, getLinkedAccounts, getSessionUserId } from '@/lib/meli/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cuentas de vendedor vinculadas a la sesión y cuál es la activa. Para
+ * vincular otra se vuelve a pasar por /api/auth.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      accounts: await getLinkedAccounts(),
+      activeId: await getSessionUserId(),
+    });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo cuentas:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo cuentas' },
+      { status: 500 }
+    );
+  }
+}
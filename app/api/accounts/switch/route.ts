@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeliAuthError, switchAccount } from '@/lib/meli/auth';
+
+/**
+ * Cambia la cuenta activa a otra de las vinculadas: `{ sellerId }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!Number.isInteger(body.sellerId) || !(await switchAccount(body.sellerId))) {
+      return NextResponse.json(
+        { error: 'La cuenta no está vinculada a esta sesión' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ activeId: body.sellerId });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error cambiando de cuenta:', error);
+    return NextResponse.json(
+      { error: 'Error cambiando de cuenta' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditExportRow, matchesAuditFilter } from '@/lib/audit';
+import { toCsvLine } from '@/lib/export';
+import { ForbiddenError, MeliAuthError, requireRole } from '@/lib/meli/auth';
+import { getAuditRepository } from '@/lib/store/audit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Auditoría de cambios de la cuenta activa, las más recientes primero. Se
+ * filtra por tipo (`target`), por ID o nombre (`search`) y por usuario
+ * (`user`); con `format=csv` se descarga como archivo. Sólo para
+ * administradores.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { sellerId, siteId } = await requireRole('admin');
+    const searchParams = request.nextUrl.searchParams;
+    const all = await getAuditRepository().list(sellerId);
+    const entries = all.filter((entry) => matchesAuditFilter(entry, {
+      target: searchParams.get('target') ?? undefined,
+      search: searchParams.get('search') ?? undefined,
+      user: searchParams.get('user') ?? undefined,
+    }));
+
+    if (searchParams.get('format') === 'csv') {
+      const rows = entries.map(auditExportRow);
+      const header = rows.length > 0 ? Object.keys(rows[0]) : [];
+      const csv = [header, ...rows.map((row) => Object.values(row))].map(toCsvLine).join('');
+      const date = new Date().toISOString().split('T')[0];
+
+      return new Response(`\uFEFF${csv}`, {
+        headers: {
+          'content-type': 'text/csv; charset=utf-8',
+          'content-disposition': `attachment; filename="auditoria-${date}.csv"`,
+          'cache-control': 'no-store',
+        },
+      });
+    }
+
+    // Usuarios con cambios registrados, para el filtro
+    const users = Array.from(new Map(all.map((entry) => [entry.user.id, entry.user])).values());
+
+    return NextResponse.json({ siteId, entries, users });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error obteniendo auditoría:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo auditoría' },
+      { status: 500 }
+    );
+  }
+}
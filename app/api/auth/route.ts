@@ -1,8 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  OAUTH_COOKIE,
+  OAUTH_STATE_MAX_AGE,
+  createAuthorizationRequest,
+  getRedirectUri,
+  serializeOAuthCookie,
+} from '@/lib/meli/oauth';
+import { DEFAULT_SITE_ID, SITES, isSiteId } from '@/lib/meli/sites';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   const appId = process.env.MELI_APP_ID;
-  const redirectUri = `${process.env.NEXT_PUBLIC_APP_URL}/api/callback`;
 
   if (!appId) {
     return NextResponse.json(
@@ -11,7 +18,45 @@ export async function GET() {
     );
   }
 
-  const authUrl = `https://auth.mercadolibre.com.ar/authorization?response_type=code&client_id=${appId}&redirect_uri=${redirectUri}`;
+  if (!process.env.AUTH_SECRET) {
+    return NextResponse.json(
+      { error: 'AUTH_SECRET no configurado' },
+      { status: 500 }
+    );
+  }
+
+  const siteParam = request.nextUrl.searchParams.get('site') ?? DEFAULT_SITE_ID;
+
+  if (!isSiteId(siteParam)) {
+    return NextResponse.json(
+      { error: `Sitio no soportado: ${siteParam}` },
+      { status: 400 }
+    );
+  }
+
+  const site = SITES[siteParam];
+  const authorization = createAuthorizationRequest(site.id);
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: appId,
+    redirect_uri: getRedirectUri(),
+    state: authorization.state,
+    code_challenge: authorization.codeChallenge,
+    code_challenge_method: 'S256',
+  });
+
+  const authUrl = `https://${site.authDomain}/authorization?${params}`;
+
+  const response = NextResponse.redirect(authUrl);
+
+  response.cookies.set(OAUTH_COOKIE, serializeOAuthCookie(authorization), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: OAUTH_STATE_MAX_AGE,
+    sameSite: 'lax',
+    path: '/api/callback',
+  });
 
-  return NextResponse.redirect(authUrl);
+  return response;
 }
@@ -1,4 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { MeliAuthError, MeliTokens, startSession, storeSellerTokens } from '@/lib/meli/auth';
+import { MeliApiError, MeliClient } from '@/lib/meli/client';
+import { isSiteId } from '@/lib/meli/sites';
+import { OWNER_USER_ID } from '@/lib/team';
+import {
+  OAUTH_COOKIE,
+  getRedirectUri,
+  verifyAuthorizationResponse,
+} from '@/lib/meli/oauth';
+
+function redirectTo(path: string) {
+  const response = NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL}${path}`);
+  // La cookie de state/PKCE sólo sirve para un intento de login
+  response.cookies.delete({ name: OAUTH_COOKIE, path: '/api/callback' });
+  return response;
+}
+
+function redirectWithError(error: string) {
+  return redirectTo(`/?error=${encodeURIComponent(error)}`);
+}
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -6,71 +26,62 @@ export async function GET(request: NextRequest) {
   const error = searchParams.get('error');
 
   if (error) {
-    return NextResponse.redirect(
-      `${process.env.NEXT_PUBLIC_APP_URL}?error=${error}`
-    );
+    return redirectWithError(error);
   }
 
   if (!code) {
-    return NextResponse.redirect(
-      `${process.env.NEXT_PUBLIC_APP_URL}?error=no_code`
-    );
+    return redirectWithError('no_code');
   }
 
   try {
-    const appId = process.env.MELI_APP_ID;
-    const clientSecret = process.env.MELI_CLIENT_SECRET;
-    const redirectUri = `${process.env.NEXT_PUBLIC_APP_URL}/api/callback`;
+    const verification = verifyAuthorizationResponse(
+      searchParams.get('state'),
+      request.cookies.get(OAUTH_COOKIE)?.value
+    );
 
-    const tokenResponse = await fetch('https://api.mercadolibre.com/oauth/token', {
-      method: 'POST',
-      headers: {
-        'accept': 'application/json',
-        'content-type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'authorization_code',
-        client_id: appId!,
-        client_secret: clientSecret!,
-        code: code,
-        redirect_uri: redirectUri,
-      }),
-    });
+    if ('error' in verification) {
+      return redirectWithError(verification.error);
+    }
+
+    let tokens: MeliTokens;
 
-    const tokens = await tokenResponse.json();
+    try {
+      tokens = await new MeliClient().exchangeCode(code, getRedirectUri(), verification.codeVerifier);
+    } catch (error) {
+      if (!(error instanceof MeliApiError)) throw error;
 
-    if (!tokenResponse.ok) {
-      console.error('Error obteniendo tokens:', tokens);
-      return NextResponse.redirect(
-        `${process.env.NEXT_PUBLIC_APP_URL}?error=token_exchange_failed`
-      );
+      console.error('Error obteniendo tokens:', error.code, error.message);
+      return redirectWithError('token_exchange_failed');
     }
 
-    const response = NextResponse.redirect(
-      `${process.env.NEXT_PUBLIC_APP_URL}/dashboard`
-    );
+    await storeSellerTokens(tokens);
 
-    response.cookies.set('meli_access_token', tokens.access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 60 * 60 * 6,
-      sameSite: 'lax',
-      path: '/',
-    });
+    const user = await new MeliClient({
+      key: String(tokens.user_id),
+      tokens: {
+        getAccessToken: async () => tokens.access_token,
+        refreshAccessToken: async () => {
+          throw new MeliAuthError('Token recién emitido rechazado');
+        },
+      },
+    }).getCurrentUser();
 
-    response.cookies.set('meli_refresh_token', tokens.refresh_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 60 * 60 * 24 * 180,
-      sameSite: 'lax',
-      path: '/',
-    });
+    // El sitio elegido al iniciar sesión sólo sirve para el dominio de
+    // autorización; la moneda y el idioma salen del sitio real de la cuenta
+    const siteId = isSiteId(user.site_id) ? user.site_id : verification.siteId;
+
+    // Los tokens quedan en el servidor: el navegador sólo recibe el ID de la
+    // sesión. Quien autoriza la cuenta en Mercado Libre es su dueño.
+    const response = redirectTo('/dashboard');
+    await startSession(
+      response.cookies,
+      { id: user.id, nickname: user.nickname, siteId },
+      { id: OWNER_USER_ID, name: user.nickname, role: 'admin' }
+    );
 
     return response;
   } catch (error) {
     console.error('Error en callback:', error);
-    return NextResponse.redirect(
-      `${process.env.NEXT_PUBLIC_APP_URL}?error=server_error`
-    );
+    return redirectWithError('server_error');
   }
 }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { changesSince, currentSeq } from '@/lib/catalog-events';
+import { MeliAuthError, getScopeSellerIds } from '@/lib/meli/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Alternativa por polling a /api/events: devuelve los cambios posteriores a
+ * `since` y la secuencia actual. `reset: true` indica que hay que volver a
+ * leer el catálogo completo. Acepta `scope` como /api/events.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sellerIds = await getScopeSellerIds(request.nextUrl.searchParams.get('scope'));
+    const since = Number(request.nextUrl.searchParams.get('since') ?? 0);
+    const events = Number.isInteger(since) && since >= 0 ? changesSince(sellerIds, since) : null;
+
+    return NextResponse.json({
+      seq: currentSeq(),
+      reset: events === null,
+      events: events ?? [],
+    });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo cambios:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo cambios' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { changesSince, currentSeq, subscribeCatalogChanges } from '@/lib/catalog-events';
+import { MeliAuthError, getScopeSellerIds } from '@/lib/meli/auth';
+import type { CatalogChangeEvent } from '@/lib/live-updates';
+
+export const dynamic = 'force-dynamic';
+
+// Comentario periódico para que proxies y navegadores no corten la conexión
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Server-Sent Events con los cambios de stock, precio y estado de los items
+ * del vendedor. Sin secuencia de partida manda `ready` con la actual; con
+ * Last-Event-ID (al reconectarse) o `since` (la de /api/products) primero
+ * reenvía lo que pasó después, o `reset` si ya no está en el buffer. Con
+ * `scope=all` incluye los cambios de todas las cuentas vinculadas.
+ */
+export async function GET(request: NextRequest) {
+  let sellerIds: number[];
+
+  try {
+    sellerIds = await getScopeSellerIds(request.nextUrl.searchParams.get('scope'));
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    throw error;
+  }
+
+  const encoder = new TextEncoder();
+  // El navegador manda Last-Event-ID al reconectarse; `since` lo usa el
+  // dashboard con la secuencia del catálogo que leyó (0 incluido)
+  const since = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('since');
+  const lastEventId = since === null ? NaN : Number(since);
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendChange = (event: CatalogChangeEvent) => {
+        write(`id: ${event.seq}\nevent: change\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      // Se suscribe antes de reenviar lo perdido para no perder nada en el medio
+      const pending: CatalogChangeEvent[] = [];
+      let replaying = true;
+      const unsubscribe = subscribeCatalogChanges(sellerIds, (event) => {
+        replaying ? pending.push(event) : sendChange(event);
+      });
+
+      write('retry: 5000\n\n');
+      if (Number.isInteger(lastEventId) && lastEventId >= 0) {
+        const missed = changesSince(sellerIds, lastEventId);
+        if (missed === null) {
+          write(`event: reset\ndata: ${JSON.stringify({ seq: currentSeq() })}\n\n`);
+        } else {
+          missed.forEach(sendChange);
+        }
+      } else {
+        write(`event: ready\ndata: ${JSON.stringify({ seq: currentSeq() })}\n\n`);
+      }
+      replaying = false;
+      pending.forEach(sendChange);
+
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Ya estaba cerrado
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-store, no-transform',
+      'connection': 'keep-alive',
+      'x-accel-buffering': 'no',
+    },
+  });
+}
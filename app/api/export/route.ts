@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { catalogViewRows, exportFileName } from '@/lib/catalog-view';
+import { EXPORT_FORMATS, parseExportParams } from '@/lib/export';
+import { exportStream } from '@/lib/export-stream';
+import { MeliAuthError, getLinkedAccounts, getScopeSellerIds, getSessionSite, getSessionUserId } from '@/lib/meli/auth';
+import { getSite } from '@/lib/meli/sites';
+import { getCatalogRepository } from '@/lib/store/catalog';
+import { mergeSalesSummaries } from '@/lib/sales';
+import { getSalesRepository } from '@/lib/store/sales';
+import { getSettingsRepository } from '@/lib/store/settings';
+import { getViewRepository } from '@/lib/store/views';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Exporta el catálogo guardado en xlsx, csv o json. Recibe la vista por query
+ * string (ver toExportParams) o el ID de una vista guardada en `view`. Con
+ * `scope=all` exporta las publicaciones de todas las cuentas vinculadas; la
+ * configuración y las vistas son siempre las de la cuenta activa.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sellerId = await getSessionUserId();
+    const sellerIds = await getScopeSellerIds(request.nextUrl.searchParams.get('scope'));
+    const parsed = parseExportParams(request.nextUrl.searchParams);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    let { view } = parsed;
+    let viewName: string | undefined;
+
+    if (parsed.viewId) {
+      const saved = await getViewRepository().load(sellerId);
+      const savedView = saved.views.find((current) => current.id === parsed.viewId);
+
+      if (!savedView) {
+        return NextResponse.json(
+          { error: 'La vista no existe' },
+          { status: 404 }
+        );
+      }
+
+      view = savedView.view;
+      viewName = savedView.name;
+    }
+
+    const [catalogs, settings, sales] = await Promise.all([
+      Promise.all(sellerIds.map((id) => getCatalogRepository().load(id))),
+      getSettingsRepository().load(sellerId),
+      Promise.all(sellerIds.map((id) => getSalesRepository().load(id))),
+    ]);
+    const catalog = catalogs[sellerIds.indexOf(sellerId)];
+    const products = catalogs.flatMap((current) => (
+      (current?.items ?? []).map((item) => ({ ...item, seller_id: current!.sellerId }))
+    ));
+    const context = {
+      stockRules: settings.stockRules,
+      site: catalog ? getSite(catalog.siteId) : await getSessionSite(),
+      sales: mergeSalesSummaries(sales),
+      accounts: await getLinkedAccounts(),
+    };
+
+    const rows = catalogViewRows(products, view, context);
+    const productCount = new Set(rows.map((row) => row.product.id)).size;
+    const fileName = `${exportFileName(view, productCount, viewName)}.${parsed.format}`;
+
+    return new Response(exportStream(rows, parsed.format, view.columns, context), {
+      headers: {
+        'content-type': EXPORT_FORMATS[parsed.format].contentType,
+        'content-disposition': `attachment; filename="${fileName}"`,
+        'cache-control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error exportando productos:', error);
+    return NextResponse.json(
+      { error: 'Error exportando productos' },
+      { status: 500 }
+    );
+  }
+}
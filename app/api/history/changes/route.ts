@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffSnapshots } from '@/lib/history';
+import { MeliAuthError, getSessionSite, getSessionUserId } from '@/lib/meli/auth';
+import { getSnapshotRepository } from '@/lib/store/snapshots';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cambios entre la foto `from` y la foto `to` (por defecto, la más reciente).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sellerId = await getSessionUserId();
+    const repository = getSnapshotRepository();
+    const searchParams = request.nextUrl.searchParams;
+
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to') ?? (await repository.list(sellerId)).at(-1)?.id;
+
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        { error: 'Falta la foto de origen' },
+        { status: 400 }
+      );
+    }
+
+    const [from, to] = await Promise.all([
+      repository.load(sellerId, fromId),
+      repository.load(sellerId, toId),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: 'Foto no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      from: { id: from.id, takenAt: from.takenAt },
+      to: { id: to.id, takenAt: to.takenAt },
+      changes: diffSnapshots(from, to),
+      site: (await getSessionSite()).id,
+    });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error comparando snapshots:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo cambios' },
+      { status: 500 }
+    );
+  }
+}
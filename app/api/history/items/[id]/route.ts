@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeliAuthError, getSessionSite, getSessionUserId } from '@/lib/meli/auth';
+import { getCatalogRepository } from '@/lib/store/catalog';
+import { getSnapshotRepository } from '@/lib/store/snapshots';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sellerId = await getSessionUserId();
+    const points = await getSnapshotRepository().itemHistory(sellerId, params.id);
+    const catalog = await getCatalogRepository().load(sellerId);
+
+    return NextResponse.json({
+      item: catalog?.items.find((item) => item.id === params.id) ?? null,
+      points,
+      site: (await getSessionSite()).id,
+    });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo historial:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo historial' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { MeliAuthError, getSessionSite, getSessionUserId } from '@/lib/meli/auth';
+import { getSnapshotRepository } from '@/lib/store/snapshots';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const sellerId = await getSessionUserId();
+    const snapshots = await getSnapshotRepository().list(sellerId);
+
+    return NextResponse.json({
+      snapshots,
+      site: (await getSessionSite()).id,
+    });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo snapshots:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo historial' },
+      { status: 500 }
+    );
+  }
+}
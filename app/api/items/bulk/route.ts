@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ItemUpdate, toItemUpdate } from '@/lib/bulk-edit';
+import { applyItemUpdates } from '@/lib/item-updates';
+import { ForbiddenError, MeliAuthError, requireRole, sellerClient } from '@/lib/meli/auth';
+import { asRecord } from '@/lib/validation';
+
+// Límite por request para que una edición masiva no quede colgada
+const MAX_UPDATES = 1000;
+
+/**
+ * Aplica cambios de precio y stock. Con `dryRun: true` sólo valida.
+ * Devuelve un resultado por cada item recibido. Requiere el rol editor; los
+ * cambios aplicados quedan en la auditoría a nombre del usuario.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sellerId, user } = await requireRole('editor');
+    let body: Record<string, unknown>;
+
+    try {
+      body = asRecord(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const updates = Array.isArray(body.updates) ? body.updates.map(toItemUpdate) : [];
+
+    if (updates.length === 0 || updates.length > MAX_UPDATES) {
+      return NextResponse.json(
+        { error: `Se deben enviar entre 1 y ${MAX_UPDATES} cambios` },
+        { status: 400 }
+      );
+    }
+    if (!updates.every((update): update is ItemUpdate => update !== null)) {
+      return NextResponse.json(
+        { error: 'Cada cambio necesita el ID de la publicación y valores numéricos' },
+        { status: 400 }
+      );
+    }
+
+    const results = await applyItemUpdates(sellerId, updates, {
+      dryRun: body.dryRun === true,
+      client: sellerClient(sellerId),
+      user: { id: user.id, name: user.name },
+    });
+
+    return NextResponse.json({ results, dryRun: body.dryRun === true });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error actualizando publicaciones:', error);
+    return NextResponse.json(
+      { error: 'Error actualizando publicaciones' },
+      { status: 500 }
+    );
+  }
+}
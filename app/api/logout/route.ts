@@ -1,10 +1,22 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession } from '@/lib/meli/auth';
 
-export async function POST() {
-  const response = NextResponse.json({ success: true });
+/**
+ * Cierra la sesión del navegador. Con `?everywhere=1` cierra también las de
+ * la cuenta activa en todos los demás navegadores.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const response = NextResponse.json({ success: true });
+    await endSession(response.cookies, request.nextUrl.searchParams.get('everywhere') === '1');
 
-  response.cookies.delete('meli_access_token');
-  response.cookies.delete('meli_refresh_token');
+    return response;
 
-  return response;
+  } catch (error) {
+    console.error('Error cerrando sesión:', error);
+    return NextResponse.json(
+      { error: 'Error cerrando sesión' },
+      { status: 500 }
+    );
+  }
 }
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { MeliAuthError, getSession } from '@/lib/meli/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Usuario de la sesión, con su rol.
+ */
+export async function GET() {
+  try {
+    const { user } = await getSession();
+
+    return NextResponse.json({ user });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo usuario:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo usuario' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enqueueNotification } from '@/lib/notification-queue';
+import { parseNotification } from '@/lib/notifications';
+import { getTokenRepository } from '@/lib/store/tokens';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Recibe las notificaciones de Mercado Libre (configurar
+ * `${NEXT_PUBLIC_APP_URL}/api/notifications` como URL de callback de la
+ * aplicación). Mercado Libre espera la respuesta en pocos cientos de ms y
+ * reintenta si no la recibe, así que sólo se valida y se encola: el refetch
+ * corre en segundo plano.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'El cuerpo debe ser JSON' },
+      { status: 400 }
+    );
+  }
+
+  const notification = parseNotification(body, process.env.MELI_APP_ID);
+
+  if ('error' in notification) {
+    return NextResponse.json(
+      { error: notification.error },
+      { status: notification.status }
+    );
+  }
+
+  try {
+    // Sin tokens guardados no hay con qué refetchear: se confirma igual para
+    // que Mercado Libre no reintente
+    if (!(await getTokenRepository().load(notification.userId))) {
+      return NextResponse.json({ status: 'ignored' });
+    }
+
+    return NextResponse.json({ status: enqueueNotification(notification) });
+
+  } catch (error) {
+    console.error('Error recibiendo notificación:', error);
+    return NextResponse.json(
+      { error: 'Error recibiendo notificación' },
+      { status: 500 }
+    );
+  }
+}
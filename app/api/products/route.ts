@@ -1,91 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { currentSeq } from '@/lib/catalog-events';
+import { MeliAuthError, getScopeSellerIds, getSessionSite, getSessionUserId } from '@/lib/meli/auth';
+import { PRODUCT_CHUNK_SIZE, ProductStreamEvent } from '@/lib/product-stream';
+import { getCatalogRepository } from '@/lib/store/catalog';
 
-export async function GET(request: NextRequest) {
-  const cookieStore = cookies();
-  const accessToken = cookieStore.get('meli_access_token')?.value;
-
-  if (!accessToken) {
-    return NextResponse.json(
-      { error: 'No autenticado' },
-      { status: 401 }
-    );
-  }
+export const dynamic = 'force-dynamic';
 
+/**
+ * Devuelve el catálogo guardado del vendedor como NDJSON: una línea `meta`
+ * con el total y después las publicaciones en tandas, para que el dashboard
+ * las vaya mostrando mientras llegan. Cada publicación indica su cuenta en
+ * `seller_id`; con `scope=all` incluye las de todas las cuentas vinculadas.
+ * No consulta a Mercado Libre: para actualizarlo usar POST /api/sync.
+ * `meta.seq` es la secuencia de eventos al leerlo: /api/events?since=seq
+ * reenvía lo que cambió después.
+ */
+export async function GET(request: NextRequest) {
   try {
-    // 1. Obtener información del usuario
-    const userResponse = await fetch('https://api.mercadolibre.com/users/me', {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-      },
-    });
-
-    if (!userResponse.ok) {
-      throw new Error('Error obteniendo usuario');
-    }
+    const sellerId = await getSessionUserId();
+    const sellerIds = await getScopeSellerIds(request.nextUrl.searchParams.get('scope'));
+    // Antes de leer: un cambio guardado en el medio se reenvía, no se pierde
+    const seq = currentSeq();
+    const catalogs = await Promise.all(sellerIds.map((id) => getCatalogRepository().load(id)));
+    const catalog = catalogs[sellerIds.indexOf(sellerId)];
 
-    const userData = await userResponse.json();
-    const userId = userData.id;
+    const items = catalogs.flatMap((current) => (
+      (current?.items ?? []).map((item) => ({ ...item, seller_id: current!.sellerId }))
+    ));
+    // Con varias cuentas, la sincronización más vieja
+    const syncedAt = catalogs.every((current) => current?.syncedAt)
+      ? catalogs.map((current) => current!.syncedAt).sort()[0]
+      : null;
+    const meta: ProductStreamEvent = {
+      type: 'meta',
+      total: items.length,
+      site: catalog?.siteId ?? (await getSessionSite()).id,
+      syncedAt,
+      seq,
+    };
 
-    // 2. Obtener IDs de todas las publicaciones del usuario
-    const searchParams = request.nextUrl.searchParams;
-    const offset = searchParams.get('offset') || '0';
-    const limit = searchParams.get('limit') || '50'; // Máximo 50 por request
+    const encoder = new TextEncoder();
+    const encode = (event: ProductStreamEvent) => encoder.encode(`${JSON.stringify(event)}\n`);
+    let offset = 0;
 
-    const itemsResponse = await fetch(
-      `https://api.mercadolibre.com/users/${userId}/items/search?status=active,paused,closed&offset=${offset}&limit=${limit}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      }
-    );
-
-    if (!itemsResponse.ok) {
-      throw new Error('Error obteniendo publicaciones');
-    }
-
-    const itemsData = await itemsResponse.json();
-    const itemIds = itemsData.results;
-    const total = itemsData.paging.total;
-
-    // 3. Obtener detalles de cada publicación
-    // Usar multiget para obtener hasta 20 items por request
-    const products = [];
-    
-    for (let i = 0; i < itemIds.length; i += 20) {
-      const batch = itemIds.slice(i, i + 20);
-      const idsParam = batch.join(',');
-      
-      const detailsResponse = await fetch(
-        `https://api.mercadolibre.com/items?ids=${idsParam}&attributes=id,title,price,available_quantity,status,permalink,last_updated,shipping,attributes`,
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-          },
+    // Con pull cada tanda se arma recién cuando el cliente leyó la anterior
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(encode(meta));
+      },
+      pull(controller) {
+        if (offset >= items.length) {
+          controller.close();
+          return;
         }
-      );
 
-      if (detailsResponse.ok) {
-        const details = await detailsResponse.json();
-        
-        // Procesar cada item del batch
-        for (const item of details) {
-          if (item.code === 200 && item.body) {
-            products.push(item.body);
-          }
-        }
-      }
-    }
+        controller.enqueue(encode({ type: 'items', items: items.slice(offset, offset + PRODUCT_CHUNK_SIZE) }));
+        offset += PRODUCT_CHUNK_SIZE;
+      },
+    });
 
-    return NextResponse.json({
-      products,
-      total,
-      offset: parseInt(offset),
-      limit: parseInt(limit),
+    return new Response(stream, {
+      headers: {
+        'content-type': 'application/x-ndjson; charset=utf-8',
+        'cache-control': 'no-store',
+      },
     });
 
   } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
     console.error('Error obteniendo productos:', error);
     return NextResponse.json(
       { error: 'Error obteniendo productos' },
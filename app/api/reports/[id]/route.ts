@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditChanges, reportAuditValues } from '@/lib/audit';
+import { ForbiddenError, MeliAuthError, requireRole } from '@/lib/meli/auth';
+import { getAuditRepository } from '@/lib/store/audit';
+import { getReportRepository } from '@/lib/store/reports';
+import { asRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Activa o pausa el reporte.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { sellerId, user } = await requireRole('editor');
+    let body: Record<string, unknown>;
+
+    try {
+      body = asRecord(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getReportRepository();
+    const reports = await repository.listReports(sellerId);
+    const current = reports.find((report) => report.id === params.id);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'El reporte no existe' },
+        { status: 404 }
+      );
+    }
+
+    if (typeof body.enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'enabled debe ser true o false' },
+        { status: 400 }
+      );
+    }
+
+    // Al reactivarlo se cuenta desde ahora, así no corre por las ejecuciones perdidas mientras estuvo pausado
+    const updated = {
+      ...current,
+      enabled: body.enabled,
+      lastRunAt: body.enabled && !current.enabled ? new Date().toISOString() : current.lastRunAt,
+    };
+
+    await repository.saveReports(
+      sellerId,
+      reports.map((report) => (report.id === current.id ? updated : report))
+    );
+    await getAuditRepository().append(sellerId, auditChanges(
+      { type: 'report', id: current.id, title: current.name },
+      reportAuditValues(current),
+      reportAuditValues(updated),
+      user
+    ));
+
+    return NextResponse.json({ report: updated });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error actualizando reporte:', error);
+    return NextResponse.json(
+      { error: 'Error actualizando reporte' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { sellerId, user } = await requireRole('editor');
+    const repository = getReportRepository();
+    const reports = await repository.listReports(sellerId);
+
+    const current = reports.find((report) => report.id === params.id);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'El reporte no existe' },
+        { status: 404 }
+      );
+    }
+
+    await repository.saveReports(
+      sellerId,
+      reports.filter((report) => report.id !== params.id)
+    );
+    await getAuditRepository().append(sellerId, auditChanges(
+      { type: 'report', id: current.id, title: current.name },
+      reportAuditValues(current),
+      null,
+      user
+    ));
+
+    return NextResponse.json({ deleted: params.id });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error eliminando reporte:', error);
+    return NextResponse.json(
+      { error: 'Error eliminando reporte' },
+      { status: 500 }
+    );
+  }
+}
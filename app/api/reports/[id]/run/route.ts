@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ForbiddenError, MeliAuthError, requireRole } from '@/lib/meli/auth';
+import { runReport } from '@/lib/report-runner';
+import { getReportRepository } from '@/lib/store/reports';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Ejecuta el reporte en el momento. La ejecución queda en el historial aunque
+ * falle; el error vuelve en `run.error`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { sellerId } = await requireRole('editor');
+    const reports = await getReportRepository().listReports(sellerId);
+    const report = reports.find((current) => current.id === params.id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'El reporte no existe' },
+        { status: 404 }
+      );
+    }
+
+    const run = await runReport(sellerId, report, 'manual');
+
+    return NextResponse.json({ run });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error ejecutando reporte:', error);
+    return NextResponse.json(
+      { error: 'Error ejecutando reporte' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditChanges, reportAuditValues } from '@/lib/audit';
+import { ExportFormat } from '@/lib/export';
+import { ForbiddenError, MeliAuthError, getSessionSite, getSessionUserId, requireRole } from '@/lib/meli/auth';
+import { isSmtpConfigured } from '@/lib/report-runner';
+import { ScheduledReport, toReportDestination, validateReportInput } from '@/lib/reports';
+import { getAuditRepository } from '@/lib/store/audit';
+import { getReportRepository, reportIdFor } from '@/lib/store/reports';
+import { getViewRepository } from '@/lib/store/views';
+import { asRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const sellerId = await getSessionUserId();
+    const reports = await getReportRepository().listReports(sellerId);
+
+    return NextResponse.json({ reports, smtpEnabled: isSmtpConfigured(), siteId: (await getSessionSite()).id });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo reportes:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo reportes' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { sellerId, user } = await requireRole('editor');
+    let body: Record<string, unknown>;
+
+    try {
+      body = asRecord(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getReportRepository();
+
+    const errors = validateReportInput(body);
+    if (errors.length === 0) {
+      const saved = await getViewRepository().load(sellerId);
+      if (!saved.views.some((view) => view.id === body.viewId)) {
+        errors.push('La vista guardada no existe');
+      }
+      if (asRecord(body.destination).type === 'email' && !isSmtpConfigured()) {
+        errors.push('El envío por email necesita configurar SMTP_HOST en el servidor');
+      }
+    }
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Reporte inválido', errors },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const report: ScheduledReport = {
+      id: reportIdFor(now),
+      name: String(body.name).trim(),
+      viewId: String(body.viewId),
+      format: body.format as ExportFormat,
+      cron: String(body.cron).trim(),
+      destination: toReportDestination(body.destination),
+      enabled: true,
+      createdAt: now,
+      lastRunAt: null,
+    };
+
+    await repository.saveReports(sellerId, [...(await repository.listReports(sellerId)), report]);
+    await getAuditRepository().append(sellerId, auditChanges(
+      { type: 'report', id: report.id, title: report.name },
+      null,
+      reportAuditValues(report),
+      user
+    ));
+
+    return NextResponse.json({ report }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error guardando reporte:', error);
+    return NextResponse.json(
+      { error: 'Error guardando reporte' },
+      { status: 500 }
+    );
+  }
+}
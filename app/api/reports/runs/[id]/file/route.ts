@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EXPORT_FORMATS, isExportFormat } from '@/lib/export';
+import { MeliAuthError, getSessionUserId } from '@/lib/meli/auth';
+import { getReportRepository } from '@/lib/store/reports';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Descarga la copia del archivo generado en una ejecución.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sellerId = await getSessionUserId();
+    const repository = getReportRepository();
+    const run = (await repository.listRuns(sellerId)).find((current) => current.id === params.id);
+    const file = run ? await repository.loadRunFile(sellerId, run) : null;
+
+    if (!run?.fileName || !file) {
+      return NextResponse.json(
+        { error: 'El archivo ya no está disponible' },
+        { status: 404 }
+      );
+    }
+
+    const extension = run.fileName.slice(run.fileName.lastIndexOf('.') + 1);
+
+    return new NextResponse(file, {
+      headers: {
+        'content-type': isExportFormat(extension) ? EXPORT_FORMATS[extension].contentType : 'application/octet-stream',
+        'content-disposition': `attachment; filename="${run.fileName}"`,
+        'cache-control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error descargando reporte:', error);
+    return NextResponse.json(
+      { error: 'Error descargando reporte' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { MeliAuthError, getSessionSite, getSessionUserId } from '@/lib/meli/auth';
+import { getReportRepository } from '@/lib/store/reports';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const sellerId = await getSessionUserId();
+    const runs = await getReportRepository().listRuns(sellerId);
+
+    return NextResponse.json({ runs, siteId: (await getSessionSite()).id });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo historial de reportes:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo historial de reportes' },
+      { status: 500 }
+    );
+  }
+}
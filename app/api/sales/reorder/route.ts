@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toCsvLine } from '@/lib/export';
+import { MeliAuthError, getSessionSite, getSessionUserId } from '@/lib/meli/auth';
+import { parseReorderOptions, reorderExportRow, reorderSuggestions } from '@/lib/sales';
+import { getCatalogRepository } from '@/lib/store/catalog';
+import { getSalesRepository } from '@/lib/store/sales';
+import { rowSku, variationLabel } from '@/lib/variations';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Reporte de reposición sobre el catálogo y las ventas guardadas. Con
+ * `format=csv` se descarga como archivo; si no, devuelve JSON.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sellerId = await getSessionUserId();
+    const options = parseReorderOptions(request.nextUrl.searchParams);
+
+    if ('error' in options) {
+      return NextResponse.json(
+        { error: options.error },
+        { status: 400 }
+      );
+    }
+
+    const [catalog, sales] = await Promise.all([
+      getCatalogRepository().load(sellerId),
+      getSalesRepository().load(sellerId),
+    ]);
+    const suggestions = reorderSuggestions(catalog?.items ?? [], sales, options);
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      const rows = suggestions.map((suggestion) => reorderExportRow(suggestion, options.window));
+      const header = rows.length > 0 ? Object.keys(rows[0]) : [];
+      const csv = [header, ...rows.map((row) => Object.values(row))].map(toCsvLine).join('');
+      const date = new Date().toISOString().split('T')[0];
+
+      return new Response(`\uFEFF${csv}`, {
+        headers: {
+          'content-type': 'text/csv; charset=utf-8',
+          'content-disposition': `attachment; filename="reposicion-${options.window}-dias-${date}.csv"`,
+          'cache-control': 'no-store',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      options,
+      siteId: catalog?.siteId ?? (await getSessionSite()).id,
+      salesComputedAt: sales?.computedAt ?? null,
+      suggestions: suggestions.map(({ row, ...suggestion }) => ({
+        ...suggestion,
+        id: row.product.id,
+        variationId: row.variation?.id ?? null,
+        title: row.product.title,
+        variation: row.variation ? variationLabel(row.variation) : null,
+        sku: rowSku(row),
+        permalink: row.product.permalink,
+      })),
+    });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error generando reporte de reposición:', error);
+    return NextResponse.json(
+      { error: 'Error generando reporte de reposición' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeliAuthError, sellerClient, getScopeSellerIds } from '@/lib/meli/auth';
+import { listPaidOrders } from '@/lib/meli/orders';
+import { SALES_WINDOWS, SalesSummary, aggregateSales, mergeSalesSummaries } from '@/lib/sales';
+import { getSalesRepository } from '@/lib/store/sales';
+
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sin `force`, una agregación más nueva que esto se reutiliza
+const SALES_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Devuelve la última agregación de ventas guardada (null si nunca se calculó).
+ * Con `scope=all` suma las de todas las cuentas vinculadas.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sellerIds = await getScopeSellerIds(request.nextUrl.searchParams.get('scope'));
+    const repository = getSalesRepository();
+    const summaries = await Promise.all(sellerIds.map((sellerId) => repository.load(sellerId)));
+    const sales = mergeSalesSummaries(summaries);
+
+    return NextResponse.json({ sales });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo ventas:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo ventas' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Vuelve a pedir las órdenes pagadas de la ventana más larga y recalcula las
+ * unidades vendidas por publicación, variación y SKU. El dashboard lo llama
+ * después de cada sincronización; con `?force=1` recalcula aunque la
+ * agregación guardada sea reciente. Con `scope=all` recalcula cada cuenta
+ * vinculada y devuelve la suma.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sellerIds = await getScopeSellerIds(request.nextUrl.searchParams.get('scope'));
+    const force = request.nextUrl.searchParams.get('force') === '1';
+    const repository = getSalesRepository();
+    const now = new Date();
+    const from = new Date(now.getTime() - Math.max(...SALES_WINDOWS) * DAY_MS);
+    const summaries: SalesSummary[] = [];
+
+    // De a una cuenta: cada una tiene su propio límite en la API
+    for (const sellerId of sellerIds) {
+      const stored = await repository.load(sellerId);
+      const fresh = stored && now.getTime() - new Date(stored.computedAt).getTime() < SALES_MAX_AGE_MS;
+      if (stored && fresh && !force) {
+        summaries.push(stored);
+        continue;
+      }
+
+      const orders = await listPaidOrders(sellerClient(sellerId), sellerId, from);
+      const sales = aggregateSales(orders, now);
+      await repository.save(sellerId, sales);
+      summaries.push(sales);
+    }
+
+    const sales = mergeSalesSummaries(summaries);
+
+    return NextResponse.json({ sales });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error calculando ventas:', error);
+    return NextResponse.json(
+      { error: 'Error calculando ventas' },
+      { status: 500 }
+    );
+  }
+}
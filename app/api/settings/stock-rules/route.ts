@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditChanges, stockRulesAuditValues } from '@/lib/audit';
+import { ForbiddenError, MeliAuthError, getSessionUserId, requireRole } from '@/lib/meli/auth';
+import { toStockRules, validateStockRules } from '@/lib/stock-rules';
+import { getAuditRepository } from '@/lib/store/audit';
+import { getSettingsRepository } from '@/lib/store/settings';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const sellerId = await getSessionUserId();
+    const settings = await getSettingsRepository().load(sellerId);
+
+    return NextResponse.json({ stockRules: settings.stockRules });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo reglas de stock:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo reglas de stock' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { sellerId, user } = await requireRole('editor');
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateStockRules(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Reglas inválidas', errors },
+        { status: 400 }
+      );
+    }
+
+    const stockRules = toStockRules(body);
+
+    const repository = getSettingsRepository();
+    const settings = await repository.load(sellerId);
+    await repository.save(sellerId, { ...settings, stockRules });
+    await getAuditRepository().append(sellerId, auditChanges(
+      { type: 'stock_rules', id: String(sellerId), title: 'Reglas de stock' },
+      stockRulesAuditValues(settings.stockRules),
+      stockRulesAuditValues(stockRules),
+      user
+    ));
+
+    return NextResponse.json({ stockRules });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error guardando reglas de stock:', error);
+    return NextResponse.json(
+      { error: 'Error guardando reglas de stock' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeliAuthError, getSession } from '@/lib/meli/auth';
+import { toTableLayout, validateTableLayout } from '@/lib/table-columns';
+import { getSettingsRepository, tableLayoutFor } from '@/lib/store/settings';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Diseño de la tabla del usuario de la sesión. Cada usuario guarda el suyo,
+ * sin importar su rol.
+ */
+export async function GET() {
+  try {
+    const { sellerId, user } = await getSession();
+    const settings = await getSettingsRepository().load(sellerId);
+
+    return NextResponse.json({ tableLayout: tableLayoutFor(settings, user.id) });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo diseño de tabla:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo diseño de tabla' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { sellerId, user } = await getSession();
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateTableLayout(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Diseño de tabla inválido', errors },
+        { status: 400 }
+      );
+    }
+
+    const tableLayout = toTableLayout(body);
+
+    const repository = getSettingsRepository();
+    const settings = await repository.load(sellerId);
+    await repository.save(sellerId, {
+      ...settings,
+      tableLayouts: { ...settings.tableLayouts, [user.id]: tableLayout },
+    });
+
+    return NextResponse.json({ tableLayout });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error guardando diseño de tabla:', error);
+    return NextResponse.json(
+      { error: 'Error guardando diseño de tabla' },
+      { status: 500 }
+    );
+  }
+}
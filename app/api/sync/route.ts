@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MeliAuthError, sellerClient, getScopeSellerIds } from '@/lib/meli/auth';
+import { MeliClient, MeliUser } from '@/lib/meli/client';
+import { syncCatalog } from '@/lib/sync';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Sincroniza el catálogo guardado y devuelve el avance como NDJSON: una línea
+ * `progress` por cada avance y una línea final `done` (o `error`). Con
+ * `scope=all` sincroniza todas las cuentas vinculadas, una después de otra;
+ * el avance lleva entonces el nickname de la cuenta en `account`.
+ */
+export async function POST(request: NextRequest) {
+  const accounts: Array<{ client: MeliClient; user: MeliUser }> = [];
+
+  try {
+    // Se resuelven antes de abrir el stream para que una sesión inválida o
+    // tokens vencidos respondan 401
+    for (const sellerId of await getScopeSellerIds(request.nextUrl.searchParams.get('scope'))) {
+      const client = sellerClient(sellerId);
+      accounts.push({ client, user: await client.getCurrentUser() });
+    }
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo usuario:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo usuario' },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: object) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const totals = { syncedAt: null as string | null, total: 0, added: 0, updated: 0, removed: 0 };
+
+        for (const { client, user } of accounts) {
+          const account = accounts.length > 1 ? user.nickname : undefined;
+          const result = await syncCatalog(client, user, (progress) => {
+            send({ type: 'progress', ...progress, account });
+          });
+
+          totals.syncedAt = result.catalog.syncedAt;
+          totals.total += result.catalog.items.length;
+          totals.added += result.added;
+          totals.updated += result.updated;
+          totals.removed += result.removed;
+        }
+
+        send({ type: 'done', ...totals });
+      } catch (error) {
+        console.error('Error sincronizando productos:', error);
+        send({ type: 'error', error: 'Error sincronizando productos' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'content-type': 'application/x-ndjson; charset=utf-8',
+      'cache-control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditChanges } from '@/lib/audit';
+import { ForbiddenError, MeliAuthError, requireRole } from '@/lib/meli/auth';
+import { getAuditRepository } from '@/lib/store/audit';
+import { createInvite, getTeamRepository, inviteUrl } from '@/lib/store/team';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Genera un enlace de invitación nuevo para el miembro e invalida el
+ * anterior. Sirve también para que un miembro activo elija otra contraseña.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { sellerId, user } = await requireRole('admin');
+    const repository = getTeamRepository();
+    const members = await repository.load();
+    const current = members.find((member) => member.id === params.id && member.sellerId === sellerId);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'El miembro no existe' },
+        { status: 404 }
+      );
+    }
+
+    const { token, ...invite } = createInvite();
+    await repository.save(members.map((member) => (member === current ? { ...current, ...invite } : member)));
+    await getAuditRepository().append(sellerId, auditChanges(
+      { type: 'member', id: current.id, title: current.name },
+      { inviteExpiresAt: current.inviteExpiresAt },
+      { inviteExpiresAt: invite.inviteExpiresAt },
+      user
+    ));
+
+    return NextResponse.json({ inviteUrl: inviteUrl(token) });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error generando invitación:', error);
+    return NextResponse.json(
+      { error: 'Error generando invitación' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditChanges, memberAuditValues } from '@/lib/audit';
+import { ForbiddenError, MeliAuthError, requireRole } from '@/lib/meli/auth';
+import { getAuditRepository } from '@/lib/store/audit';
+import { getSessionRepository } from '@/lib/store/sessions';
+import { getTeamRepository, toTeamMember } from '@/lib/store/team';
+import { isRole } from '@/lib/team';
+import { asRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cambia el nombre o el rol de un miembro. El cambio de rol vale desde el
+ * próximo request del miembro: el rol no se guarda en su sesión.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { sellerId, user } = await requireRole('admin');
+    let body: Record<string, unknown>;
+
+    try {
+      body = asRecord(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getTeamRepository();
+    const members = await repository.load();
+    const current = members.find((member) => member.id === params.id && member.sellerId === sellerId);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'El miembro no existe' },
+        { status: 404 }
+      );
+    }
+
+    const errors = [
+      ...(body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim()) ? ['Falta el nombre'] : []),
+      ...(body.role !== undefined && !isRole(body.role) ? ['Rol desconocido'] : []),
+    ];
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Miembro inválido', errors },
+        { status: 400 }
+      );
+    }
+
+    const updated = {
+      ...current,
+      name: body.name !== undefined ? String(body.name).trim() : current.name,
+      role: isRole(body.role) ? body.role : current.role,
+    };
+    await repository.save(members.map((member) => (member === current ? updated : member)));
+    await getAuditRepository().append(sellerId, auditChanges(
+      { type: 'member', id: current.id, title: current.name },
+      memberAuditValues(current),
+      memberAuditValues(updated),
+      user
+    ));
+
+    return NextResponse.json({ member: toTeamMember(updated) });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error actualizando miembro:', error);
+    return NextResponse.json(
+      { error: 'Error actualizando miembro' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Quita al miembro del equipo y cierra sus sesiones abiertas.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { sellerId, user } = await requireRole('admin');
+    const repository = getTeamRepository();
+    const members = await repository.load();
+    const current = members.find((member) => member.id === params.id && member.sellerId === sellerId);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'El miembro no existe' },
+        { status: 404 }
+      );
+    }
+
+    await repository.save(members.filter((member) => member !== current));
+    await getSessionRepository().deleteForSeller(sellerId, current.id);
+    await getAuditRepository().append(sellerId, auditChanges(
+      { type: 'member', id: current.id, title: current.name },
+      memberAuditValues(current),
+      null,
+      user
+    ));
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error quitando miembro:', error);
+    return NextResponse.json(
+      { error: 'Error quitando miembro' },
+      { status: 500 }
+    );
+  }
+}
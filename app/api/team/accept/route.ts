@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startSession } from '@/lib/meli/auth';
+import { hashPassword } from '@/lib/passwords';
+import { getTeamRepository, hashInviteToken } from '@/lib/store/team';
+import { validatePassword } from '@/lib/team';
+import { asRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * El miembro acepta la invitación: `{ token, password }`. Guarda la
+ * contraseña, invalida el enlace e inicia la sesión.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: Record<string, unknown>;
+
+    try {
+      body = asRecord(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getTeamRepository();
+    const members = await repository.load();
+    const inviteHash = typeof body.token === 'string' ? hashInviteToken(body.token) : null;
+    const current = members.find((member) => inviteHash && member.inviteHash === inviteHash);
+
+    if (!current || !current.inviteExpiresAt || new Date(current.inviteExpiresAt).getTime() <= Date.now()) {
+      return NextResponse.json(
+        { error: 'La invitación no es válida o ya venció' },
+        { status: 404 }
+      );
+    }
+
+    const errors = validatePassword(body.password);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Contraseña inválida', errors },
+        { status: 400 }
+      );
+    }
+
+    const updated = {
+      ...current,
+      passwordHash: await hashPassword(String(body.password)),
+      inviteHash: null,
+      inviteExpiresAt: null,
+    };
+    await repository.save(members.map((member) => (member === current ? updated : member)));
+
+    const response = NextResponse.json({ success: true });
+    await startSession(response.cookies, updated.account, {
+      id: updated.id,
+      name: updated.name,
+      role: updated.role,
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Error aceptando invitación:', error);
+    return NextResponse.json(
+      { error: 'Error aceptando invitación' },
+      { status: 500 }
+    );
+  }
+}
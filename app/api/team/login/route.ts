@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startSession } from '@/lib/meli/auth';
+import { verifyDummyPassword, verifyPassword } from '@/lib/passwords';
+import { getFailureCounter } from '@/lib/rate-limit';
+import { getTeamRepository } from '@/lib/store/team';
+import { normalizeEmail } from '@/lib/team';
+import { asRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+// Intentos fallidos permitidos por email y por IP antes de bloquear los
+// siguientes durante LOGIN_WINDOW_MS. Por IP se permiten más porque detrás
+// de una misma IP puede haber varios miembros. La IP es la que informa la
+// plataforma (request.ip): x-forwarded-for lo puede inventar el cliente, así
+// que sin ella sólo se limita por email.
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_EMAIL = 5;
+const MAX_FAILURES_PER_IP = 20;
+
+/**
+ * Login de los miembros del equipo: `{ email, password }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: Record<string, unknown>;
+
+    try {
+      body = asRecord(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const email = typeof body.email === 'string' ? normalizeEmail(body.email) : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    const byEmail = getFailureCounter('team-login:email', MAX_FAILURES_PER_EMAIL, LOGIN_WINDOW_MS);
+    const byIp = getFailureCounter('team-login:ip', MAX_FAILURES_PER_IP, LOGIN_WINDOW_MS);
+    const ip = request.ip;
+
+    if (byEmail.isBlocked(email) || (ip && byIp.isBlocked(ip))) {
+      return NextResponse.json(
+        { error: 'Demasiados intentos fallidos. Probá de nuevo en unos minutos' },
+        { status: 429 }
+      );
+    }
+
+    const found = (await getTeamRepository().load()).find((current) => current.email === email);
+    const valid = found?.passwordHash
+      ? await verifyPassword(password, found.passwordHash)
+      : await verifyDummyPassword(password);
+    const member = valid && found ? found : null;
+
+    if (!member) {
+      byEmail.recordFailure(email);
+      if (ip) byIp.recordFailure(ip);
+      return NextResponse.json(
+        { error: 'Email o contraseña incorrectos' },
+        { status: 401 }
+      );
+    }
+
+    byEmail.reset(email);
+
+    const response = NextResponse.json({ success: true });
+    await startSession(response.cookies, member.account, {
+      id: member.id,
+      name: member.name,
+      role: member.role,
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Error iniciando sesión:', error);
+    return NextResponse.json(
+      { error: 'Error iniciando sesión' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditChanges, memberAuditValues } from '@/lib/audit';
+import { ForbiddenError, MeliAuthError, requireRole } from '@/lib/meli/auth';
+import { getAuditRepository } from '@/lib/store/audit';
+import { createInvite, getTeamRepository, inviteUrl, memberIdFor, toTeamMember } from '@/lib/store/team';
+import { toMemberInput, validateMemberInput } from '@/lib/team';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Miembros del equipo de la cuenta activa. Sólo para administradores.
+ */
+export async function GET() {
+  try {
+    const { sellerId } = await requireRole('admin');
+    const members = (await getTeamRepository().load()).filter((member) => member.sellerId === sellerId);
+
+    return NextResponse.json({ members: members.map(toTeamMember) });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error obteniendo equipo:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo equipo' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Invita a un miembro: `{ name, email, role }`. Devuelve el enlace de
+ * invitación, que el administrador le hace llegar; sólo se muestra esta vez.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireRole('admin');
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateMemberInput(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Miembro inválido', errors },
+        { status: 400 }
+      );
+    }
+
+    const repository = getTeamRepository();
+    const members = await repository.load();
+    const { name, email, role } = toMemberInput(body);
+
+    if (members.some((member) => member.email === email)) {
+      return NextResponse.json(
+        { error: 'Ya hay un miembro con ese email', errors: ['Ya hay un miembro con ese email'] },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const { token, ...invite } = createInvite();
+    const member = {
+      id: memberIdFor(now),
+      sellerId: session.sellerId,
+      account: session.accounts.find((account) => account.id === session.sellerId)!,
+      name,
+      email,
+      role,
+      createdAt: now,
+      passwordHash: null,
+      ...invite,
+    };
+    await repository.save([...members, member]);
+    await getAuditRepository().append(session.sellerId, auditChanges(
+      { type: 'member', id: member.id, title: member.name },
+      null,
+      { ...memberAuditValues(member), inviteExpiresAt: member.inviteExpiresAt },
+      session.user
+    ));
+
+    return NextResponse.json(
+      { member: toTeamMember(member), inviteUrl: inviteUrl(token) },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error invitando miembro:', error);
+    return NextResponse.json(
+      { error: 'Error invitando miembro' },
+      { status: 500 }
+    );
+  }
+}
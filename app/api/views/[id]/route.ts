@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { viewsAuditEntries } from '@/lib/audit';
+import { toCatalogView, validateCatalogView } from '@/lib/catalog-view';
+import { ForbiddenError, MeliAuthError, requireRole } from '@/lib/meli/auth';
+import { getAuditRepository } from '@/lib/store/audit';
+import { SavedView, getViewRepository, validateViewName } from '@/lib/store/views';
+import { asRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Renombra la vista, reemplaza su contenido o la marca como predeterminada
+ * (isDefault: false la desmarca).
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { sellerId, user } = await requireRole('editor');
+    let body: Record<string, unknown>;
+
+    try {
+      body = asRecord(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getViewRepository();
+    const saved = await repository.load(sellerId);
+    const current = saved.views.find((view) => view.id === params.id);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'La vista no existe' },
+        { status: 404 }
+      );
+    }
+
+    const errors = [
+      ...(body.name !== undefined ? validateViewName(body.name, saved, current.id) : []),
+      ...(body.view !== undefined ? validateCatalogView(body.view) : []),
+    ];
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Vista inválida', errors },
+        { status: 400 }
+      );
+    }
+
+    const updated: SavedView = {
+      ...current,
+      name: body.name !== undefined ? String(body.name).trim() : current.name,
+      view: body.view !== undefined ? toCatalogView(body.view) : current.view,
+      updatedAt: new Date().toISOString(),
+    };
+
+    let defaultViewId = saved.defaultViewId;
+    if (body.isDefault === true) {
+      defaultViewId = current.id;
+    } else if (body.isDefault === false && defaultViewId === current.id) {
+      defaultViewId = null;
+    }
+
+    const next = {
+      defaultViewId,
+      views: saved.views.map((view) => (view.id === current.id ? updated : view)),
+    };
+    await repository.save(sellerId, next);
+    await getAuditRepository().append(sellerId, viewsAuditEntries(saved, next, user));
+
+    return NextResponse.json({ view: updated, defaultViewId });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error actualizando vista:', error);
+    return NextResponse.json(
+      { error: 'Error actualizando vista' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { sellerId, user } = await requireRole('editor');
+    const repository = getViewRepository();
+    const saved = await repository.load(sellerId);
+
+    if (!saved.views.some((view) => view.id === params.id)) {
+      return NextResponse.json(
+        { error: 'La vista no existe' },
+        { status: 404 }
+      );
+    }
+
+    const next = {
+      defaultViewId: saved.defaultViewId === params.id ? null : saved.defaultViewId,
+      views: saved.views.filter((view) => view.id !== params.id),
+    };
+    await repository.save(sellerId, next);
+    await getAuditRepository().append(sellerId, viewsAuditEntries(saved, next, user));
+
+    return NextResponse.json({ deleted: params.id });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error eliminando vista:', error);
+    return NextResponse.json(
+      { error: 'Error eliminando vista' },
+      { status: 500 }
+    );
+  }
+}
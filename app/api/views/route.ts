@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { viewsAuditEntries } from '@/lib/audit';
+import { toCatalogView, validateCatalogView } from '@/lib/catalog-view';
+import { ForbiddenError, MeliAuthError, getSessionUserId, requireRole } from '@/lib/meli/auth';
+import { getAuditRepository } from '@/lib/store/audit';
+import { getViewRepository, validateViewName, viewIdFor } from '@/lib/store/views';
+import { asRecord } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const sellerId = await getSessionUserId();
+    const saved = await getViewRepository().load(sellerId);
+
+    return NextResponse.json(saved);
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error obteniendo vistas:', error);
+    return NextResponse.json(
+      { error: 'Error obteniendo vistas' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { sellerId, user } = await requireRole('editor');
+    let body: Record<string, unknown>;
+
+    try {
+      body = asRecord(await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: 'El cuerpo debe ser JSON' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getViewRepository();
+    const saved = await repository.load(sellerId);
+
+    const errors = [...validateViewName(body.name, saved), ...validateCatalogView(body.view)];
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Vista inválida', errors },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const view = {
+      id: viewIdFor(now),
+      name: String(body.name).trim(),
+      view: toCatalogView(body.view),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const next = {
+      defaultViewId: body.isDefault ? view.id : saved.defaultViewId,
+      views: [...saved.views, view],
+    };
+    await repository.save(sellerId, next);
+    await getAuditRepository().append(sellerId, viewsAuditEntries(saved, next, user));
+
+    return NextResponse.json({ view }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof MeliAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Error guardando vista:', error);
+    return NextResponse.json(
+      { error: 'Error guardando vista' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  AUDIT_TARGET_LABELS,
+  AuditEntry,
+  AuditTarget,
+  AuditValue,
+  auditFieldLabel,
+  formatAuditValue,
+} from '@/lib/audit';
+import { formatDate } from '@/lib/format';
+import { DEFAULT_SITE_ID, getSite } from '@/lib/meli/sites';
+
+export default function AuditLog() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [users, setUsers] = useState<AuditEntry['user'][]>([]);
+  const [siteId, setSiteId] = useState<string>(DEFAULT_SITE_ID);
+  const [target, setTarget] = useState<AuditTarget | ''>('');
+  const [search, setSearch] = useState('');
+  const [userId, setUserId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const params = new URLSearchParams();
+  if (target) params.set('target', target);
+  if (search.trim()) params.set('search', search.trim());
+  if (userId) params.set('user', userId);
+
+  useEffect(() => {
+    // Espera a que se deje de tipear la búsqueda antes de pedir
+    const timeout = setTimeout(fetchEntries, 300);
+    return () => clearTimeout(timeout);
+  }, [target, search, userId]);
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/audit?${params.toString()}`);
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      if (response.status === 403) {
+        throw new Error('Sólo los administradores ven la auditoría');
+      }
+
+      if (!response.ok) {
+        throw new Error('Error cargando auditoría');
+      }
+
+      const data = await response.json();
+      setEntries(data.entries);
+      setUsers(data.users);
+      setSiteId(data.siteId);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const site = getSite(siteId);
+  const formatValue = (value: AuditValue) => {
+    if (value === null) return '-';
+    return typeof value === 'number' ? value.toLocaleString(site.locale) : formatAuditValue(value);
+  };
+  const exportParams = new URLSearchParams(params);
+  exportParams.set('format', 'csv');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Volver al dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-800 mb-3">Auditoría de cambios</h1>
+          <div className="flex flex-col md:flex-row gap-4 items-start md:items-end justify-between">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div>
+                <label htmlFor="auditTarget" className="block text-sm font-medium text-gray-700 mb-2">
+                  Tipo
+                </label>
+                <select
+                  id="auditTarget"
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value as AuditTarget | '')}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+                >
+                  <option value="">Todos</option>
+                  {(Object.keys(AUDIT_TARGET_LABELS) as AuditTarget[]).map((key) => (
+                    <option key={key} value={key}>{AUDIT_TARGET_LABELS[key]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="auditSearch" className="block text-sm font-medium text-gray-700 mb-2">
+                  ID o nombre
+                </label>
+                <input
+                  id="auditSearch"
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="MLA123456789"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label htmlFor="auditUser" className="block text-sm font-medium text-gray-700 mb-2">
+                  Usuario
+                </label>
+                <select
+                  id="auditUser"
+                  value={userId}
+                  onChange={(e) => setUserId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[200px]"
+                >
+                  <option value="">Todos</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>{user.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <a
+              href={`/api/audit?${exportParams.toString()}`}
+              className={`bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 whitespace-nowrap ${entries.length === 0 ? 'pointer-events-none opacity-50' : ''}`}
+            >
+              Exportar CSV ({entries.length})
+            </a>
+          </div>
+          {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Fecha
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Usuario
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cambiado
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Campo
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Antes
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Después
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-400">
+                    {loading ? 'Cargando...' : 'No hay cambios registrados'}
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry, index) => (
+                  <tr key={`${entry.at}-${entry.targetId}-${entry.variationId}-${entry.field}-${index}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{formatDate(entry.at, site)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{entry.user.name}</td>
+                    <td className="px-4 py-3">
+                      {entry.target === 'item' ? (
+                        <Link
+                          href={`/dashboard/history/${entry.targetId}`}
+                          className="text-blue-600 hover:text-blue-800 font-medium hover:underline"
+                        >
+                          {entry.title}
+                        </Link>
+                      ) : (
+                        <span className="text-sm font-medium text-gray-900">{entry.title}</span>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        {AUDIT_TARGET_LABELS[entry.target]} · {entry.targetId}
+                        {entry.variationId !== null && ` · variación ${entry.variationId}`}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{auditFieldLabel(entry.field)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500 text-right break-words max-w-[240px]">{formatValue(entry.oldValue)}</td>
+                    <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right break-words max-w-[240px]">{formatValue(entry.newValue)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDate, formatPrice } from '@/lib/format';
+import { CHANGE_LABELS, SnapshotChange } from '@/lib/history';
+import { DEFAULT_SITE_ID, getSite } from '@/lib/meli/sites';
+import { getPublicationStatus } from '@/lib/products';
+import type { SnapshotSummary } from '@/lib/store/snapshots';
+import { downloadXlsx } from '@/lib/xlsx';
+
+export default function ChangesReport() {
+  const router = useRouter();
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [fromId, setFromId] = useState<string>('');
+  const [changes, setChanges] = useState<SnapshotChange[]>([]);
+  const [siteId, setSiteId] = useState<string>(DEFAULT_SITE_ID);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, []);
+
+  useEffect(() => {
+    if (fromId) {
+      fetchChanges(fromId);
+    }
+  }, [fromId]);
+
+  const fetchSnapshots = async () => {
+    try {
+      const response = await fetch('/api/history/snapshots');
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Error cargando historial');
+      }
+
+      const data = await response.json();
+      setSnapshots(data.snapshots);
+      setSiteId(data.site);
+
+      // Por defecto se compara contra la foto anterior a la última
+      if (data.snapshots.length > 1) {
+        setFromId(data.snapshots[data.snapshots.length - 2].id);
+      } else {
+        setLoading(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+      setLoading(false);
+    }
+  };
+
+  const fetchChanges = async (snapshotId: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/history/changes?from=${encodeURIComponent(snapshotId)}`);
+
+      if (!response.ok) {
+        throw new Error('Error cargando cambios');
+      }
+
+      const data = await response.json();
+      setChanges(data.changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const site = getSite(siteId);
+  const fromSnapshot = snapshots.find((snapshot) => snapshot.id === fromId);
+
+  const formatValue = (change: SnapshotChange, value: SnapshotChange['before']): string => {
+    if (value === null) return '-';
+    if (change.kind === 'repriced') return formatPrice(Number(value), site, change.currency_id);
+    if (change.kind === 'paused' || change.kind === 'status_changed') {
+      return getPublicationStatus(String(value)).label;
+    }
+    return String(value);
+  };
+
+  const exportChanges = () => {
+    const dataToExport = changes.map(change => ({
+      'Cambio': CHANGE_LABELS[change.kind],
+      'ID': change.id,
+      'Producto': change.title,
+      'SKU': change.sku || '-',
+      'Antes': formatValue(change, change.before),
+      'Después': formatValue(change, change.after),
+    }));
+
+    const fileName = `cambios-mercadolibre-desde-${fromSnapshot?.takenAt.split('T')[0]}-${changes.length}-cambios.xlsx`;
+    downloadXlsx(dataToExport, 'Cambios', fileName);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Volver al dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-4 mb-6">
+          <div className="flex flex-col md:flex-row gap-4 items-start md:items-end justify-between">
+            <div>
+              <h1 className="text-xl font-bold text-gray-800 mb-3">Cambios en el catálogo</h1>
+              <label htmlFor="fromSnapshot" className="block text-sm font-medium text-gray-700 mb-2">
+                Desde la sincronización del:
+              </label>
+              <select
+                id="fromSnapshot"
+                value={fromId}
+                onChange={(e) => setFromId(e.target.value)}
+                disabled={snapshots.length < 2}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[240px]"
+              >
+                {snapshots.slice(0, -1).reverse().map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    {formatDate(snapshot.takenAt, site)} ({snapshot.itemCount} publicaciones)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={exportChanges}
+              disabled={changes.length === 0}
+              className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition duration-200 whitespace-nowrap"
+            >
+              Exportar a Excel ({changes.length})
+            </button>
+          </div>
+          {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cambio
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Producto
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  SKU
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Antes
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Después
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {changes.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-sm text-gray-400">
+                    {loading
+                      ? 'Cargando...'
+                      : snapshots.length < 2
+                        ? 'Hacen falta al menos dos sincronizaciones para comparar'
+                        : 'No hubo cambios desde esa sincronización'}
+                  </td>
+                </tr>
+              ) : (
+                changes.map((change) => (
+                  <tr key={`${change.kind}-${change.id}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{CHANGE_LABELS[change.kind]}</td>
+                    <td className="px-4 py-3">
+                      <Link
+                        href={`/dashboard/history/${change.id}`}
+                        className="text-blue-600 hover:text-blue-800 font-medium hover:underline"
+                      >
+                        {change.title}
+                      </Link>
+                      <p className="text-xs text-gray-500 mt-1">{change.id}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{change.sku || '-'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500 text-right">{formatValue(change, change.before)}</td>
+                    <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{formatValue(change, change.after)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import Sparkline from '@/components/Sparkline';
+import { formatDate, formatPrice } from '@/lib/format';
+import { HistoryPoint } from '@/lib/history';
+import { DEFAULT_SITE_ID, getSite } from '@/lib/meli/sites';
+import { getPublicationStatus } from '@/lib/products';
+import { MeliProduct } from '@/types/product';
+
+export default function ProductHistory({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const [item, setItem] = useState<MeliProduct | null>(null);
+  const [points, setPoints] = useState<HistoryPoint[]>([]);
+  const [siteId, setSiteId] = useState<string>(DEFAULT_SITE_ID);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [params.id]);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/history/items/${encodeURIComponent(params.id)}`);
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Error cargando historial');
+      }
+
+      const data = await response.json();
+      setItem(data.item);
+      setPoints(data.points);
+      setSiteId(data.site);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const site = getSite(siteId);
+  const currencyId = item?.currency_id;
+
+  // Se muestran sólo las fotos en las que algo cambió respecto de la anterior
+  const changedPoints = points.filter((point, i) => {
+    const previous = points[i - 1];
+    return !previous ||
+      previous.price !== point.price ||
+      previous.available_quantity !== point.available_quantity ||
+      previous.status !== point.status;
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Volver al dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-800">
+            {item?.title ?? params.id}
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {params.id}{item?.seller_sku && ` • SKU ${item.seller_sku}`}
+          </p>
+
+          {loading && <p className="text-gray-500 text-sm mt-4">Cargando historial...</p>}
+          {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+
+          {!loading && !error && points.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mt-6">
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Stock</p>
+                <Sparkline values={points.map((p) => p.available_quantity)} width={320} height={60} />
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Precio</p>
+                <Sparkline values={points.map((p) => p.price)} width={320} height={60} className="text-green-600" />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Fecha
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stock
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Precio
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estado
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {changedPoints.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-sm text-gray-400">
+                    {loading ? 'Cargando...' : 'Todavía no hay historial para esta publicación'}
+                  </td>
+                </tr>
+              ) : (
+                [...changedPoints].reverse().map((point) => (
+                  <tr key={point.takenAt} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-900">{formatDate(point.takenAt, site)}</td>
+                    <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-center">{point.available_quantity}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatPrice(point.price, site, currencyId)}</td>
+                    <td className="px-4 py-3 text-center">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getPublicationStatus(point.status).color}`}>
+                        {getPublicationStatus(point.status).label}
+                      </span>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
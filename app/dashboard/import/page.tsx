@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { BulkResult, FIELD_LABELS, updateKey } from '@/lib/bulk-edit';
+import { formatPrice } from '@/lib/format';
+import {
+  ImportRowResult,
+  ImportRowStatus,
+  analyzeImport,
+  parseSpreadsheet,
+  toImportUpdates,
+} from '@/lib/import';
+import { DEFAULT_SITE_ID, getSite } from '@/lib/meli/sites';
+import { readProductStream } from '@/lib/product-stream';
+import { downloadXlsx } from '@/lib/xlsx';
+import { MeliProduct } from '@/types/product';
+
+// Tamaño máximo que acepta /api/items/bulk por request
+const UPDATE_CHUNK_SIZE = 1000;
+
+const STATUS_LABELS: Record<ImportRowStatus, { label: string; color: string }> = {
+  change: { label: 'Con cambios', color: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Sin cambios', color: 'bg-gray-100 text-gray-800' },
+  error: { label: 'Con errores', color: 'bg-red-100 text-red-800' },
+  unmatched: { label: 'Sin coincidencia', color: 'bg-yellow-100 text-yellow-800' },
+};
+
+export default function ImportPage() {
+  const router = useRouter();
+  const [products, setProducts] = useState<MeliProduct[]>([]);
+  const [siteId, setSiteId] = useState<string>(DEFAULT_SITE_ID);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRowResult[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | 'todos'>('todos');
+  const [applyResults, setApplyResults] = useState<Record<string, BulkResult>>({});
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProducts();
+  }, []);
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products');
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Error cargando productos');
+      }
+
+      const { meta, items } = await readProductStream(response);
+      setProducts(items);
+      setSiteId(meta.site);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      setError(null);
+      setApplyResults({});
+      setFileName(file.name);
+      const parsed = parseSpreadsheet(await file.arrayBuffer());
+      setRows(analyzeImport(parsed, products));
+    } catch (err) {
+      setRows([]);
+      setError('No se pudo leer el archivo. Debe ser un .xlsx o .csv');
+    }
+  };
+
+  const applyChanges = async () => {
+    const updates = toImportUpdates(rows);
+    if (!confirm(`¿Aplicar ${updates.length} cambios en Mercado Libre?`)) {
+      return;
+    }
+
+    setApplying(true);
+    setError(null);
+
+    try {
+      const results: Record<string, BulkResult> = {};
+
+      for (let i = 0; i < updates.length; i += UPDATE_CHUNK_SIZE) {
+        const response = await fetch('/api/items/bulk', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ updates: updates.slice(i, i + UPDATE_CHUNK_SIZE), dryRun: false }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Error aplicando cambios');
+        }
+
+        data.results.forEach((result: BulkResult) => { results[updateKey(result)] = result; });
+        setApplyResults({ ...results });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const resultFor = (row: ImportRowResult): BulkResult | undefined => {
+    return row.id ? applyResults[updateKey({ id: row.id, variation_id: row.variation_id })] : undefined;
+  };
+
+  const downloadRejected = () => {
+    const rejected = rows
+      .filter(row => row.status === 'error' || row.status === 'unmatched' ||
+        (resultFor(row) && resultFor(row)!.status !== 'updated'))
+      .map(row => ({
+        ...row.raw,
+        'Fila': row.rowNumber,
+        'Motivo': row.status === 'unmatched'
+          ? 'No se encontró la publicación'
+          : [...row.errors, ...(resultFor(row)?.errors ?? [])].join('; '),
+      }));
+
+    const baseName = (fileName ?? 'importacion').replace(/\.(xlsx|xls|csv)$/i, '');
+    downloadXlsx(rejected, 'Rechazadas', `${baseName}-rechazadas-${rejected.length}-filas.xlsx`);
+  };
+
+  const site = getSite(siteId);
+  const counts = rows.reduce<Record<string, number>>((acc, row) => {
+    acc[row.status] = (acc[row.status] ?? 0) + 1;
+    return acc;
+  }, {});
+  const pendingChanges = rows.filter(row => row.status === 'change').length;
+  const hasRejected = (counts.error ?? 0) + (counts.unmatched ?? 0) > 0 ||
+    Object.values(applyResults).some(result => result.status !== 'updated');
+  const visibleRows = statusFilter === 'todos' ? rows : rows.filter(row => row.status === statusFilter);
+
+  const formatValue = (row: ImportRowResult, field: string, value: number) => {
+    return field === 'price' ? formatPrice(value, site, row.currency_id ?? undefined) : String(value);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1400px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Volver al dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-800 mb-2">Importar stock y precios</h1>
+          <p className="text-sm text-gray-600 mb-4">
+            Subí un .xlsx o .csv con columnas ID o SKU, y Stock y/o Precio. Podés usar el mismo archivo
+            que genera &quot;Exportar&quot; en formato Excel o CSV.
+          </p>
+          <input
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            disabled={products.length === 0}
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            className="text-sm"
+          />
+          {products.length === 0 && !error && (
+            <p className="text-xs text-gray-500 mt-2">Cargando catálogo...</p>
+          )}
+          {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+        </div>
+
+        {rows.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+            <div className="flex flex-col md:flex-row gap-4 items-start md:items-center justify-between">
+              <div className="flex flex-wrap gap-2">
+                {(['todos', 'change', 'unchanged', 'error', 'unmatched'] as const).map(status => (
+                  <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={`px-3 py-1.5 border rounded-lg text-sm font-medium transition ${
+                      statusFilter === status
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {status === 'todos' ? `Todas (${rows.length})` : `${STATUS_LABELS[status].label} (${counts[status] ?? 0})`}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={downloadRejected}
+                  disabled={!hasRejected}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed transition"
+                >
+                  Descargar rechazadas
+                </button>
+                <button
+                  onClick={applyChanges}
+                  disabled={applying || pendingChanges === 0}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+                >
+                  {applying ? 'Aplicando...' : `Aplicar ${pendingChanges} cambios`}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-16">Fila</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Producto</th>
+                    <th className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cambios</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Detalle</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {visibleRows.map(row => {
+                    const applied = resultFor(row);
+                    return (
+                      <tr key={row.rowNumber} className="hover:bg-gray-50">
+                        <td className="px-3 py-3 text-sm text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-3 text-sm text-gray-900">
+                          {row.title ?? '-'}
+                          {row.id && (
+                            <p className="text-xs text-gray-500">
+                              {row.id}{row.variation && ` • ${row.variation}`}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-3 py-3 text-center">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_LABELS[row.status].color}`}>
+                            {STATUS_LABELS[row.status].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-3 text-sm text-gray-900">
+                          {row.changes.map(change => (
+                            <p key={change.field}>
+                              {FIELD_LABELS[change.field]}: {formatValue(row, change.field, change.before)} → <span className="font-semibold">{formatValue(row, change.field, change.after)}</span>
+                            </p>
+                          ))}
+                        </td>
+                        <td className="px-3 py-3 text-xs">
+                          {row.errors.length > 0 && <p className="text-red-600">{row.errors.join('; ')}</p>}
+                          {applied?.status === 'updated' && <p className="text-green-700 font-semibold">Actualizado</p>}
+                          {applied && applied.errors.length > 0 && <p className="text-red-600">{applied.errors.join('; ')}</p>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
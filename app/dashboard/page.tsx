@@ -1,154 +1,509 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Fragment, KeyboardEvent, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import * as XLSX from 'xlsx';
-
-interface Product {
-  id: string;
-  title: string;
-  attributes: Array<{
-    id: string;
-    name: string;
-    value_name: string;
-  }>;
-  available_quantity: number;
-  status: string;
-  price: number;
-  last_updated: string;
-  permalink: string;
-  shipping: {
-    mode: string;
-    free_shipping: boolean;
-    logistic_type: string | null;
-  };
+import BulkEditPanel from '@/components/BulkEditPanel';
+import ColumnChooser from '@/components/ColumnChooser';
+import FilterBuilder from '@/components/FilterBuilder';
+import KpiPanel from '@/components/KpiPanel';
+import SavedViewsMenu from '@/components/SavedViewsMenu';
+import { ALL_ACCOUNTS, LinkedAccount, accountLabel } from '@/lib/accounts';
+import { CatalogView, applyCatalogView } from '@/lib/catalog-view';
+import { ALL_ROWS, ITEMS_PER_PAGE_OPTIONS, parseUrlState, toUrlParams } from '@/lib/dashboard-url';
+import { EXPORT_FORMATS, ExportFormat, toExportParams } from '@/lib/export';
+import { EMPTY_FILTER, FilterGroup, countConditions } from '@/lib/filters';
+import { Kpi, computeInventoryKpis, isKpiActive, kpiFilter } from '@/lib/inventory-kpis';
+import { DEFAULT_SITE_ID, getSite } from '@/lib/meli/sites';
+import { formatDate as formatSiteDate, formatPrice as formatSitePrice } from '@/lib/format';
+import { LIVE_STATUS_LABELS, applyChangeEvents } from '@/lib/live-updates';
+import { readNdjson } from '@/lib/ndjson';
+import { ProductStreamMeta, readProductStream } from '@/lib/product-stream';
+import { SalesSummary, daysOfCover } from '@/lib/sales';
+import { matchVariations, variationLabel } from '@/lib/variations';
+import { FULFILLMENT_LABELS, getFulfillmentKey, getPublicationStatus } from '@/lib/products';
+import { DEFAULT_STOCK_RULES, STOCK_LEVELS, StockLevel, StockRules, getStockLevel } from '@/lib/stock-rules';
+import { OWNER_USER_ID, ROLE_LABELS, SessionUser, hasRole } from '@/lib/team';
+import {
+  COLUMNS,
+  ColumnId,
+  DEFAULT_TABLE_LAYOUT,
+  TableLayout,
+  listingTypeLabel,
+  productSalesPerDay,
+  rowSalesPerDay,
+  stockValue,
+  toggleSort,
+} from '@/lib/table-columns';
+import type { SavedView, SavedViews } from '@/lib/store/views';
+import { useLiveUpdates } from '@/lib/use-live-updates';
+import { useVirtualRows } from '@/lib/use-virtual-rows';
+import { MeliProduct, MeliVariation } from '@/types/product';
+
+interface SyncProgress {
+  phase: 'ids' | 'changes' | 'details';
+  done: number;
+  total: number;
+  // Nickname de la cuenta, al sincronizar todas las cuentas
+  account?: string;
 }
 
+// Líneas NDJSON de /api/sync
+type SyncStreamEvent =
+  | ({ type: 'progress' } & SyncProgress)
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+const ALIGN_CLASSES = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+// Cuánto queda resaltada una fila que cambió en vivo
+const HIGHLIGHT_MS = 3000;
+
+// Alto fijo de las filas en la tabla virtualizada, para saber cuáles se ven
+// sin tener que dibujarlas
+const PRODUCT_ROW_HEIGHT = 77;
+const VARIATION_ROW_HEIGHT = 53;
+
+// Filas que saltan Re Pág / Av Pág en la navegación con teclado
+const PAGE_JUMP = 10;
+
+const SYNC_PHASE_LABELS: Record<SyncProgress['phase'], string> = {
+  ids: 'Listando publicaciones',
+  changes: 'Buscando cambios',
+  details: 'Descargando publicaciones',
+};
+
 export default function Dashboard() {
   const router = useRouter();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [paginatedProducts, setPaginatedProducts] = useState<Product[]>([]);
+  const [products, setProducts] = useState<MeliProduct[]>([]);
+  const [filteredProducts, setFilteredProducts] = useState<MeliProduct[]>([]);
+  const [paginatedProducts, setPaginatedProducts] = useState<MeliProduct[]>([]);
   const [loading, setLoading] = useState(true);
+  // Sin catálogo guardado: la carga inicial espera la primera sincronización
+  const [firstSync, setFirstSync] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [total, setTotal] = useState(0);
+  const [siteId, setSiteId] = useState<string>(DEFAULT_SITE_ID);
+  // Secuencia de eventos del catálogo leído, desde donde siguen los cambios en vivo
+  const [catalogSeq, setCatalogSeq] = useState(0);
+
+  // Cuentas vinculadas a la sesión. Con `allAccounts` el catálogo, las
+  // ventas y la exportación abarcan todas (`scope=all` en la URL).
+  const [accounts, setAccounts] = useState<LinkedAccount[]>([]);
+  const [activeAccountId, setActiveAccountId] = useState<number | null>(null);
+  const [allAccounts, setAllAccounts] = useState(false);
+  // Los pedidos al servidor leen el ref: también se hacen desde funciones
+  // creadas antes del último render
+  const allAccountsRef = useRef(false);
+
+  // Estados de sincronización con Mercado Libre
+  const [syncedAt, setSyncedAt] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  // Avance de la lectura del catálogo guardado mientras llegan las tandas
+  const [loadProgress, setLoadProgress] = useState<{ loaded: number; total: number } | null>(null);
   
   // Estados para paginación
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(50);
-  const [loadingMore, setLoadingMore] = useState(false);
   
   // Estados para filtros
   const [fulfillmentFilter, setFulfillmentFilter] = useState<string>('todos');
+  const [stockFilter, setStockFilter] = useState<StockLevel | 'todos'>('todos');
+  const [advancedFilter, setAdvancedFilter] = useState<FilterGroup>(EMPTY_FILTER);
+  const [filterBuilderOpen, setFilterBuilderOpen] = useState(false);
+
+  // La URL se empieza a actualizar recién después de leerla al cargar
+  const [urlRestored, setUrlRestored] = useState(false);
+
+  // Reglas de alerta de stock configuradas por el vendedor
+  const [stockRules, setStockRules] = useState<StockRules>(DEFAULT_STOCK_RULES);
+
+  // Unidades vendidas por publicación, para ventas/día y días de cobertura
+  const [sales, setSales] = useState<SalesSummary | null>(null);
+
+  // Columnas visibles y orden de la tabla, guardados por usuario
+  const [tableLayout, setTableLayout] = useState<TableLayout>(DEFAULT_TABLE_LAYOUT);
+
+  // Vistas guardadas del vendedor y la que está aplicada
+  const [savedViews, setSavedViews] = useState<SavedViews>({ defaultViewId: null, views: [] });
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [exportSource, setExportSource] = useState<string>('actual');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+
+  // Estados para edición masiva
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
+
+  // Usuario de la sesión: los de sólo lectura no ven la edición masiva
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const canEdit = user !== null && hasRole(user.role, 'editor');
+
+  // Publicaciones con las variaciones desplegadas
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  // Fila activa de la navegación con teclado
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const tableContainerRef = useRef<HTMLDivElement>(null);
+  const tableHeaderRef = useRef<HTMLTableSectionElement>(null);
+
+  // Publicaciones que acaban de cambiar en vivo, resaltadas en la tabla
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+
+  // Cambios de stock, precio y estado que llegan sin recargar (notificaciones,
+  // ediciones desde otra pestaña, sincronizaciones)
+  const liveStatus = useLiveUpdates(!loading && !error, allAccounts, catalogSeq, {
+    onChanges: (events) => {
+      const ids = events.map(event => event.item.id);
+      setProducts(prev => applyChangeEvents(prev, events));
+      setHighlightedIds(prev => new Set([...Array.from(prev), ...ids]));
+      setTimeout(() => {
+        setHighlightedIds(prev => {
+          const next = new Set(prev);
+          ids.forEach(id => next.delete(id));
+          return next;
+        });
+      }, HIGHLIGHT_MS);
+    },
+    onReset: () => {
+      fetchProducts().catch(() => undefined);
+    },
+  });
 
   useEffect(() => {
-    fetchProducts();
+    const restored = restoreUrlState();
+    initialize(restored);
   }, []);
 
   useEffect(() => {
     filterProducts();
-  }, [searchTerm, products, fulfillmentFilter]);
+  }, [searchTerm, products, fulfillmentFilter, stockFilter, advancedFilter, stockRules, sales, tableLayout.sort, accounts]);
+
+  useEffect(() => {
+    if (!urlRestored) return;
+
+    const params = toUrlParams({
+      searchTerm,
+      currentPage,
+      itemsPerPage,
+      fulfillmentFilter,
+      stockFilter,
+      filter: advancedFilter,
+    });
+    if (allAccounts) params.set('scope', ALL_ACCOUNTS);
+    const query = params.toString();
+    window.history.replaceState(null, '', query ? `${window.location.pathname}?${query}` : window.location.pathname);
+  }, [urlRestored, searchTerm, currentPage, itemsPerPage, fulfillmentFilter, stockFilter, advancedFilter, allAccounts]);
   
   useEffect(() => {
     paginateProducts();
   }, [filteredProducts, currentPage, itemsPerPage]);
 
+  // Restaura búsqueda, filtros y paginación desde la URL (vista compartida o recarga)
+  // Devuelve si la URL traía estado propio
+  const restoreUrlState = (): boolean => {
+    const params = new URLSearchParams(window.location.search);
+    const state = parseUrlState(params);
+    allAccountsRef.current = params.get('scope') === ALL_ACCOUNTS;
+    setAllAccounts(allAccountsRef.current);
+    setSearchTerm(state.searchTerm);
+    setCurrentPage(state.currentPage);
+    setItemsPerPage(state.itemsPerPage);
+    setFulfillmentFilter(state.fulfillmentFilter);
+    setStockFilter(state.stockFilter);
+    setAdvancedFilter(state.filter);
+    setFilterBuilderOpen(state.filter.conditions.length > 0);
+    setUrlRestored(true);
+    return window.location.search.length > 1;
+  };
+
+  // Al cambiar un filtro se vuelve a la primera página
+  const updateFilters = (update: () => void) => {
+    update();
+    setCurrentPage(1);
+  };
+
   const paginateProducts = () => {
+    // Sin paginar se muestran todas y la tabla dibuja sólo las visibles
+    if (itemsPerPage === ALL_ROWS) {
+      setPaginatedProducts(filteredProducts);
+      return;
+    }
+
     const startIndex = (currentPage - 1) * itemsPerPage;
     const endIndex = startIndex + itemsPerPage;
     const paginated = filteredProducts.slice(startIndex, endIndex);
     setPaginatedProducts(paginated);
   };
 
-  const fetchProducts = async () => {
+  // Agrega `scope=all` a una ruta de la API en la vista de todas las cuentas
+  const withScope = (path: string): string => {
+    if (!allAccountsRef.current) return path;
+    return `${path}${path.includes('?') ? '&' : '?'}scope=${ALL_ACCOUNTS}`;
+  };
+
+  // Lee el catálogo guardado en el servidor. Devuelve null si no hay sesión.
+  // Con `progressive` la tabla se va llenando a medida que llegan las tandas;
+  // si no, la lista anterior se reemplaza recién con el catálogo completo.
+  const fetchProducts = async (progressive = false): Promise<ProductStreamMeta | null> => {
+    const response = await fetch(withScope('/api/products'));
+
+    if (response.status === 401) {
+      router.push('/');
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error('Error cargando productos');
+    }
+
     try {
-      setLoading(true);
-      
-      // Primero obtenemos el total para saber cuántos productos hay
-      const initialResponse = await fetch('/api/products?offset=0&limit=50');
-      
-      if (initialResponse.status === 401) {
+      const { meta, items } = await readProductStream(response, {
+        onMeta: (meta) => {
+          setTotal(meta.total);
+          setSiteId(meta.site);
+          setSyncedAt(meta.syncedAt);
+          setCatalogSeq(meta.seq);
+          if (progressive && meta.syncedAt) {
+            setLoadProgress({ loaded: 0, total: meta.total });
+            setLoading(false);
+          }
+        },
+        onItems: (items) => {
+          if (!progressive) return;
+          setProducts(items);
+          setLoadProgress(prev => prev && { ...prev, loaded: items.length });
+        },
+      });
+
+      setProducts(items);
+      return meta;
+    } finally {
+      setLoadProgress(null);
+    }
+  };
+
+  // Si la configuración no se puede leer se sigue usando la de por defecto
+  const fetchSettings = async (applyDefaultView: boolean) => {
+    const [rulesResponse, layoutResponse, viewsResponse, salesResponse, accountsResponse, meResponse] = await Promise.all([
+      fetch('/api/settings/stock-rules'),
+      fetch('/api/settings/table-layout'),
+      fetch('/api/views'),
+      fetch(withScope('/api/sales')),
+      fetch('/api/accounts'),
+      fetch('/api/me'),
+    ]);
+    if (rulesResponse.ok) {
+      const data = await rulesResponse.json();
+      setStockRules(data.stockRules);
+    }
+    if (layoutResponse.ok) {
+      const data = await layoutResponse.json();
+      setTableLayout(data.tableLayout);
+    }
+    if (salesResponse.ok) {
+      const data = await salesResponse.json();
+      setSales(data.sales);
+    }
+    if (accountsResponse.ok) {
+      const data = await accountsResponse.json();
+      setAccounts(data.accounts);
+      setActiveAccountId(data.activeId);
+    }
+    if (meResponse.ok) {
+      const data = await meResponse.json();
+      setUser(data.user);
+    }
+    if (viewsResponse.ok) {
+      const data: SavedViews = await viewsResponse.json();
+      setSavedViews(data);
+
+      // La vista predeterminada se aplica sólo si la URL no pide otra cosa
+      const defaultView = data.views.find(view => view.id === data.defaultViewId);
+      if (applyDefaultView && defaultView) {
+        applyView(defaultView);
+      }
+    }
+  };
+
+  const applyView = (saved: SavedView) => {
+    const { view } = saved;
+    setSearchTerm(view.searchTerm);
+    setFulfillmentFilter(view.fulfillmentFilter);
+    setStockFilter(view.stockFilter);
+    setAdvancedFilter(view.filter);
+    setFilterBuilderOpen(view.filter.conditions.length > 0);
+    setTableLayout({ columns: view.columns, sort: view.sort });
+    setCurrentPage(1);
+    setActiveViewId(saved.id);
+  };
+
+  const updateTableLayout = (next: TableLayout) => {
+    setTableLayout(next);
+    fetch('/api/settings/table-layout', {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(next),
+    }).catch(() => undefined);
+  };
+
+  const handleSort = (column: ColumnId, append: boolean) => {
+    updateTableLayout({ ...tableLayout, sort: toggleSort(tableLayout.sort, column, append) });
+    setCurrentPage(1);
+  };
+
+  // Sincroniza con Mercado Libre y vuelve a leer el catálogo guardado
+  const syncProducts = async () => {
+    setSyncing(true);
+    setSyncProgress(null);
+    setSyncError(null);
+
+    try {
+      const response = await fetch(withScope('/api/sync'), { method: 'POST' });
+
+      if (response.status === 401) {
         router.push('/');
         return;
       }
 
-      if (!initialResponse.ok) {
-        throw new Error('Error cargando productos');
+      if (!response.ok) {
+        throw new Error('Error sincronizando productos');
       }
 
-      const initialData = await initialResponse.json();
-      const totalProducts = initialData.total;
-      setTotal(totalProducts);
-      
-      // Cargar todos los productos en batches de 50
-      const allProducts: Product[] = [...initialData.products];
-      const batchSize = 50;
-      
-      // Calcular cuántos batches necesitamos
-      const totalBatches = Math.ceil(totalProducts / batchSize);
-      
-      // Cargar el resto de los batches
-      for (let i = 1; i < totalBatches; i++) {
-        const offset = i * batchSize;
-        const response = await fetch(`/api/products?offset=${offset}&limit=${batchSize}`);
-        
-        if (response.ok) {
-          const data = await response.json();
-          allProducts.push(...data.products);
-          
-          // Actualizar progreso
-          setLoadingMore(true);
+      for await (const event of readNdjson<SyncStreamEvent>(response)) {
+        switch (event.type) {
+          case 'progress':
+            setSyncProgress(event);
+            break;
+          case 'done':
+            await fetchProducts();
+            refreshSales();
+            break;
+          case 'error':
+            throw new Error(event.error);
         }
       }
-      
-      setProducts(allProducts);
-      setFilteredProducts(allProducts);
-      
+    } finally {
+      setSyncing(false);
+      setSyncProgress(null);
+    }
+  };
+
+  // Las ventas se recalculan de fondo: si fallan, las columnas siguen con las anteriores
+  const refreshSales = async () => {
+    try {
+      const response = await fetch(withScope('/api/sales'), { method: 'POST' });
+      if (response.ok) {
+        const data = await response.json();
+        setSales(data.sales);
+      }
+    } catch {
+      // Se reintenta en la próxima sincronización
+    }
+  };
+
+  // Pasa de la cuenta activa a todas las cuentas juntas (o al revés) y vuelve
+  // a leer el catálogo y las ventas guardados
+  const changeAccountScope = async (all: boolean) => {
+    allAccountsRef.current = all;
+    setAllAccounts(all);
+    setSelectedIds(new Set());
+    setCurrentPage(1);
+    setSyncError(null);
+
+    try {
+      const [, salesResponse] = await Promise.all([fetchProducts(true), fetch(withScope('/api/sales'))]);
+      if (salesResponse.ok) {
+        const data = await salesResponse.json();
+        setSales(data.sales);
+      }
+    } catch (err) {
+      setSyncError(err instanceof Error ? err.message : 'Error desconocido');
+    }
+  };
+
+  // La configuración, las vistas y el historial son de cada cuenta: después
+  // de cambiar la cuenta activa se vuelve a cargar la página entera
+  const switchAccount = async (sellerId: number) => {
+    const response = await fetch('/api/accounts/switch', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ sellerId }),
+    });
+
+    if (response.status === 401) {
+      router.push('/');
+      return;
+    }
+    if (!response.ok) {
+      setSyncError('No se pudo cambiar de cuenta');
+      return;
+    }
+
+    const params = new URLSearchParams(window.location.search);
+    params.delete('scope');
+    const query = params.toString();
+    window.location.assign(query ? `${window.location.pathname}?${query}` : window.location.pathname);
+  };
+
+  const handleAccountChange = (value: string) => {
+    if (value === ALL_ACCOUNTS) {
+      changeAccountScope(true);
+    } else if (Number(value) === activeAccountId) {
+      changeAccountScope(false);
+    } else {
+      switchAccount(Number(value));
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      await syncProducts();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Error desconocido');
+      setSyncError(err instanceof Error ? err.message : 'Error desconocido');
+    }
+  };
+
+  const initialize = async (urlRestored: boolean) => {
+    let catalog: { syncedAt: string | null } | null = null;
+
+    try {
+      // La configuración va primero para que la tabla se llene ya con la
+      // vista y el orden que corresponden
+      await fetchSettings(!urlRestored).catch(() => undefined);
+
+      // Con un catálogo guardado se muestra enseguida, mientras llega, y la
+      // sincronización incremental corre de fondo sin bloquear la carga
+      catalog = await fetchProducts(true);
+      if (!catalog) return;
+
+      if (catalog.syncedAt) {
+        handleSync();
+        return;
+      }
+
+      setFirstSync(true);
+      await syncProducts();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Error desconocido';
+      if (catalog?.syncedAt) {
+        setSyncError(message);
+      } else {
+        setError(message);
+      }
     } finally {
       setLoading(false);
-      setLoadingMore(false);
     }
   };
 
   const filterProducts = () => {
-    let filtered = products;
-    
-    // Filtro por búsqueda de texto
-    if (searchTerm.trim()) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(product => {
-        const sku = getSellerSKU(product);
-        return (
-          product.title.toLowerCase().includes(term) ||
-          product.id.toLowerCase().includes(term) ||
-          (sku !== '-' && sku.toLowerCase().includes(term))
-        );
-      });
-    }
-    
-    // Filtro por tipo de fulfillment
-    if (fulfillmentFilter !== 'todos') {
-      filtered = filtered.filter(product => {
-        switch (fulfillmentFilter) {
-          case 'full':
-            return product.shipping.logistic_type === 'fulfillment';
-          case 'flex':
-            return product.shipping.logistic_type === 'xd_drop_off';
-          case 'me':
-            return product.shipping.mode === 'me2';
-          case 'normal':
-            return product.shipping.mode === 'not_specified' || 
-                   (!product.shipping.logistic_type && product.shipping.mode !== 'me2');
-          default:
-            return true;
-        }
-      });
-    }
-    
-    setFilteredProducts(filtered);
+    setFilteredProducts(applyCatalogView(products, currentView, { stockRules, site, sales, accounts }));
   };
 
   const handlePageChange = (newPage: number) => {
@@ -161,110 +516,334 @@ export default function Dashboard() {
     setCurrentPage(1);
   };
 
-  const totalPages = Math.ceil(filteredProducts.length / itemsPerPage);
-  const startItem = (currentPage - 1) * itemsPerPage + 1;
-  const endItem = Math.min(currentPage * itemsPerPage, filteredProducts.length);
+  // Con todas las cuentas juntas cada fila muestra de qué cuenta es
+  const tableColumns: ColumnId[] = allAccounts && !tableLayout.columns.includes('account')
+    ? ['account', ...tableLayout.columns]
+    : tableLayout.columns;
 
-  const getSellerSKU = (product: Product): string => {
-    if (!product.attributes || product.attributes.length === 0) {
-      return '-';
-    }
-    
-    const skuAttribute = product.attributes.find(attr => attr.id === 'SELLER_SKU');
-    return skuAttribute ? skuAttribute.value_name : '-';
+  const currentView: CatalogView = {
+    searchTerm,
+    fulfillmentFilter,
+    stockFilter,
+    filter: advancedFilter,
+    columns: tableColumns,
+    sort: tableLayout.sort,
   };
 
-  const getStockStatus = (quantity: number): { label: string; color: string } => {
-    if (quantity <= 5) {
-      return { label: 'Stock bajo', color: 'bg-yellow-100 text-yellow-800' };
-    }
-    return { label: 'Stock normal', color: 'bg-green-100 text-green-800' };
+  const activeConditions = countConditions(advancedFilter);
+  const hasFilters = Boolean(searchTerm) || fulfillmentFilter !== 'todos' || stockFilter !== 'todos' ||
+    activeConditions > 0;
+
+  const virtualized = itemsPerPage === ALL_ROWS;
+  const totalPages = virtualized ? 1 : Math.ceil(filteredProducts.length / itemsPerPage);
+  const startItem = virtualized ? 1 : (currentPage - 1) * itemsPerPage + 1;
+  const endItem = virtualized ? filteredProducts.length : Math.min(currentPage * itemsPerPage, filteredProducts.length);
+
+  const getSellerSKU = (product: MeliProduct): string => {
+    return product.seller_sku || '-';
   };
 
-  const getPublicationStatus = (status: string): { label: string; color: string } => {
-    switch (status) {
-      case 'active':
-        return { label: 'Activo', color: 'bg-green-100 text-green-800' };
-      case 'paused':
-        return { label: 'Pausado', color: 'bg-gray-100 text-gray-800' };
-      case 'closed':
-        return { label: 'Finalizado', color: 'bg-red-100 text-red-800' };
-      default:
-        return { label: status, color: 'bg-gray-100 text-gray-800' };
+  const getStockStatus = (product: MeliProduct, variation: MeliVariation | null = null): { label: string; color: string } => {
+    return STOCK_LEVELS[getStockLevel(stockRules, product, variation)];
+  };
+
+  const getFulfillmentType = (shipping: MeliProduct['shipping']): string => {
+    return FULFILLMENT_LABELS[getFulfillmentKey(shipping)];
+  };
+
+  const site = getSite(siteId);
+
+  const formatPrice = (price: number, currencyId?: string): string => {
+    return formatSitePrice(price, site, currencyId);
+  };
+
+  const formatDate = (dateString: string): string => {
+    return formatSiteDate(dateString, site);
+  };
+
+  const formatSalesPerDay = (perDay: number): string => {
+    return perDay === 0 ? '-' : perDay.toLocaleString(site.locale, { maximumFractionDigits: perDay < 10 ? 1 : 0 });
+  };
+
+  const formatDaysOfCover = (stock: number, perDay: number): string => {
+    const days = daysOfCover(stock, perDay);
+    return days === null ? '∞' : Math.floor(days).toLocaleString(site.locale);
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      next.has(id) ? next.delete(id) : next.add(id);
+      return next;
+    });
+  };
+
+  const renderProductCell = (product: MeliProduct, column: ColumnId, expanded: boolean) => {
+    switch (column) {
+      case 'title':
+        return (
+          <td key={column} className="px-4 py-4">
+            <div>
+              <a
+                href={product.permalink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`text-blue-600 hover:text-blue-800 font-medium hover:underline ${virtualized ? 'line-clamp-1' : ''}`}
+              >
+                {product.title}
+              </a>
+              <p className="text-xs text-gray-500 mt-1">
+                {product.id} •{' '}
+                <Link href={`/dashboard/history/${product.id}`} className="text-blue-600 hover:underline">
+                  Historial
+                </Link>
+                {product.variations.length > 0 && (
+                  <>
+                    {' '}•{' '}
+                    <button
+                      onClick={() => toggleExpanded(product.id)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {expanded ? '▾' : '▸'} {product.variations.length} variaciones
+                    </button>
+                  </>
+                )}
+              </p>
+            </div>
+          </td>
+        );
+      case 'sku':
+        return <td key={column} className="px-3 py-4 text-sm text-gray-900">{getSellerSKU(product)}</td>;
+      case 'stock':
+        return (
+          <td key={column} className="px-3 py-4 text-sm font-semibold text-gray-900 text-center">
+            {product.available_quantity}
+          </td>
+        );
+      case 'stock_status': {
+        const stockStatus = getStockStatus(product);
+        return (
+          <td key={column} className="px-3 py-4 text-center">
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${stockStatus.color}`}>
+              {stockStatus.label}
+            </span>
+          </td>
+        );
+      }
+      case 'status': {
+        const pubStatus = getPublicationStatus(product.status);
+        return (
+          <td key={column} className="px-3 py-4 text-center">
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${pubStatus.color}`}>
+              {pubStatus.label}
+            </span>
+          </td>
+        );
+      }
+      case 'fulfillment':
+        return (
+          <td key={column} className="px-3 py-4 text-sm text-gray-900 text-center">
+            {getFulfillmentType(product.shipping)}
+          </td>
+        );
+      case 'last_updated':
+        return <td key={column} className="px-3 py-4 text-xs text-gray-900">{formatDate(product.last_updated)}</td>;
+      case 'price':
+        return (
+          <td key={column} className="px-3 py-4 text-sm font-semibold text-green-600 text-right">
+            {formatPrice(product.price, product.currency_id)}
+          </td>
+        );
+      case 'free_shipping':
+        return (
+          <td key={column} className="px-3 py-4 text-sm text-gray-900 text-center">
+            {product.shipping.free_shipping ? 'Sí' : 'No'}
+          </td>
+        );
+      case 'listing_type':
+        return (
+          <td key={column} className="px-3 py-4 text-sm text-gray-900 text-center">
+            {listingTypeLabel(product.listing_type_id)}
+          </td>
+        );
+      case 'stock_value':
+        return (
+          <td key={column} className="px-3 py-4 text-sm text-gray-900 text-right">
+            {formatPrice(stockValue(product), product.currency_id)}
+          </td>
+        );
+      case 'sales_per_day':
+        return (
+          <td key={column} className="px-3 py-4 text-sm text-gray-900 text-right">
+            {formatSalesPerDay(productSalesPerDay(product, sales))}
+          </td>
+        );
+      case 'days_of_cover':
+        return (
+          <td key={column} className="px-3 py-4 text-sm text-gray-900 text-right">
+            {formatDaysOfCover(product.available_quantity, productSalesPerDay(product, sales))}
+          </td>
+        );
+      case 'account':
+        return (
+          <td key={column} className="px-3 py-4 text-sm text-gray-900">
+            {accountLabel(accounts, product.seller_id)}
+          </td>
+        );
     }
   };
 
-  const getFulfillmentType = (shipping: Product['shipping']): string => {
-    if (shipping.logistic_type === 'fulfillment') {
-      return '📦 Full';
-    } else if (shipping.logistic_type === 'xd_drop_off') {
-      return '⚡ Flex';
-    } else if (shipping.mode === 'me2') {
-      return '🚚 Mercado Envíos';
-    } else if (shipping.mode === 'not_specified') {
-      return '📍 Sin envío';
+  // Las variaciones sólo muestran las columnas que cambian por variación
+  const renderVariationCell = (product: MeliProduct, variation: MeliVariation, column: ColumnId) => {
+    switch (column) {
+      case 'title':
+        return (
+          <td key={column} className="pl-10 pr-4 py-2 text-sm text-gray-700">
+            {variationLabel(variation) || `Variación ${variation.id}`}
+            <p className="text-xs text-gray-400">{variation.id}</p>
+          </td>
+        );
+      case 'sku':
+        return <td key={column} className="px-3 py-2 text-sm text-gray-900">{variation.seller_sku || '-'}</td>;
+      case 'stock':
+        return (
+          <td key={column} className="px-3 py-2 text-sm font-semibold text-gray-900 text-center">
+            {variation.available_quantity}
+          </td>
+        );
+      case 'stock_status': {
+        const variationStock = getStockStatus(product, variation);
+        return (
+          <td key={column} className="px-3 py-2 text-center">
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${variationStock.color}`}>
+              {variationStock.label}
+            </span>
+          </td>
+        );
+      }
+      case 'price':
+        return (
+          <td key={column} className="px-3 py-2 text-sm text-green-600 text-right">
+            {formatPrice(variation.price, product.currency_id)}
+          </td>
+        );
+      case 'stock_value':
+        return (
+          <td key={column} className="px-3 py-2 text-sm text-gray-700 text-right">
+            {formatPrice(variation.price * variation.available_quantity, product.currency_id)}
+          </td>
+        );
+      case 'sales_per_day':
+        return (
+          <td key={column} className="px-3 py-2 text-sm text-gray-700 text-right">
+            {formatSalesPerDay(rowSalesPerDay({ product, variation }, sales))}
+          </td>
+        );
+      case 'days_of_cover':
+        return (
+          <td key={column} className="px-3 py-2 text-sm text-gray-700 text-right">
+            {formatDaysOfCover(variation.available_quantity, rowSalesPerDay({ product, variation }, sales))}
+          </td>
+        );
+      default:
+        return <td key={column}></td>;
     }
-    return '📍 Normal';
   };
 
-  const formatPrice = (price: number): string => {
-    return new Intl.NumberFormat('es-AR', {
-      style: 'currency',
-      currency: 'ARS',
-      minimumFractionDigits: 0,
-    }).format(price);
+  // El archivo lo arma el servidor a partir del catálogo guardado y el
+  // navegador lo descarga directamente, sin pasar por la memoria de la página
+  const exportCatalog = () => {
+    const source = savedViews.views.find(view => view.id === exportSource);
+    const link = document.createElement('a');
+    link.href = withScope(`/api/export?${toExportParams(exportFormat, currentView, source?.id)}`);
+    link.click();
   };
 
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleString('es-AR', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
+  const toggleSelected = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (selected ? next.add(id) : next.delete(id)));
+      return next;
     });
   };
 
-  const exportToExcel = () => {
-    const dataToExport = filteredProducts.map(product => ({
-      'ID': product.id,
-      'Producto': product.title,
-      'SKU': getSellerSKU(product),
-      'Stock': product.available_quantity,
-      'Estado Stock': getStockStatus(product.available_quantity).label,
-      'Estado Publicación': getPublicationStatus(product.status).label,
-      'Fulfillment': getFulfillmentType(product.shipping),
-      'Última Actualización': formatDate(product.last_updated),
-      'Precio': product.price,
-      'Link': product.permalink,
-    }));
-
-    const ws = XLSX.utils.json_to_sheet(dataToExport);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Productos');
-
-    const maxWidth = 50;
-    const colWidths = Object.keys(dataToExport[0] || {}).map(key => {
-      const maxLength = Math.max(
-        key.length,
-        ...dataToExport.map(row => String(row[key as keyof typeof row]).length)
-      );
-      return { wch: Math.min(maxLength + 2, maxWidth) };
+  const pageIds = paginatedProducts.map(product => product.id);
+  const allPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.has(id));
+  const selectedProducts = products.filter(product => selectedIds.has(product.id));
+
+  // Variaciones visibles de cada publicación y si se muestran desplegadas
+  const rowLayouts = useMemo(() => paginatedProducts.map((product) => {
+    const visibleVariations = (matchVariations(product, searchTerm) ?? []).filter(variation =>
+      stockFilter === 'todos' || getStockLevel(stockRules, product, variation) === stockFilter
+    );
+    // Si la búsqueda coincide sólo con algunas variaciones, se despliegan solas
+    const expanded = expandedIds.has(product.id) ||
+      visibleVariations.length < product.variations.length;
+
+    return { product, visibleVariations, expanded };
+  }), [paginatedProducts, searchTerm, stockFilter, stockRules, expandedIds]);
+
+  const rowHeights = useMemo(() => rowLayouts.map(({ visibleVariations, expanded }) =>
+    PRODUCT_ROW_HEIGHT + (expanded ? visibleVariations.length * VARIATION_ROW_HEIGHT : 0)
+  ), [rowLayouts]);
+
+  const virtualRows = useVirtualRows(tableContainerRef, tableHeaderRef, rowHeights, virtualized);
+
+  const kpis = useMemo(() => computeInventoryKpis(products, stockRules), [products, stockRules]);
+
+  // Aplica el filtro del indicador; si ya estaba aplicado, lo quita
+  const applyKpi = (kpi: Kpi) => {
+    const { stockFilter: nextStockFilter, filter } = isKpiActive(kpi, currentView)
+      ? { stockFilter: 'todos' as const, filter: EMPTY_FILTER }
+      : kpiFilter(kpi);
+
+    updateFilters(() => {
+      setSearchTerm('');
+      setFulfillmentFilter('todos');
+      setStockFilter(nextStockFilter);
+      setAdvancedFilter(filter);
+      setFilterBuilderOpen(filter.conditions.length > 0);
     });
-    ws['!cols'] = colWidths;
+  };
 
-    // Nombre del archivo más descriptivo
-    let fileName = `productos-mercadolibre`;
-    if (searchTerm) {
-      fileName += `-busqueda`;
+  // Con el foco en la tabla: flechas, Re Pág / Av Pág, Inicio y Fin mueven la
+  // fila activa, espacio la selecciona y Enter despliega sus variaciones
+  const handleTableKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || paginatedProducts.length === 0) return;
+
+    const current = paginatedProducts.findIndex(product => product.id === activeId);
+    const steps: Record<string, number> = { ArrowDown: 1, ArrowUp: -1, PageDown: PAGE_JUMP, PageUp: -PAGE_JUMP };
+    let next: number;
+
+    if (e.key in steps) {
+      next = current === -1 ? 0 : current + steps[e.key];
+    } else if (e.key === 'Home') {
+      next = 0;
+    } else if (e.key === 'End') {
+      next = paginatedProducts.length - 1;
+    } else if (e.key === ' ' && current !== -1) {
+      e.preventDefault();
+      toggleSelected([paginatedProducts[current].id], !selectedIds.has(paginatedProducts[current].id));
+      return;
+    } else if (e.key === 'Enter' && current !== -1) {
+      if (paginatedProducts[current].variations.length > 0) {
+        toggleExpanded(paginatedProducts[current].id);
+      }
+      return;
+    } else {
+      return;
     }
-    if (fulfillmentFilter !== 'todos') {
-      fileName += `-${fulfillmentFilter}`;
+
+    e.preventDefault();
+    next = Math.max(0, Math.min(paginatedProducts.length - 1, next));
+    const id = paginatedProducts[next].id;
+    setActiveId(id);
+
+    if (virtualized) {
+      virtualRows.scrollToIndex(next);
+    } else {
+      tableContainerRef.current?.querySelector(`[data-product-id="${id}"]`)?.scrollIntoView({ block: 'nearest' });
     }
-    fileName += `-${filteredProducts.length}-productos-${new Date().toISOString().split('T')[0]}.xlsx`;
-    
-    XLSX.writeFile(wb, fileName);
   };
 
   const handleLogout = async () => {
@@ -277,11 +856,18 @@ export default function Dashboard() {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600 font-semibold">Cargando todos los productos...</p>
-          <p className="text-gray-500 text-sm mt-2">Esto puede tardar 15-30 segundos</p>
-          {loadingMore && total > 0 && (
+          {firstSync ? (
+            <>
+              <p className="text-gray-600 font-semibold">Sincronizando el catálogo por primera vez...</p>
+              <p className="text-gray-500 text-sm mt-2">Las próximas veces se mostrará al instante</p>
+            </>
+          ) : (
+            <p className="text-gray-600 font-semibold">Cargando el catálogo...</p>
+          )}
+          {firstSync && syncProgress && syncProgress.total > 0 && (
             <p className="text-blue-600 text-sm mt-2">
-              Cargando... ({products.length} de {total})
+              {syncProgress.account && `${syncProgress.account}: `}
+              {SYNC_PHASE_LABELS[syncProgress.phase]}... ({syncProgress.done} de {syncProgress.total})
             </p>
           )}
         </div>
@@ -328,24 +914,136 @@ export default function Dashboard() {
                 <p className="text-sm text-gray-500">Gestión de publicaciones</p>
               </div>
             </div>
-            <button
-              onClick={handleLogout}
-              className="text-gray-600 hover:text-gray-800 font-medium text-sm flex items-center gap-2"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
-              </svg>
-              Cerrar sesión
-            </button>
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2 text-sm">
+                {accounts.length > 1 && (
+                  <select
+                    value={allAccounts ? ALL_ACCOUNTS : String(activeAccountId ?? '')}
+                    onChange={(e) => handleAccountChange(e.target.value)}
+                    aria-label="Cuenta"
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.nickname}</option>
+                    ))}
+                    <option value={ALL_ACCOUNTS}>Todas las cuentas</option>
+                  </select>
+                )}
+                {user?.id === OWNER_USER_ID && (
+                  <a
+                    href={`/api/auth?site=${siteId}`}
+                    title="Para vincular otra cuenta, primero cerrá la sesión de Mercado Libre en este navegador"
+                    className="text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Agregar cuenta
+                  </a>
+                )}
+              </div>
+              <Link href="/dashboard/changes" className="text-gray-600 hover:text-gray-800 font-medium text-sm">
+                Cambios
+              </Link>
+              <Link href="/dashboard/import" className="text-gray-600 hover:text-gray-800 font-medium text-sm">
+                Importar
+              </Link>
+              <Link href="/dashboard/reorder" className="text-gray-600 hover:text-gray-800 font-medium text-sm">
+                Reposición
+              </Link>
+              <Link href="/dashboard/reports" className="text-gray-600 hover:text-gray-800 font-medium text-sm">
+                Reportes
+              </Link>
+              {user && hasRole(user.role, 'admin') && (
+                <>
+                  <Link href="/dashboard/team" className="text-gray-600 hover:text-gray-800 font-medium text-sm">
+                    Equipo
+                  </Link>
+                  <Link href="/dashboard/audit" className="text-gray-600 hover:text-gray-800 font-medium text-sm">
+                    Auditoría
+                  </Link>
+                </>
+              )}
+              <Link href="/dashboard/settings" className="text-gray-600 hover:text-gray-800 font-medium text-sm">
+                Configuración
+              </Link>
+              {user && (
+                <div className="text-right text-xs">
+                  <p className="font-medium text-gray-800">{user.name}</p>
+                  <p className="text-gray-500">{ROLE_LABELS[user.role].label}</p>
+                </div>
+              )}
+              <div
+                className="flex items-center gap-2 text-xs text-gray-500"
+                title="Actualizaciones de stock, precio y estado sin recargar la página"
+              >
+                <span className={`w-2 h-2 rounded-full ${LIVE_STATUS_LABELS[liveStatus].color}`}></span>
+                {LIVE_STATUS_LABELS[liveStatus].label}
+              </div>
+              <div className="text-right text-xs text-gray-500">
+                {syncing ? (
+                  <p className="text-blue-600">
+                    Sincronizando
+                    {syncProgress && syncProgress.total > 0 && (
+                      <>
+                        {' '}• {syncProgress.account && `${syncProgress.account}: `}
+                        {SYNC_PHASE_LABELS[syncProgress.phase]} ({syncProgress.done} de {syncProgress.total})
+                      </>
+                    )}
+                    ...
+                  </p>
+                ) : (
+                  <button
+                    onClick={handleSync}
+                    className="text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Sincronizar ahora
+                  </button>
+                )}
+                {syncedAt && <p>Última sincronización: {formatDate(syncedAt)}</p>}
+                {syncError && <p className="text-red-600">{syncError}</p>}
+              </div>
+              <button
+                onClick={handleLogout}
+                className="text-gray-600 hover:text-gray-800 font-medium text-sm flex items-center gap-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+                </svg>
+                Cerrar sesión
+              </button>
+            </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loadProgress && loadProgress.total > 0 && (
+          <div className="mb-6" role="progressbar" aria-valuemin={0} aria-valuemax={loadProgress.total} aria-valuenow={loadProgress.loaded}>
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>Cargando publicaciones... la búsqueda y los filtros ya funcionan sobre las recibidas</span>
+              <span>{loadProgress.loaded} de {loadProgress.total}</span>
+            </div>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all duration-200"
+                style={{ width: `${(loadProgress.loaded / loadProgress.total) * 100}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+
+        <KpiPanel kpis={kpis} site={site} view={currentView} onSelect={applyKpi} />
+
         {/* Search and Export */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
           <div className="flex flex-col gap-4">
+            <SavedViewsMenu
+              saved={savedViews}
+              activeViewId={activeViewId}
+              currentView={currentView}
+              onChange={setSavedViews}
+              onApply={applyView}
+            />
+
             {/* Primera fila: Búsqueda y Exportar */}
             <div className="flex flex-col md:flex-row gap-4 items-start md:items-center justify-between">
               <div className="flex-1 w-full md:w-auto">
@@ -357,20 +1055,47 @@ export default function Dashboard() {
                   type="text"
                   placeholder="Buscar por nombre, SKU o ID..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => updateFilters(() => setSearchTerm(e.target.value))}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
-              <div className="flex items-end">
+              <div className="flex items-end gap-3">
+                <ColumnChooser
+                  columns={tableLayout.columns}
+                  onChange={(columns) => updateTableLayout({ ...tableLayout, columns })}
+                />
+                {savedViews.views.length > 0 && (
+                  <select
+                    aria-label="Qué exportar"
+                    value={exportSource}
+                    onChange={(e) => setExportSource(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-sm"
+                  >
+                    <option value="actual">Exportar lo que se ve</option>
+                    {savedViews.views.map(view => (
+                      <option key={view.id} value={view.id}>Exportar vista: {view.name}</option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  aria-label="Formato de exportación"
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-sm"
+                >
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                    <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+                  ))}
+                </select>
                 <button
-                  onClick={exportToExcel}
-                  disabled={filteredProducts.length === 0}
+                  onClick={exportCatalog}
+                  disabled={exportSource === 'actual' ? filteredProducts.length === 0 : products.length === 0}
                   className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition duration-200 flex items-center gap-2 whitespace-nowrap"
                 >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
-                  Exportar a Excel ({filteredProducts.length})
+                  Exportar{exportSource === 'actual' && ` (${filteredProducts.length})`}
                 </button>
               </div>
             </div>
@@ -389,10 +1114,10 @@ export default function Dashboard() {
                     onChange={(e) => handleItemsPerPageChange(Number(e.target.value))}
                     className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
                   >
-                    <option value={50}>50</option>
-                    <option value={100}>100</option>
-                    <option value={200}>200</option>
-                    <option value={500}>500</option>
+                    {ITEMS_PER_PAGE_OPTIONS.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                    <option value={ALL_ROWS}>Todos (sin paginar)</option>
                   </select>
                 </div>
                 
@@ -404,7 +1129,7 @@ export default function Dashboard() {
                   <select
                     id="fulfillmentFilter"
                     value={fulfillmentFilter}
-                    onChange={(e) => setFulfillmentFilter(e.target.value)}
+                    onChange={(e) => updateFilters(() => setFulfillmentFilter(e.target.value))}
                     className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[160px]"
                   >
                     <option value="todos">Todos</option>
@@ -414,57 +1139,142 @@ export default function Dashboard() {
                     <option value="normal">📍 Normal/Sin envío</option>
                   </select>
                 </div>
+
+                {/* Filtro de estado de stock */}
+                <div className="flex items-center gap-3">
+                  <label htmlFor="stockFilter" className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                    Estado de stock:
+                  </label>
+                  <select
+                    id="stockFilter"
+                    value={stockFilter}
+                    onChange={(e) => updateFilters(() => setStockFilter(e.target.value as StockLevel | 'todos'))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[140px]"
+                  >
+                    <option value="todos">Todos</option>
+                    <option value="sin_stock">Sin stock</option>
+                    <option value="bajo">Stock bajo</option>
+                    <option value="normal">Stock normal</option>
+                  </select>
+                </div>
+
+                <button
+                  onClick={() => setFilterBuilderOpen(!filterBuilderOpen)}
+                  className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Filtros avanzados{activeConditions > 0 && ` (${activeConditions})`} {filterBuilderOpen ? '▾' : '▸'}
+                </button>
               </div>
               
               <div className="text-sm text-gray-600">
                 <span className="font-semibold">Total: {products.length.toLocaleString()}</span> productos cargados
-                {(searchTerm || fulfillmentFilter !== 'todos') && (
+                {hasFilters && (
                   <span> • Mostrando <span className="font-semibold">{filteredProducts.length}</span> resultados • Página {currentPage} de {totalPages}</span>
                 )}
-                {!searchTerm && fulfillmentFilter === 'todos' && (
+                {!hasFilters && (
                   <span> • Viendo del <span className="font-semibold">{startItem}</span> al <span className="font-semibold">{endItem}</span></span>
                 )}
               </div>
             </div>
+
+            {/* Tercera fila: filtros avanzados */}
+            {filterBuilderOpen && (
+              <FilterBuilder
+                value={advancedFilter}
+                onChange={(filter) => updateFilters(() => setAdvancedFilter(filter))}
+              />
+            )}
           </div>
         </div>
 
+        {/* Selección y edición masiva */}
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-600">
+          <span>
+            <span className="font-semibold">{selectedIds.size}</span> seleccionados
+          </span>
+          <button
+            onClick={() => toggleSelected(filteredProducts.map(product => product.id), true)}
+            disabled={filteredProducts.length === 0}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Seleccionar los {filteredProducts.length} filtrados
+          </button>
+          {selectedIds.size > 0 && (
+            <>
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Limpiar selección
+              </button>
+              {canEdit && (
+                <button
+                  onClick={() => setBulkEditOpen(true)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-1.5 px-3 rounded-lg transition duration-200"
+                >
+                  Editar precio / stock
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        {canEdit && bulkEditOpen && selectedProducts.length > 0 && (
+          <BulkEditPanel
+            products={selectedProducts}
+            site={site}
+            onClose={() => setBulkEditOpen(false)}
+            onApplied={() => fetchProducts().catch(() => undefined)}
+          />
+        )}
+
         {/* Products Table */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-          <div className="overflow-x-auto">
+          <div
+            ref={tableContainerRef}
+            tabIndex={0}
+            onKeyDown={handleTableKeyDown}
+            aria-label="Publicaciones. Flechas para moverse, espacio para seleccionar, Enter para ver las variaciones"
+            className={`overflow-x-auto focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${virtualized ? 'overflow-y-auto max-h-[75vh]' : ''}`}
+          >
             <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
+              <thead ref={tableHeaderRef} className="bg-gray-50 sticky top-0 z-10 shadow-sm">
                 <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-[450px] min-w-[450px]">
-                    Producto
-                  </th>
-                  <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-24">
-                    SKU
-                  </th>
-                  <th className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider w-16">
-                    Stock
-                  </th>
-                  <th className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider w-32">
-                    Estado Stock
-                  </th>
-                  <th className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider w-36">
-                    Estado Publicación
-                  </th>
-                  <th className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider w-32">
-                    Fulfillment
-                  </th>
-                  <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-40">
-                    Última actualización
-                  </th>
-                  <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider w-28">
-                    Precio
+                  <th className="pl-4 py-3 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label={virtualized ? 'Seleccionar todos' : 'Seleccionar página'}
+                      checked={allPageSelected}
+                      onChange={(e) => toggleSelected(pageIds, e.target.checked)}
+                    />
                   </th>
+                  {tableColumns.map((column) => {
+                    const sortIndex = tableLayout.sort.findIndex(key => key.column === column);
+                    const sortKey = tableLayout.sort[sortIndex];
+
+                    return (
+                      <th
+                        key={column}
+                        onClick={(e) => handleSort(column, e.shiftKey)}
+                        title="Clic para ordenar, shift + clic para agregar un criterio"
+                        className={`${column === 'title' ? 'px-4' : 'px-3'} py-3 ${ALIGN_CLASSES[COLUMNS[column].align]} text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none hover:text-gray-800 ${COLUMNS[column].width}`}
+                      >
+                        {COLUMNS[column].label}
+                        {sortKey && (
+                          <span className="ml-1 text-blue-600">
+                            {sortKey.direction === 'asc' ? '▲' : '▼'}
+                            {tableLayout.sort.length > 1 && <sup>{sortIndex + 1}</sup>}
+                          </span>
+                        )}
+                      </th>
+                    );
+                  })}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {paginatedProducts.length === 0 ? (
                   <tr>
-                    <td colSpan={8} className="px-6 py-12 text-center">
+                    <td colSpan={tableColumns.length + 1} className="px-6 py-12 text-center">
                       <div className="text-gray-400">
                         <svg className="w-12 h-12 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
@@ -474,53 +1284,52 @@ export default function Dashboard() {
                     </td>
                   </tr>
                 ) : (
-                  paginatedProducts.map((product) => {
-                    const stockStatus = getStockStatus(product.available_quantity);
-                    const pubStatus = getPublicationStatus(product.status);
-
-                    return (
-                      <tr key={product.id} className="hover:bg-gray-50">
-                        <td className="px-4 py-4">
-                          <div>
-                            <a
-                              href={product.permalink}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 hover:text-blue-800 font-medium hover:underline"
-                            >
-                              {product.title}
-                            </a>
-                            <p className="text-xs text-gray-500 mt-1">{product.id}</p>
-                          </div>
-                        </td>
-                        <td className="px-3 py-4 text-sm text-gray-900">
-                          {getSellerSKU(product)}
-                        </td>
-                        <td className="px-3 py-4 text-sm font-semibold text-gray-900 text-center">
-                          {product.available_quantity}
-                        </td>
-                        <td className="px-3 py-4 text-center">
-                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${stockStatus.color}`}>
-                            {stockStatus.label}
-                          </span>
-                        </td>
-                        <td className="px-3 py-4 text-center">
-                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${pubStatus.color}`}>
-                            {pubStatus.label}
-                          </span>
-                        </td>
-                        <td className="px-3 py-4 text-sm text-gray-900 text-center">
-                          {getFulfillmentType(product.shipping)}
-                        </td>
-                        <td className="px-3 py-4 text-xs text-gray-900">
-                          {formatDate(product.last_updated)}
-                        </td>
-                        <td className="px-3 py-4 text-sm font-semibold text-green-600 text-right">
-                          {formatPrice(product.price)}
-                        </td>
+                  <>
+                    {virtualRows.paddingTop > 0 && (
+                      <tr aria-hidden="true" style={{ height: virtualRows.paddingTop }}>
+                        <td colSpan={tableColumns.length + 1}></td>
                       </tr>
-                    );
-                  })
+                    )}
+                    {rowLayouts.slice(virtualRows.start, virtualRows.end).map(({ product, visibleVariations, expanded }) => (
+                      <Fragment key={product.id}>
+                        <tr
+                          data-product-id={product.id}
+                          onClick={() => setActiveId(product.id)}
+                          style={virtualized ? { height: PRODUCT_ROW_HEIGHT } : undefined}
+                          className={`transition-colors duration-1000 ${
+                            highlightedIds.has(product.id)
+                              ? 'bg-yellow-100'
+                              : selectedIds.has(product.id) ? 'bg-blue-50' : 'hover:bg-gray-50'
+                          } ${activeId === product.id ? 'outline outline-2 -outline-offset-2 outline-blue-400' : ''}`}
+                        >
+                          <td className="pl-4 py-4">
+                            <input
+                              type="checkbox"
+                              aria-label={`Seleccionar ${product.id}`}
+                              checked={selectedIds.has(product.id)}
+                              onChange={(e) => toggleSelected([product.id], e.target.checked)}
+                            />
+                          </td>
+                          {tableColumns.map((column) => renderProductCell(product, column, expanded))}
+                        </tr>
+                        {expanded && visibleVariations.map((variation) => (
+                          <tr
+                            key={variation.id}
+                            style={virtualized ? { height: VARIATION_ROW_HEIGHT } : undefined}
+                            className="bg-gray-50/60"
+                          >
+                            <td></td>
+                            {tableColumns.map((column) => renderVariationCell(product, variation, column))}
+                          </tr>
+                        ))}
+                      </Fragment>
+                    ))}
+                    {virtualRows.paddingBottom > 0 && (
+                      <tr aria-hidden="true" style={{ height: virtualRows.paddingBottom }}>
+                        <td colSpan={tableColumns.length + 1}></td>
+                      </tr>
+                    )}
+                  </>
                 )}
               </tbody>
             </table>
@@ -0,0 +1,231 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDate } from '@/lib/format';
+import { DEFAULT_SITE_ID, getSite } from '@/lib/meli/sites';
+import { DEFAULT_REORDER_OPTIONS, ReorderOptions, SALES_WINDOWS, SalesWindow } from '@/lib/sales';
+
+interface ReorderItem {
+  id: string;
+  variationId: number | null;
+  title: string;
+  variation: string | null;
+  sku: string | null;
+  permalink: string;
+  stock: number;
+  unitsSold: number;
+  perDay: number;
+  daysOfCover: number;
+  quantity: number;
+}
+
+const INPUT_CLASS = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white';
+
+function reorderParams(options: ReorderOptions): URLSearchParams {
+  return new URLSearchParams({
+    window: String(options.window),
+    leadTime: String(options.leadTimeDays),
+    cover: String(options.coverDays),
+  });
+}
+
+export default function ReorderPage() {
+  const router = useRouter();
+  const [options, setOptions] = useState<ReorderOptions>(DEFAULT_REORDER_OPTIONS);
+  const [suggestions, setSuggestions] = useState<ReorderItem[]>([]);
+  const [salesComputedAt, setSalesComputedAt] = useState<string | null>(null);
+  const [siteId, setSiteId] = useState<string>(DEFAULT_SITE_ID);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [options]);
+
+  const fetchSuggestions = async () => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sales/reorder?${reorderParams(options)}`);
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error cargando sugerencias de reposición');
+      }
+
+      setSuggestions(data.suggestions);
+      setSalesComputedAt(data.salesComputedAt);
+      setSiteId(data.siteId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshSales = async () => {
+    setRefreshing(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/sales?force=1', { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Error actualizando ventas');
+      }
+      await fetchSuggestions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const updateOption = (changes: Partial<ReorderOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const site = getSite(siteId);
+  const totalUnits = suggestions.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Volver al dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-800 mb-2">Sugerencias de reposición</h1>
+          <p className="text-sm text-gray-600 mb-4">
+            Para cada publicación o variación con ventas se calcula el ritmo diario en la ventana elegida y
+            cuánto reponer para cubrir el tiempo de reposición más los días objetivo. Las que se quedan sin
+            stock antes aparecen primero.
+          </p>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="salesWindow" className="block text-sm font-medium text-gray-700 mb-2">Ventas de los últimos</label>
+              <select
+                id="salesWindow"
+                value={options.window}
+                onChange={(e) => updateOption({ window: Number(e.target.value) as SalesWindow })}
+                className={INPUT_CLASS}
+              >
+                {SALES_WINDOWS.map(window => (
+                  <option key={window} value={window}>{window} días</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="leadTime" className="block text-sm font-medium text-gray-700 mb-2">Tiempo de reposición (días)</label>
+              <input
+                id="leadTime"
+                type="number"
+                min="0"
+                value={options.leadTimeDays}
+                onChange={(e) => updateOption({ leadTimeDays: Math.max(0, Math.floor(Number(e.target.value))) })}
+                className={`w-28 ${INPUT_CLASS}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="coverDays" className="block text-sm font-medium text-gray-700 mb-2">Días a cubrir</label>
+              <input
+                id="coverDays"
+                type="number"
+                min="1"
+                value={options.coverDays}
+                onChange={(e) => updateOption({ coverDays: Math.max(1, Math.floor(Number(e.target.value))) })}
+                className={`w-28 ${INPUT_CLASS}`}
+              />
+            </div>
+            <button
+              onClick={refreshSales}
+              disabled={refreshing}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:text-gray-400 transition"
+            >
+              {refreshing ? 'Actualizando ventas...' : 'Actualizar ventas'}
+            </button>
+            <a
+              href={`/api/sales/reorder?${reorderParams(options)}&format=csv`}
+              className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+            >
+              Descargar CSV
+            </a>
+          </div>
+
+          <p className="text-xs text-gray-500 mt-4">
+            {salesComputedAt
+              ? `Ventas calculadas el ${formatDate(salesComputedAt, site)}`
+              : 'Las ventas todavía no se calcularon: usá "Actualizar ventas"'}
+          </p>
+          {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 text-sm text-gray-600">
+            {suggestions.length} para reponer • {totalUnits.toLocaleString(site.locale)} unidades sugeridas
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Producto</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Vendidas</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ventas/día</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Días de cobertura</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Reponer</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {suggestions.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-400">
+                    {loading ? 'Cargando...' : 'No hay nada para reponer con estos parámetros'}
+                  </td>
+                </tr>
+              ) : (
+                suggestions.map(item => (
+                  <tr key={`${item.id}-${item.variationId ?? ''}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <a
+                        href={item.permalink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 font-medium hover:underline"
+                      >
+                        {item.title}
+                      </a>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {item.id}{item.variation && ` • ${item.variation}`}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{item.sku || '-'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{item.stock}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{item.unitsSold}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                      {item.perDay.toLocaleString(site.locale, { maximumFractionDigits: 1 })}
+                    </td>
+                    <td className={`px-4 py-3 text-sm text-right font-semibold ${item.daysOfCover < options.leadTimeDays ? 'text-red-600' : 'text-gray-900'}`}>
+                      {Math.floor(item.daysOfCover)}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{item.quantity}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDate } from '@/lib/format';
+import { DEFAULT_SITE_ID, getSite } from '@/lib/meli/sites';
+import { ReportRun, RUN_STATUS_LABELS } from '@/lib/reports';
+
+const TRIGGER_LABELS: Record<ReportRun['trigger'], string> = {
+  schedule: 'Programada',
+  manual: 'Manual',
+};
+
+export default function ReportHistoryPage() {
+  const router = useRouter();
+  const [runs, setRuns] = useState<ReportRun[]>([]);
+  const [siteId, setSiteId] = useState<string>(DEFAULT_SITE_ID);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRuns();
+  }, []);
+
+  const fetchRuns = async () => {
+    try {
+      const response = await fetch('/api/reports/runs');
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Error cargando historial de reportes');
+      }
+
+      const data = await response.json();
+      setRuns(data.runs);
+      setSiteId(data.siteId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const site = getSite(siteId);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard/reports" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Volver a reportes
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-800">Historial de reportes</h1>
+          <p className="text-sm text-gray-600 mt-2">
+            Últimas ejecuciones, programadas y manuales. Cada una guarda una copia del archivo generado.
+          </p>
+          {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fecha</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reporte</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Filas</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Archivo</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {runs.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-sm text-gray-400">
+                    {loading ? 'Cargando...' : 'Todavía no se ejecutó ningún reporte'}
+                  </td>
+                </tr>
+              ) : (
+                runs.map(run => (
+                  <tr key={run.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                      {formatDate(run.startedAt, site)}
+                      <p className="text-xs text-gray-500 mt-1">{TRIGGER_LABELS[run.trigger]}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{run.reportName}</td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${RUN_STATUS_LABELS[run.status].color}`}>
+                        {RUN_STATUS_LABELS[run.status].label}
+                      </span>
+                      {run.error && <p className="text-xs text-red-600 mt-1">{run.error}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{run.rowCount.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {run.fileName ? (
+                        <a
+                          href={`/api/reports/runs/${run.id}/file`}
+                          className="text-blue-600 hover:text-blue-800 hover:underline break-all"
+                        >
+                          {run.fileName}
+                        </a>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,468 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { WEEKDAY_LABELS, dailyCron, describeCron, weeklyCron } from '@/lib/cron';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export';
+import { formatDate } from '@/lib/format';
+import { DEFAULT_SITE_ID, getSite } from '@/lib/meli/sites';
+import { DESTINATION_LABELS, ReportDestination, RUN_STATUS_LABELS, ScheduledReport } from '@/lib/reports';
+import type { SavedView } from '@/lib/store/views';
+
+type Frequency = 'daily' | 'weekly' | 'custom';
+
+interface ReportForm {
+  name: string;
+  viewId: string;
+  format: ExportFormat;
+  frequency: Frequency;
+  time: string;
+  weekday: number;
+  cron: string;
+  destinationType: ReportDestination['type'];
+  url: string;
+  to: string;
+}
+
+const EMPTY_FORM: ReportForm = {
+  name: '',
+  viewId: '',
+  format: 'xlsx',
+  frequency: 'daily',
+  time: '08:00',
+  weekday: 1,
+  cron: '0 8 * * *',
+  destinationType: 'directory',
+  url: '',
+  to: '',
+};
+
+const INPUT_CLASS = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white';
+
+function formCron(form: ReportForm): string {
+  const [hour, minute] = form.time.split(':').map(Number);
+  switch (form.frequency) {
+    case 'daily':
+      return dailyCron(hour, minute);
+    case 'weekly':
+      return weeklyCron(form.weekday, hour, minute);
+    default:
+      return form.cron;
+  }
+}
+
+function formDestination(form: ReportForm): ReportDestination {
+  switch (form.destinationType) {
+    case 'webhook':
+      return { type: 'webhook', url: form.url };
+    case 'email':
+      return { type: 'email', to: form.to };
+    default:
+      return { type: 'directory' };
+  }
+}
+
+function destinationDetail(destination: ReportDestination): string {
+  switch (destination.type) {
+    case 'webhook':
+      return destination.url;
+    case 'email':
+      return destination.to;
+    default:
+      return '';
+  }
+}
+
+export default function ReportsPage() {
+  const router = useRouter();
+  const [reports, setReports] = useState<ScheduledReport[]>([]);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [smtpEnabled, setSmtpEnabled] = useState(false);
+  const [siteId, setSiteId] = useState<string>(DEFAULT_SITE_ID);
+  const [form, setForm] = useState<ReportForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchReports();
+  }, []);
+
+  const fetchReports = async () => {
+    try {
+      const [reportsResponse, viewsResponse] = await Promise.all([
+        fetch('/api/reports'),
+        fetch('/api/views'),
+      ]);
+
+      if (reportsResponse.status === 401 || viewsResponse.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      if (!reportsResponse.ok || !viewsResponse.ok) {
+        throw new Error('Error cargando reportes');
+      }
+
+      const data = await reportsResponse.json();
+      const saved = await viewsResponse.json();
+      setReports(data.reports);
+      setSmtpEnabled(data.smtpEnabled);
+      setSiteId(data.siteId);
+      setViews(saved.views);
+      setForm(prev => ({ ...prev, viewId: prev.viewId || saved.defaultViewId || saved.views[0]?.id || '' }));
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateForm = (changes: Partial<ReportForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const createReport = async () => {
+    setSaving(true);
+    setMessage(null);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          viewId: form.viewId,
+          format: form.format,
+          cron: formCron(form),
+          destination: formDestination(form),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors(data.errors ?? [data.error || 'Error guardando reporte']);
+        return;
+      }
+
+      setReports(prev => [...prev, data.report]);
+      setForm(prev => ({ ...EMPTY_FORM, viewId: prev.viewId }));
+      setMessage(`Reporte "${data.report.name}" programado`);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const replaceReport = (report: ScheduledReport) => {
+    setReports(prev => prev.map(current => (current.id === report.id ? report : current)));
+  };
+
+  const toggleReport = async (report: ScheduledReport) => {
+    setErrors([]);
+    const response = await fetch(`/api/reports/${report.id}`, {
+      method: 'PATCH',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ enabled: !report.enabled }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setErrors([data.error || 'Error actualizando reporte']);
+      return;
+    }
+    replaceReport(data.report);
+  };
+
+  const runNow = async (report: ScheduledReport) => {
+    setRunningId(report.id);
+    setMessage(null);
+    setErrors([]);
+
+    try {
+      const response = await fetch(`/api/reports/${report.id}/run`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors([data.error || 'Error ejecutando reporte']);
+        return;
+      }
+
+      replaceReport({ ...report, lastRunAt: data.run.startedAt });
+      if (data.run.status === 'error') {
+        setErrors([`"${report.name}": ${data.run.error}`]);
+      } else {
+        setMessage(`"${report.name}" generado: ${data.run.fileName} (${data.run.rowCount} filas)`);
+      }
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const deleteReport = async (report: ScheduledReport) => {
+    if (!confirm(`¿Eliminar el reporte "${report.name}"? El historial de ejecuciones se conserva.`)) {
+      return;
+    }
+
+    setErrors([]);
+    const response = await fetch(`/api/reports/${report.id}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setErrors([data.error || 'Error eliminando reporte']);
+      return;
+    }
+    setReports(prev => prev.filter(current => current.id !== report.id));
+  };
+
+  const site = getSite(siteId);
+  const viewName = (viewId: string) => views.find(view => view.id === viewId)?.name ?? 'Vista eliminada';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Volver al dashboard
+          </Link>
+          <Link href="/dashboard/reports/history" className="text-sm text-blue-600 hover:text-blue-800">
+            Historial de ejecuciones →
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-800 mb-2">Reportes programados</h1>
+          <p className="text-sm text-gray-600 mb-4">
+            Cada reporte exporta una vista guardada (búsqueda, filtros, orden y columnas) con el catálogo
+            sincronizado y la entrega en el horario indicado. Los horarios usan la hora del servidor.
+          </p>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Cargando reportes...</p>
+          ) : views.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Primero guardá una vista desde el dashboard: el reporte exporta esa vista.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="reportName" className="block text-sm font-medium text-gray-700 mb-2">Nombre</label>
+                <input
+                  id="reportName"
+                  type="text"
+                  value={form.name}
+                  placeholder="Ej: Stock semanal Full"
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  className={`w-full ${INPUT_CLASS}`}
+                />
+              </div>
+
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label htmlFor="reportView" className="block text-sm font-medium text-gray-700 mb-2">Vista</label>
+                  <select
+                    id="reportView"
+                    value={form.viewId}
+                    onChange={(e) => updateForm({ viewId: e.target.value })}
+                    className={`w-full ${INPUT_CLASS}`}
+                  >
+                    {views.map(view => (
+                      <option key={view.id} value={view.id}>{view.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="reportFormat" className="block text-sm font-medium text-gray-700 mb-2">Formato</label>
+                  <select
+                    id="reportFormat"
+                    value={form.format}
+                    onChange={(e) => updateForm({ format: e.target.value as ExportFormat })}
+                    className={INPUT_CLASS}
+                  >
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                      <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="reportFrequency" className="block text-sm font-medium text-gray-700 mb-2">Frecuencia</label>
+                <div className="flex gap-3">
+                  <select
+                    id="reportFrequency"
+                    value={form.frequency}
+                    onChange={(e) => updateForm({ frequency: e.target.value as Frequency })}
+                    className={INPUT_CLASS}
+                  >
+                    <option value="daily">Todos los días</option>
+                    <option value="weekly">Una vez por semana</option>
+                    <option value="custom">Expresión cron</option>
+                  </select>
+                  {form.frequency === 'weekly' && (
+                    <select
+                      aria-label="Día de la semana"
+                      value={form.weekday}
+                      onChange={(e) => updateForm({ weekday: Number(e.target.value) })}
+                      className={INPUT_CLASS}
+                    >
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <option key={day} value={day}>{label}</option>
+                      ))}
+                    </select>
+                  )}
+                  {form.frequency === 'custom' ? (
+                    <input
+                      aria-label="Expresión cron"
+                      type="text"
+                      value={form.cron}
+                      placeholder="0 8 * * 1-5"
+                      onChange={(e) => updateForm({ cron: e.target.value })}
+                      className={`w-40 font-mono ${INPUT_CLASS}`}
+                    />
+                  ) : (
+                    <input
+                      aria-label="Hora"
+                      type="time"
+                      value={form.time}
+                      onChange={(e) => updateForm({ time: e.target.value || '08:00' })}
+                      className={INPUT_CLASS}
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="reportDestination" className="block text-sm font-medium text-gray-700 mb-2">Destino</label>
+                <div className="flex gap-3">
+                  <select
+                    id="reportDestination"
+                    value={form.destinationType}
+                    onChange={(e) => updateForm({ destinationType: e.target.value as ReportDestination['type'] })}
+                    className={INPUT_CLASS}
+                  >
+                    {(Object.keys(DESTINATION_LABELS) as ReportDestination['type'][]).map(type => (
+                      <option key={type} value={type} disabled={type === 'email' && !smtpEnabled}>
+                        {DESTINATION_LABELS[type]}{type === 'email' && !smtpEnabled ? ' (sin configurar)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {form.destinationType === 'webhook' && (
+                    <input
+                      aria-label="URL del webhook"
+                      type="url"
+                      value={form.url}
+                      placeholder="https://..."
+                      onChange={(e) => updateForm({ url: e.target.value })}
+                      className={`flex-1 ${INPUT_CLASS}`}
+                    />
+                  )}
+                  {form.destinationType === 'email' && (
+                    <input
+                      aria-label="Destinatarios"
+                      type="text"
+                      value={form.to}
+                      placeholder="ana@ejemplo.com, juan@ejemplo.com"
+                      onChange={(e) => updateForm({ to: e.target.value })}
+                      className={`flex-1 ${INPUT_CLASS}`}
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div className="md:col-span-2 flex items-center gap-3">
+                <button
+                  onClick={createReport}
+                  disabled={saving || !form.viewId}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+                >
+                  {saving ? 'Guardando...' : 'Programar reporte'}
+                </button>
+                <span className="text-sm text-gray-500">{describeCron(formCron(form))}</span>
+              </div>
+            </div>
+          )}
+
+          {message && <p className="text-sm text-green-700 mt-4">{message}</p>}
+          {errors.length > 0 && (
+            <ul className="text-red-600 text-sm mt-4 list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reporte</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Programación</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Destino</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Última ejecución</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reports.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-400">
+                    {loading ? 'Cargando...' : 'Todavía no hay reportes programados'}
+                  </td>
+                </tr>
+              ) : (
+                reports.map(report => (
+                  <tr key={report.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900">{report.name}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {viewName(report.viewId)} • {EXPORT_FORMATS[report.format].label}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{describeCron(report.cron)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {DESTINATION_LABELS[report.destination.type]}
+                      {destinationDetail(report.destination) && (
+                        <p className="text-xs text-gray-500 mt-1 break-all">{destinationDetail(report.destination)}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {report.lastRunAt ? formatDate(report.lastRunAt, site) : 'Nunca'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${report.enabled ? RUN_STATUS_LABELS.success.color : 'bg-gray-100 text-gray-800'}`}>
+                        {report.enabled ? 'Activo' : 'Pausado'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap space-x-3">
+                      <button
+                        onClick={() => runNow(report)}
+                        disabled={runningId !== null}
+                        className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        {runningId === report.id ? 'Ejecutando...' : 'Ejecutar ahora'}
+                      </button>
+                      <button onClick={() => toggleReport(report)} className="text-sm text-gray-600 hover:text-gray-800">
+                        {report.enabled ? 'Pausar' : 'Activar'}
+                      </button>
+                      <button onClick={() => deleteReport(report)} className="text-sm text-red-600 hover:text-red-800">
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
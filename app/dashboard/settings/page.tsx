@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FULFILLMENT_LABELS } from '@/lib/products';
+import {
+  DEFAULT_STOCK_RULES,
+  SCOPE_LABELS,
+  StockRule,
+  StockRuleScope,
+  StockRules,
+} from '@/lib/stock-rules';
+
+const MATCH_PLACEHOLDERS: Record<StockRuleScope, string> = {
+  listing: 'Ej: MLA123456789',
+  sku_prefix: 'Ej: REM-',
+  fulfillment: '',
+};
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const [stockRules, setStockRules] = useState<StockRules>(DEFAULT_STOCK_RULES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loggingOut, setLoggingOut] = useState(false);
+
+  useEffect(() => {
+    fetchStockRules();
+  }, []);
+
+  const fetchStockRules = async () => {
+    try {
+      const response = await fetch('/api/settings/stock-rules');
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Error cargando reglas de stock');
+      }
+
+      const data = await response.json();
+      setStockRules(data.stockRules);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveStockRules = async () => {
+    setSaving(true);
+    setSaved(false);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/settings/stock-rules', {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(stockRules),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors(data.errors ?? [data.error || 'Error guardando reglas de stock']);
+        return;
+      }
+
+      setStockRules(data.stockRules);
+      setSaved(true);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRules = (rules: StockRule[]) => {
+    setStockRules(prev => ({ ...prev, rules }));
+    setSaved(false);
+  };
+
+  const updateRule = (index: number, changes: Partial<StockRule>) => {
+    updateRules(stockRules.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    updateRules([
+      ...stockRules.rules,
+      { id: '', scope: 'sku_prefix', match: '', threshold: stockRules.defaultThreshold },
+    ]);
+  };
+
+  const removeRule = (index: number) => {
+    updateRules(stockRules.rules.filter((_, i) => i !== index));
+  };
+
+  // Cierra las sesiones del usuario en todos los navegadores, incluida esta
+  const logoutEverywhere = async () => {
+    if (!window.confirm('¿Cerrar la sesión en todos los dispositivos?')) return;
+
+    setLoggingOut(true);
+    try {
+      await fetch('/api/logout?everywhere=1', { method: 'POST' });
+    } finally {
+      router.push('/');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1000px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Volver al dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-800 mb-2">Alertas de stock</h1>
+          <p className="text-sm text-gray-600 mb-4">
+            Una publicación o variación queda en &quot;Stock bajo&quot; cuando su stock es menor o igual al
+            umbral, y en &quot;Sin stock&quot; cuando llega a 0. Si varias reglas aplican, gana la más
+            específica: publicación, prefijo de SKU (el más largo), fulfillment y por último el umbral
+            por defecto.
+          </p>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Cargando reglas...</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-3 mb-6">
+                <label htmlFor="defaultThreshold" className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                  Umbral por defecto:
+                </label>
+                <input
+                  id="defaultThreshold"
+                  type="number"
+                  min="0"
+                  value={stockRules.defaultThreshold}
+                  onChange={(e) => {
+                    setStockRules(prev => ({ ...prev, defaultThreshold: Number(e.target.value) }));
+                    setSaved(false);
+                  }}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <table className="min-w-full divide-y divide-gray-200 mb-4">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Aplica a</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valor</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Umbral</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {stockRules.rules.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-4 text-sm text-gray-500 text-center">
+                        No hay reglas: se usa el umbral por defecto para todo el catálogo
+                      </td>
+                    </tr>
+                  )}
+                  {stockRules.rules.map((rule, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-2">
+                        <select
+                          aria-label="Alcance"
+                          value={rule.scope}
+                          onChange={(e) => {
+                            const scope = e.target.value as StockRuleScope;
+                            updateRule(index, { scope, match: scope === 'fulfillment' ? 'full' : '' });
+                          }}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+                        >
+                          {(Object.keys(SCOPE_LABELS) as StockRuleScope[]).map(scope => (
+                            <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        {rule.scope === 'fulfillment' ? (
+                          <select
+                            aria-label="Fulfillment"
+                            value={rule.match}
+                            onChange={(e) => updateRule(index, { match: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[160px]"
+                          >
+                            {Object.entries(FULFILLMENT_LABELS).map(([key, label]) => (
+                              <option key={key} value={key}>{label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            aria-label="Valor"
+                            type="text"
+                            value={rule.match}
+                            placeholder={MATCH_PLACEHOLDERS[rule.scope]}
+                            onChange={(e) => updateRule(index, { match: e.target.value })}
+                            className="w-56 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          aria-label="Umbral"
+                          type="number"
+                          min="0"
+                          value={rule.threshold}
+                          onChange={(e) => updateRule(index, { threshold: Number(e.target.value) })}
+                          className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => removeRule(index)}
+                          className="text-sm text-red-600 hover:text-red-800"
+                        >
+                          Eliminar
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={addRule}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition"
+                >
+                  Agregar regla
+                </button>
+                <button
+                  onClick={saveStockRules}
+                  disabled={saving}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+                >
+                  {saving ? 'Guardando...' : 'Guardar'}
+                </button>
+                {saved && <span className="text-sm text-green-700">Reglas guardadas</span>}
+              </div>
+            </>
+          )}
+
+          {errors.length > 0 && (
+            <ul className="text-red-600 text-sm mt-4 list-disc pl-5">
+              {errors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h2 className="text-lg font-bold text-gray-800 mb-2">Sesiones</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Si usaste el dashboard en una computadora compartida o perdiste un dispositivo, cerrá la sesión
+            en todos lados y volvé a iniciarla. Si sos el dueño de la cuenta se cierran también las sesiones
+            de tu equipo.
+          </p>
+          <button
+            onClick={logoutEverywhere}
+            disabled={loggingOut}
+            className="px-4 py-2 border border-red-300 rounded-lg text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50 transition"
+          >
+            {loggingOut ? 'Cerrando sesiones...' : 'Cerrar sesión en todos los dispositivos'}
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ROLES, ROLE_LABELS, Role, TeamMember } from '@/lib/team';
+
+export default function TeamPage() {
+  const router = useRouter();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('viewer');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  // Último enlace de invitación generado: sólo se puede ver en ese momento
+  const [invite, setInvite] = useState<{ name: string; url: string } | null>(null);
+
+  useEffect(() => {
+    fetchMembers();
+  }, []);
+
+  const fetchMembers = async () => {
+    try {
+      const response = await fetch('/api/team');
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      if (response.status === 403) {
+        throw new Error('Sólo los administradores gestionan el equipo');
+      }
+
+      if (!response.ok) {
+        throw new Error('Error cargando equipo');
+      }
+
+      const data = await response.json();
+      setMembers(data.members);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/team', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name, email, role }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors(data.errors ?? [data.error || 'Error invitando miembro']);
+        return;
+      }
+
+      setMembers((current) => [...current, data.member]);
+      setInvite({ name: data.member.name, url: data.inviteUrl });
+      setName('');
+      setEmail('');
+      setRole('viewer');
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeRole = async (member: TeamMember, nextRole: Role) => {
+    setErrors([]);
+
+    try {
+      const response = await fetch(`/api/team/${member.id}`, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ role: nextRole }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors(data.errors ?? [data.error || 'Error cambiando rol']);
+        return;
+      }
+
+      setMembers((current) => current.map((m) => (m.id === member.id ? data.member : m)));
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    }
+  };
+
+  const removeMember = async (member: TeamMember) => {
+    if (!confirm(`¿Quitar a ${member.name} del equipo? Se cierran sus sesiones abiertas.`)) return;
+    setErrors([]);
+
+    try {
+      const response = await fetch(`/api/team/${member.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setErrors([data.error || 'Error quitando miembro']);
+        return;
+      }
+
+      setMembers((current) => current.filter((m) => m.id !== member.id));
+      if (invite?.name === member.name) setInvite(null);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    }
+  };
+
+  const regenerateInvite = async (member: TeamMember) => {
+    setErrors([]);
+
+    try {
+      const response = await fetch(`/api/team/${member.id}/invite`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors([data.error || 'Error generando invitación']);
+        return;
+      }
+
+      setInvite({ name: member.name, url: data.inviteUrl });
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Error desconocido']);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-[1000px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Volver al dashboard
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-800 mb-1">Equipo</h1>
+          <p className="text-sm text-gray-500 mb-4">
+            Los miembros entran con su email y contraseña y ven esta cuenta con el rol que les asignes.
+          </p>
+          <ul className="text-sm text-gray-600 mb-6 space-y-1">
+            {ROLES.map((r) => (
+              <li key={r}>
+                <span className="font-medium text-gray-800">{ROLE_LABELS[r].label}:</span> {ROLE_LABELS[r].description}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={addMember} className="flex flex-col md:flex-row gap-3 md:items-end">
+            <div className="flex-1">
+              <label htmlFor="memberName" className="block text-sm font-medium text-gray-700 mb-2">Nombre</label>
+              <input
+                id="memberName"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="memberEmail" className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+              <input
+                id="memberEmail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="memberRole" className="block text-sm font-medium text-gray-700 mb-2">Rol</label>
+              <select
+                id="memberRole"
+                value={role}
+                onChange={(e) => setRole(e.target.value as Role)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+              >
+                {ROLES.map((r) => (
+                  <option key={r} value={r}>{ROLE_LABELS[r].label}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 whitespace-nowrap"
+            >
+              {saving ? 'Invitando...' : 'Invitar'}
+            </button>
+          </form>
+
+          {errors.length > 0 && (
+            <ul className="text-red-600 text-sm mt-4 list-disc list-inside">
+              {errors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          {invite && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-4">
+              <p className="text-sm text-blue-900 mb-2">
+                Enlace de invitación para {invite.name}. Vence en 7 días y no se vuelve a mostrar:
+              </p>
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={invite.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 border border-blue-200 rounded-lg bg-white text-sm font-mono"
+                />
+                <button
+                  onClick={() => navigator.clipboard.writeText(invite.url)}
+                  className="bg-white border border-blue-300 text-blue-700 hover:bg-blue-100 text-sm font-medium py-2 px-3 rounded-lg"
+                >
+                  Copiar
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Miembro
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estado
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rol
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {members.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-sm text-gray-400">
+                    {loading ? 'Cargando...' : 'Todavía no invitaste a nadie'}
+                  </td>
+                </tr>
+              ) : (
+                members.map((member) => (
+                  <tr key={member.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900">{member.name}</p>
+                      <p className="text-xs text-gray-500">{member.email}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {member.status === 'active' ? 'Activo' : 'Invitado'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={member.role}
+                        onChange={(e) => changeRole(member, e.target.value as Role)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-sm bg-white"
+                      >
+                        {ROLES.map((r) => (
+                          <option key={r} value={r}>{ROLE_LABELS[r].label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => regenerateInvite(member)}
+                        className="text-sm text-blue-600 hover:text-blue-800 mr-4"
+                      >
+                        {member.status === 'active' ? 'Enlace para nueva contraseña' : 'Nuevo enlace'}
+                      </button>
+                      <button
+                        onClick={() => removeMember(member)}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Quitar
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
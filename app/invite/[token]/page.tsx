@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { MIN_PASSWORD_LENGTH } from '@/lib/team';
+
+export default function AcceptInvite({ params }: { params: { token: string } }) {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const accept = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmation) {
+      setError('Las contraseñas no coinciden');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/team/accept', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ token: params.token, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.errors?.[0] ?? data.error ?? 'Error aceptando invitación');
+        return;
+      }
+
+      window.location.assign('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <form onSubmit={accept} className="bg-white rounded-2xl shadow-xl p-8 md:p-12 max-w-md w-full">
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">Sumate al equipo</h1>
+        <p className="text-gray-600 mb-6">
+          Elegí una contraseña de al menos {MIN_PASSWORD_LENGTH} caracteres. Con ella y tu email vas a entrar al dashboard.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">Contraseña</label>
+        <input
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
+        />
+        <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700 mb-2">Repetir contraseña</label>
+        <input
+          id="confirmation"
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-6"
+        />
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 px-6 rounded-lg transition duration-200"
+        >
+          {saving ? 'Guardando...' : 'Entrar al dashboard'}
+        </button>
+      </form>
+    </div>
+  );
+}
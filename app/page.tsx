@@ -2,10 +2,15 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { DEFAULT_SITE_ID, SITES, SiteId } from '@/lib/meli/sites';
 
 export default function Home() {
   const router = useRouter();
   const [error, setError] = useState<string | null>(null);
+  const [siteId, setSiteId] = useState<SiteId>(DEFAULT_SITE_ID);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loggingIn, setLoggingIn] = useState(false);
 
   useEffect(() => {
     // Verificar si hay un error en la URL
@@ -20,6 +25,15 @@ export default function Home() {
         case 'token_exchange_failed':
           setError('Error al obtener token de acceso');
           break;
+        case 'invalid_state':
+          setError('La solicitud de inicio de sesión no es válida. Intentá nuevamente');
+          break;
+        case 'state_expired':
+          setError('La solicitud de inicio de sesión expiró. Intentá nuevamente');
+          break;
+        case 'missing_verifier':
+          setError('No se encontró la verificación de inicio de sesión. Revisá que las cookies estén habilitadas');
+          break;
         case 'server_error':
           setError('Error del servidor');
           break;
@@ -30,7 +44,34 @@ export default function Home() {
   }, []);
 
   const handleLogin = () => {
-    window.location.href = '/api/auth';
+    window.location.href = `/api/auth?site=${siteId}`;
+  };
+
+  // Los miembros del equipo entran con email y contraseña
+  const handleMemberLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoggingIn(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/team/login', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Error iniciando sesión');
+        return;
+      }
+
+      router.push('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoggingIn(false);
+    }
   };
 
   return (
@@ -56,6 +97,24 @@ export default function Home() {
           </div>
         )}
 
+        <div className="mb-4">
+          <label htmlFor="site" className="block text-sm font-medium text-gray-700 mb-2">
+            País de tu cuenta:
+          </label>
+          <select
+            id="site"
+            value={siteId}
+            onChange={(e) => setSiteId(e.target.value as SiteId)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {Object.values(SITES).map((site) => (
+              <option key={site.id} value={site.id}>
+                {site.name} ({site.id})
+              </option>
+            ))}
+          </select>
+        </div>
+
         <button
           onClick={handleLogin}
           className="w-full bg-yellow-400 hover:bg-yellow-500 text-gray-900 font-semibold py-4 px-6 rounded-lg transition duration-200 flex items-center justify-center gap-2 shadow-md hover:shadow-lg"
@@ -69,6 +128,33 @@ export default function Home() {
         <p className="text-xs text-gray-500 text-center mt-6">
           Al conectar, aceptás que la aplicación acceda a tus publicaciones de Mercado Libre
         </p>
+
+        <form onSubmit={handleMemberLogin} className="border-t border-gray-200 mt-8 pt-6">
+          <p className="text-sm font-medium text-gray-700 mb-3">¿Te invitaron a un equipo? Entrá con tu email</p>
+          <input
+            type="email"
+            autoComplete="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-3"
+          />
+          <input
+            type="password"
+            autoComplete="current-password"
+            placeholder="Contraseña"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-3"
+          />
+          <button
+            type="submit"
+            disabled={loggingIn || !email || !password}
+            className="w-full bg-gray-800 hover:bg-gray-900 disabled:bg-gray-400 text-white font-semibold py-3 px-6 rounded-lg transition duration-200"
+          >
+            {loggingIn ? 'Entrando...' : 'Entrar'}
+          </button>
+        </form>
       </div>
     </div>
   );
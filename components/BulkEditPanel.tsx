@@ -0,0 +1,225 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  BulkField,
+  BulkMode,
+  BulkResult,
+  FIELD_LABELS,
+  planChanges,
+  toItemUpdates,
+  updateKey,
+} from '@/lib/bulk-edit';
+import { formatPrice } from '@/lib/format';
+import { MeliSite } from '@/lib/meli/sites';
+import { MeliProduct } from '@/types/product';
+
+interface BulkEditPanelProps {
+  products: MeliProduct[];
+  site: MeliSite;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+// Filas de la vista previa; el resto se resume en un contador
+const PREVIEW_ROWS = 100;
+
+const RESULT_LABELS: Record<BulkResult['status'], { label: string; color: string }> = {
+  valid: { label: 'Válido', color: 'bg-blue-100 text-blue-800' },
+  updated: { label: 'Actualizado', color: 'bg-green-100 text-green-800' },
+  invalid: { label: 'Inválido', color: 'bg-yellow-100 text-yellow-800' },
+  error: { label: 'Error', color: 'bg-red-100 text-red-800' },
+};
+
+export default function BulkEditPanel({ products, site, onClose, onApplied }: BulkEditPanelProps) {
+  const [field, setField] = useState<BulkField>('price');
+  const [mode, setMode] = useState<BulkMode>('percent');
+  const [value, setValue] = useState('');
+  const [results, setResults] = useState<Record<string, BulkResult>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const changes = useMemo(() => {
+    const numericValue = Number(value);
+    if (value.trim() === '' || !Number.isFinite(numericValue)) return [];
+    return planChanges(products, { field, mode, value: numericValue });
+  }, [products, field, mode, value]);
+
+  const formatValue = (amount: number, currencyId: string) => {
+    return field === 'price' ? formatPrice(amount, site, currencyId) : String(amount);
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!dryRun && !confirm(`¿Aplicar ${changes.length} cambios en Mercado Libre?`)) {
+      return;
+    }
+
+    setRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/items/bulk', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ updates: toItemUpdates(changes), dryRun }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Error aplicando cambios');
+      }
+
+      setResults(Object.fromEntries(data.results.map((result: BulkResult) => [updateKey(result), result])));
+
+      if (!dryRun) {
+        onApplied();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const resultCounts = Object.values(results).reduce<Record<string, number>>((counts, result) => {
+    counts[result.status] = (counts[result.status] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-blue-200 p-4 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-800">
+          Edición masiva • {products.length} productos seleccionados
+        </h2>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">
+          Cerrar
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <div>
+          <label htmlFor="bulkField" className="block text-sm font-medium text-gray-700 mb-2">
+            Campo:
+          </label>
+          <select
+            id="bulkField"
+            value={field}
+            onChange={(e) => { setField(e.target.value as BulkField); setResults({}); }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="price">Precio</option>
+            <option value="available_quantity">Stock</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="bulkMode" className="block text-sm font-medium text-gray-700 mb-2">
+            Cambio:
+          </label>
+          <select
+            id="bulkMode"
+            value={mode}
+            onChange={(e) => { setMode(e.target.value as BulkMode); setResults({}); }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="set">Fijar en</option>
+            <option value="add">Sumar / restar</option>
+            <option value="percent">Porcentaje (%)</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="bulkValue" className="block text-sm font-medium text-gray-700 mb-2">
+            Valor:
+          </label>
+          <input
+            id="bulkValue"
+            type="number"
+            value={value}
+            onChange={(e) => { setValue(e.target.value); setResults({}); }}
+            placeholder={mode === 'percent' ? 'Ej: 10 o -5' : 'Ej: 100'}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex gap-2 ml-auto">
+          <button
+            onClick={() => submit(true)}
+            disabled={running || changes.length === 0}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed transition"
+          >
+            Validar (sin aplicar)
+          </button>
+          <button
+            onClick={() => submit(false)}
+            disabled={running || changes.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+          >
+            {running ? 'Enviando...' : `Aplicar ${changes.length} cambios`}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+      {Object.keys(resultCounts).length > 0 && (
+        <p className="text-sm text-gray-600 mb-4">
+          {Object.entries(resultCounts)
+            .map(([status, count]) => `${RESULT_LABELS[status as BulkResult['status']].label}: ${count}`)
+            .join(' • ')}
+        </p>
+      )}
+
+      {changes.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Producto</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{FIELD_LABELS[field]} actual</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{FIELD_LABELS[field]} nuevo</th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Resultado</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {changes.slice(0, PREVIEW_ROWS).map((change) => {
+                const key = updateKey(change);
+                const result = results[key];
+                return (
+                  <tr key={key}>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {change.title}
+                      <p className="text-xs text-gray-500">
+                        {change.id}{change.variation && ` • ${change.variation}`}
+                      </p>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{change.sku || '-'}</td>
+                    <td className="px-3 py-2 text-sm text-gray-500 text-right line-through">{formatValue(change.before, change.currency_id)}</td>
+                    <td className="px-3 py-2 text-sm font-semibold text-gray-900 text-right">{formatValue(change.after, change.currency_id)}</td>
+                    <td className="px-3 py-2 text-center">
+                      {result && (
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${RESULT_LABELS[result.status].color}`}
+                          title={result.errors.join('\n')}
+                        >
+                          {RESULT_LABELS[result.status].label}
+                        </span>
+                      )}
+                      {result && result.errors.length > 0 && (
+                        <p className="text-xs text-red-600 mt-1">{result.errors.join('; ')}</p>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {changes.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500 p-3">
+              ... y {changes.length - PREVIEW_ROWS} cambios más
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
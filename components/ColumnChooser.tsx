@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { COLUMNS, COLUMN_IDS, ColumnId, DEFAULT_TABLE_LAYOUT } from '@/lib/table-columns';
+
+interface ColumnChooserProps {
+  columns: ColumnId[];
+  onChange: (columns: ColumnId[]) => void;
+}
+
+export default function ColumnChooser({ columns, onChange }: ColumnChooserProps) {
+  const [open, setOpen] = useState(false);
+
+  // Primero las visibles en su orden y después las ocultas
+  const hidden = COLUMN_IDS.filter(id => !columns.includes(id));
+
+  const toggle = (id: ColumnId, visible: boolean) => {
+    if (visible) {
+      onChange([...columns, id]);
+    } else if (columns.length > 1) {
+      onChange(columns.filter(column => column !== id));
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition"
+      >
+        Columnas ({columns.length})
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-3">
+          <ul className="space-y-1">
+            {columns.map((id, index) => (
+              <li key={id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  id={`column-${id}`}
+                  checked
+                  disabled={columns.length === 1}
+                  onChange={() => toggle(id, false)}
+                />
+                <label htmlFor={`column-${id}`} className="flex-1 text-gray-800">
+                  {COLUMNS[id].label}
+                </label>
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Mover ${COLUMNS[id].label} antes`}
+                  className="px-1 text-gray-500 hover:text-gray-800 disabled:text-gray-300"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === columns.length - 1}
+                  aria-label={`Mover ${COLUMNS[id].label} después`}
+                  className="px-1 text-gray-500 hover:text-gray-800 disabled:text-gray-300"
+                >
+                  ↓
+                </button>
+              </li>
+            ))}
+            {hidden.map(id => (
+              <li key={id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  id={`column-${id}`}
+                  checked={false}
+                  onChange={() => toggle(id, true)}
+                />
+                <label htmlFor={`column-${id}`} className="flex-1 text-gray-500">
+                  {COLUMNS[id].label}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => onChange(DEFAULT_TABLE_LAYOUT.columns)}
+            className="mt-3 text-xs text-blue-600 hover:text-blue-800"
+          >
+            Restablecer columnas
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
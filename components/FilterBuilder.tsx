@@ -0,0 +1,175 @@
+'use client';
+
+import {
+  EMPTY_FILTER,
+  FILTER_FIELDS,
+  FilterCombinator,
+  FilterCondition,
+  FilterField,
+  FilterGroup,
+  FilterNode,
+  FilterOperator,
+  isFilterGroup,
+  newCondition,
+  operatorLabel,
+  operatorsFor,
+} from '@/lib/filters';
+
+interface FilterBuilderProps {
+  value: FilterGroup;
+  onChange: (value: FilterGroup) => void;
+}
+
+const INPUT_CLASS = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white';
+
+function ConditionEditor({ condition, onChange, onRemove }: {
+  condition: FilterCondition;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}) {
+  const definition = FILTER_FIELDS[condition.field];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        aria-label="Campo"
+        value={condition.field}
+        onChange={(e) => onChange(newCondition(e.target.value as FilterField))}
+        className={INPUT_CLASS}
+      >
+        {(Object.keys(FILTER_FIELDS) as FilterField[]).map(field => (
+          <option key={field} value={field}>{FILTER_FIELDS[field].label}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Operador"
+        value={condition.operator}
+        onChange={(e) => onChange({ ...condition, operator: e.target.value as FilterOperator })}
+        className={INPUT_CLASS}
+      >
+        {operatorsFor(condition.field).map(operator => (
+          <option key={operator} value={operator}>{operatorLabel(condition.field, operator)}</option>
+        ))}
+      </select>
+      {definition.options ? (
+        <select
+          aria-label="Valor"
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={INPUT_CLASS}
+        >
+          {Object.entries(definition.options).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          aria-label="Valor"
+          type={definition.type === 'date' ? 'date' : 'number'}
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={`${INPUT_CLASS} w-40`}
+        />
+      )}
+      <button onClick={onRemove} className="text-sm text-red-600 hover:text-red-800">
+        Quitar
+      </button>
+    </div>
+  );
+}
+
+function GroupEditor({ group, nested, onChange, onRemove }: {
+  group: FilterGroup;
+  nested: boolean;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateNode = (index: number, node: FilterNode) => {
+    onChange({ ...group, conditions: group.conditions.map((current, i) => (i === index ? node : current)) });
+  };
+
+  const removeNode = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={nested ? 'border-l-4 border-blue-200 pl-3 py-2 space-y-2' : 'space-y-2'}>
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <span>Mostrar productos que cumplan</span>
+        <select
+          aria-label="Combinar condiciones"
+          value={group.combinator}
+          onChange={(e) => onChange({ ...group, combinator: e.target.value as FilterCombinator })}
+          className={INPUT_CLASS}
+        >
+          <option value="and">todas las condiciones (Y)</option>
+          <option value="or">alguna de las condiciones (O)</option>
+        </select>
+        {onRemove && (
+          <button onClick={onRemove} className="text-sm text-red-600 hover:text-red-800">
+            Quitar grupo
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((node, index) => isFilterGroup(node) ? (
+        <GroupEditor
+          key={index}
+          group={node}
+          nested
+          onChange={(next) => updateNode(index, next)}
+          onRemove={() => removeNode(index)}
+        />
+      ) : (
+        <ConditionEditor
+          key={index}
+          condition={node}
+          onChange={(next) => updateNode(index, next)}
+          onRemove={() => removeNode(index)}
+        />
+      ))}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, newCondition()] })}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Agregar condición
+        </button>
+        {/* Un solo nivel de grupos alcanza para combinar Y con O */}
+        {!nested && (
+          <button
+            onClick={() => onChange({
+              ...group,
+              conditions: [
+                ...group.conditions,
+                { combinator: group.combinator === 'and' ? 'or' : 'and', conditions: [newCondition()] },
+              ],
+            })}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Agregar grupo
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function FilterBuilder({ value, onChange }: FilterBuilderProps) {
+  return (
+    <div className="border-t pt-4">
+      <div className="flex items-start justify-between gap-4">
+        <GroupEditor group={value} nested={false} onChange={onChange} />
+        {value.conditions.length > 0 && (
+          <button
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="text-sm text-gray-600 hover:text-gray-800 whitespace-nowrap"
+          >
+            Limpiar filtros
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
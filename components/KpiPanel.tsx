@@ -0,0 +1,88 @@
+'use client';
+
+import { FilterGroup } from '@/lib/filters';
+import { formatPrice } from '@/lib/format';
+import { InventoryKpis, Kpi, isKpiActive } from '@/lib/inventory-kpis';
+import { MeliSite } from '@/lib/meli/sites';
+import { FULFILLMENT_LABELS, FulfillmentKey, getPublicationStatus } from '@/lib/products';
+import { STOCK_LEVELS, StockLevel } from '@/lib/stock-rules';
+
+interface KpiPanelProps {
+  kpis: InventoryKpis;
+  site: MeliSite;
+  // Filtros actuales de la tabla, para marcar el indicador aplicado
+  view: { searchTerm: string; fulfillmentFilter: string; stockFilter: StockLevel | 'todos'; filter: FilterGroup };
+  onSelect: (kpi: Kpi) => void;
+}
+
+export default function KpiPanel({ kpis, site, view, onSelect }: KpiPanelProps) {
+  const card = (kpi: Kpi, label: string, value: string, accent = 'text-gray-900') => {
+    const active = isKpiActive(kpi, view);
+
+    return (
+      <button
+        key={label}
+        onClick={() => onSelect(kpi)}
+        aria-pressed={active}
+        title="Filtrar la tabla por este indicador"
+        className={`text-left px-3 py-2 rounded-lg border transition ${
+          active ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+        }`}
+      >
+        <p className="text-xs text-gray-500 whitespace-nowrap">{label}</p>
+        <p className={`text-lg font-semibold ${accent}`}>{value}</p>
+      </button>
+    );
+  };
+
+  const count = (value: number) => value.toLocaleString(site.locale);
+  const values = Object.entries(kpis.inventoryValue);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        <div>
+          <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Inventario</h2>
+          <div className="flex flex-wrap gap-2">
+            {card({ kind: 'in_stock' }, 'Unidades en stock', count(kpis.units))}
+            {card(
+              { kind: 'in_stock' },
+              'Valor del inventario',
+              values.length > 0
+                ? values.map(([currency, value]) => formatPrice(Math.round(value), site, currency)).join(' + ')
+                : formatPrice(0, site),
+              'text-green-600'
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Stock</h2>
+          <div className="flex flex-wrap gap-2">
+            {card({ kind: 'stock_level', level: 'sin_stock' }, STOCK_LEVELS.sin_stock.label, count(kpis.outOfStock), 'text-red-600')}
+            {card({ kind: 'stock_level', level: 'bajo' }, STOCK_LEVELS.bajo.label, count(kpis.lowStock), 'text-yellow-600')}
+            {card({ kind: 'missing_sku' }, 'Sin SKU', count(kpis.missingSku))}
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Estado</h2>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(kpis.byStatus).map(([status, total]) =>
+              card({ kind: 'status', status }, getPublicationStatus(status).label, count(total))
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Fulfillment</h2>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(FULFILLMENT_LABELS) as FulfillmentKey[]).map(fulfillment =>
+              card({ kind: 'fulfillment', fulfillment }, FULFILLMENT_LABELS[fulfillment], count(kpis.byFulfillment[fulfillment]))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
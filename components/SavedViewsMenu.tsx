@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import type { CatalogView } from '@/lib/catalog-view';
+import type { SavedView, SavedViews } from '@/lib/store/views';
+
+interface SavedViewsMenuProps {
+  saved: SavedViews;
+  activeViewId: string | null;
+  currentView: CatalogView;
+  onChange: (saved: SavedViews) => void;
+  onApply: (view: SavedView) => void;
+}
+
+export default function SavedViewsMenu({ saved, activeViewId, currentView, onChange, onApply }: SavedViewsMenuProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeView = saved.views.find(view => view.id === activeViewId) ?? null;
+
+  // Ejecuta un cambio contra /api/views y devuelve la respuesta, o null si falló
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'content-type': 'application/json' },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join('. ') || data.error || 'Error guardando la vista');
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createView = async () => {
+    const name = prompt('Nombre de la vista:');
+    if (!name) return;
+
+    const data = await request('/api/views', {
+      method: 'POST',
+      body: JSON.stringify({ name, view: currentView }),
+    });
+    if (data) {
+      onChange({ ...saved, views: [...saved.views, data.view] });
+      onApply(data.view);
+    }
+  };
+
+  const updateView = async (view: SavedView, changes: Record<string, unknown>) => {
+    const data = await request(`/api/views/${view.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+    if (data) {
+      onChange({
+        defaultViewId: data.defaultViewId,
+        views: saved.views.map(current => (current.id === view.id ? data.view : current)),
+      });
+    }
+  };
+
+  const renameView = async (view: SavedView) => {
+    const name = prompt('Nuevo nombre de la vista:', view.name);
+    if (name && name !== view.name) {
+      await updateView(view, { name });
+    }
+  };
+
+  const deleteView = async (view: SavedView) => {
+    if (!confirm(`¿Eliminar la vista "${view.name}"?`)) return;
+
+    const data = await request(`/api/views/${view.id}`, { method: 'DELETE' });
+    if (data) {
+      onChange({
+        defaultViewId: saved.defaultViewId === view.id ? null : saved.defaultViewId,
+        views: saved.views.filter(current => current.id !== view.id),
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <label htmlFor="savedView" className="font-medium text-gray-700 whitespace-nowrap">
+        Vista:
+      </label>
+      <select
+        id="savedView"
+        value={activeViewId ?? ''}
+        onChange={(e) => {
+          const view = saved.views.find(current => current.id === e.target.value);
+          if (view) onApply(view);
+        }}
+        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[200px]"
+      >
+        <option value="" disabled>
+          {saved.views.length === 0 ? 'Sin vistas guardadas' : 'Elegí una vista'}
+        </option>
+        {saved.views.map(view => (
+          <option key={view.id} value={view.id}>
+            {view.id === saved.defaultViewId ? '★ ' : ''}{view.name}
+          </option>
+        ))}
+      </select>
+
+      <button onClick={createView} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:text-gray-400">
+        Guardar como vista
+      </button>
+      {activeView && (
+        <>
+          <button
+            onClick={() => updateView(activeView, { view: currentView })}
+            disabled={busy}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Actualizar
+          </button>
+          <button
+            onClick={() => renameView(activeView)}
+            disabled={busy}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Renombrar
+          </button>
+          <button
+            onClick={() => updateView(activeView, { isDefault: saved.defaultViewId !== activeView.id })}
+            disabled={busy}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            {saved.defaultViewId === activeView.id ? 'Quitar predeterminada' : 'Predeterminada'}
+          </button>
+          <button
+            onClick={() => deleteView(activeView)}
+            disabled={busy}
+            className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+          >
+            Eliminar
+          </button>
+        </>
+      )}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
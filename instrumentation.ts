@@ -0,0 +1,10 @@
+export async function register() {
+  // El scheduler usa fs y timers: solo corre en el runtime de Node, no en edge
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { encryptStoredTokens } = await import('./lib/store/tokens');
+    await encryptStoredTokens();
+
+    const { startReportScheduler } = await import('./lib/scheduler');
+    startReportScheduler();
+  }
+}
@@ -0,0 +1,32 @@
+import { SiteId } from './meli/sites';
+
+// Valor de `scope` para ver juntas todas las cuentas vinculadas
+export const ALL_ACCOUNTS = 'all';
+
+/**
+ * Cuenta de vendedor vinculada a la sesión. Los tokens de cada una se
+ * guardan en el servidor (ver store/tokens.ts).
+ */
+export interface LinkedAccount {
+  id: number;
+  nickname: string;
+  siteId: SiteId;
+}
+
+/**
+ * Agrega la cuenta a la lista, o la reemplaza si ya estaba vinculada.
+ */
+export function addLinkedAccount(accounts: LinkedAccount[], account: LinkedAccount): LinkedAccount[] {
+  const index = accounts.findIndex((current) => current.id === account.id);
+  return index === -1
+    ? [...accounts, account]
+    : accounts.map((current, i) => (i === index ? account : current));
+}
+
+/**
+ * Nombre de la cuenta dueña de una publicación, para mostrar y exportar.
+ */
+export function accountLabel(accounts: LinkedAccount[] | undefined, sellerId: number | undefined): string {
+  if (sellerId === undefined) return '-';
+  return accounts?.find((account) => account.id === sellerId)?.nickname ?? String(sellerId);
+}
@@ -0,0 +1,225 @@
+import type { MeliProduct } from '@/types/product';
+import { BulkField, FIELD_LABELS, ItemUpdate } from './bulk-edit';
+import { serializeFilter } from './filters';
+import type { ScheduledReport } from './reports';
+import type { StockRules } from './stock-rules';
+import type { SavedView, SavedViews } from './store/views';
+import type { TeamMember } from './team';
+
+// Qué se cambió: cada escritura del dashboard cae en uno de estos tipos
+export type AuditTarget = 'item' | 'view' | 'stock_rules' | 'report' | 'member';
+
+export const AUDIT_TARGET_LABELS: Record<AuditTarget, string> = {
+  item: 'Publicación',
+  view: 'Vista guardada',
+  stock_rules: 'Reglas de stock',
+  report: 'Reporte programado',
+  member: 'Miembro del equipo',
+};
+
+export type AuditValue = string | number | boolean | null;
+
+/**
+ * Un valor cambiado por un usuario del dashboard. Las entradas sólo se
+ * agregan: nunca se modifican ni se borran. Al crear algo el valor anterior
+ * es null y al borrarlo, el nuevo.
+ */
+export interface AuditEntry {
+  at: string;
+  user: { id: string; name: string };
+  target: AuditTarget;
+  // ID de la publicación, vista, reporte o miembro
+  targetId: string;
+  // Sólo en los cambios de variaciones
+  variationId: number | null;
+  // Título o nombre de lo cambiado al momento del cambio
+  title: string;
+  field: string;
+  oldValue: AuditValue;
+  newValue: AuditValue;
+}
+
+export interface AuditFilter {
+  target?: string;
+  // Busca en el ID y en el título
+  search?: string;
+  user?: string;
+}
+
+const FIELD_NAMES: Record<string, string> = {
+  ...FIELD_LABELS,
+  name: 'Nombre',
+  isDefault: 'Predeterminada',
+  searchTerm: 'Búsqueda',
+  fulfillmentFilter: 'Filtro de fulfillment',
+  stockFilter: 'Filtro de stock',
+  filter: 'Filtros',
+  columns: 'Columnas',
+  sort: 'Orden',
+  defaultThreshold: 'Umbral por defecto',
+  rules: 'Reglas',
+  viewId: 'Vista',
+  format: 'Formato',
+  cron: 'Programación',
+  destination: 'Destino',
+  enabled: 'Activo',
+  email: 'Email',
+  role: 'Rol',
+  inviteExpiresAt: 'Invitación vigente hasta',
+};
+
+export function auditFieldLabel(field: string): string {
+  return Object.prototype.hasOwnProperty.call(FIELD_NAMES, field) ? FIELD_NAMES[field] : field;
+}
+
+export function formatAuditValue(value: AuditValue): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  return String(value);
+}
+
+/**
+ * Entradas de auditoría de los cambios aplicados a una publicación, con los
+ * valores que tenía antes.
+ */
+export function auditEntriesFor(
+  item: MeliProduct,
+  updates: ItemUpdate[],
+  user: { id: string; name: string },
+  at: string
+): AuditEntry[] {
+  return updates.flatMap((update) => {
+    const variation = item.variations.find((v) => v.id === update.variation_id) ?? null;
+    const current = variation ?? item;
+
+    return (['price', 'available_quantity'] as BulkField[])
+      .filter((field) => update[field] !== undefined)
+      .map((field) => ({
+        at,
+        user,
+        target: 'item' as const,
+        targetId: item.id,
+        variationId: variation?.id ?? null,
+        title: item.title,
+        field,
+        oldValue: current[field] ?? null,
+        newValue: update[field]!,
+      }));
+  });
+}
+
+/**
+ * Una entrada por cada campo que difiere entre `before` y `after`. Con
+ * `before` en null es una creación; con `after` en null, un borrado.
+ */
+export function auditChanges(
+  target: { type: Exclude<AuditTarget, 'item'>; id: string; title: string },
+  before: Record<string, AuditValue> | null,
+  after: Record<string, AuditValue> | null,
+  user: { id: string; name: string },
+  at = new Date().toISOString()
+): AuditEntry[] {
+  const fields = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+
+  return fields
+    .filter((field) => (before?.[field] ?? null) !== (after?.[field] ?? null))
+    .map((field) => ({
+      at,
+      user: { id: user.id, name: user.name },
+      target: target.type,
+      targetId: target.id,
+      variationId: null,
+      title: target.title,
+      field,
+      oldValue: before?.[field] ?? null,
+      newValue: after?.[field] ?? null,
+    }));
+}
+
+// Valores auditados de cada tipo: los campos compuestos se guardan como texto
+
+export function viewAuditValues(saved: SavedView, isDefault: boolean): Record<string, AuditValue> {
+  return {
+    name: saved.name,
+    isDefault,
+    searchTerm: saved.view.searchTerm,
+    fulfillmentFilter: saved.view.fulfillmentFilter,
+    stockFilter: saved.view.stockFilter,
+    filter: serializeFilter(saved.view.filter),
+    columns: saved.view.columns.join(', '),
+    sort: saved.view.sort.map((key) => `${key.column} ${key.direction}`).join(', '),
+  };
+}
+
+/**
+ * Cambios entre dos versiones de las vistas guardadas: creadas, editadas,
+ * borradas y cambios de la predeterminada.
+ */
+export function viewsAuditEntries(
+  before: SavedViews,
+  after: SavedViews,
+  user: { id: string; name: string },
+  at = new Date().toISOString()
+): AuditEntry[] {
+  const ids = Array.from(new Set([...before.views, ...after.views].map((view) => view.id)));
+
+  return ids.flatMap((id) => {
+    const previous = before.views.find((view) => view.id === id);
+    const current = after.views.find((view) => view.id === id);
+
+    return auditChanges(
+      { type: 'view', id, title: (current ?? previous)!.name },
+      previous ? viewAuditValues(previous, before.defaultViewId === id) : null,
+      current ? viewAuditValues(current, after.defaultViewId === id) : null,
+      user,
+      at
+    );
+  });
+}
+
+export function stockRulesAuditValues(stockRules: StockRules): Record<string, AuditValue> {
+  return {
+    defaultThreshold: stockRules.defaultThreshold,
+    rules: stockRules.rules.map((rule) => `${rule.scope}:${rule.match}=${rule.threshold}`).join('; '),
+  };
+}
+
+export function reportAuditValues(report: ScheduledReport): Record<string, AuditValue> {
+  return {
+    name: report.name,
+    viewId: report.viewId,
+    format: report.format,
+    cron: report.cron,
+    destination: JSON.stringify(report.destination),
+    enabled: report.enabled,
+  };
+}
+
+export function memberAuditValues(member: Pick<TeamMember, 'name' | 'email' | 'role'>): Record<string, AuditValue> {
+  return { name: member.name, email: member.email, role: member.role };
+}
+
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  const search = filter.search?.trim().toLowerCase();
+
+  return (!filter.target || entry.target === filter.target) &&
+    (!search || entry.targetId.toLowerCase().includes(search) || entry.title.toLowerCase().includes(search)) &&
+    (!filter.user || entry.user.id === filter.user);
+}
+
+/**
+ * Fila de la exportación de la auditoría.
+ */
+export function auditExportRow(entry: AuditEntry): Record<string, string | number> {
+  return {
+    'Fecha': entry.at,
+    'Usuario': entry.user.name,
+    'Tipo': AUDIT_TARGET_LABELS[entry.target],
+    'ID': entry.targetId,
+    'Variación': entry.variationId ?? '',
+    'Nombre': entry.title,
+    'Campo': auditFieldLabel(entry.field),
+    'Valor anterior': formatAuditValue(entry.oldValue),
+    'Valor nuevo': formatAuditValue(entry.newValue),
+  };
+}
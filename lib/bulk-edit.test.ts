@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { toItemUpdate } from './bulk-edit';
+
+describe('toItemUpdate', () => {
+  it('copia sólo los campos conocidos', () => {
+    expect(toItemUpdate({ id: 'MLA1', variation_id: 7, price: 150, extra: true })).toEqual({
+      id: 'MLA1',
+      variation_id: 7,
+      price: 150,
+    });
+  });
+
+  it('rechaza lo que no tiene la forma de un cambio', () => {
+    expect(toItemUpdate(null)).toBeNull();
+    expect(toItemUpdate({ price: 150 })).toBeNull();
+    expect(toItemUpdate({ id: 'MLA1', price: '150' })).toBeNull();
+  });
+});
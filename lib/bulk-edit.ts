@@ -0,0 +1,148 @@
+import type { MeliProduct } from '@/types/product';
+import { asRecord } from './validation';
+import { rowPrice, rowSku, rowStock, toCatalogRows, variationLabel } from './variations';
+
+export type BulkField = 'price' | 'available_quantity';
+
+// set: fija el valor, add: suma (o resta) una cantidad, percent: ajusta en %
+export type BulkMode = 'set' | 'add' | 'percent';
+
+export interface BulkOperation {
+  field: BulkField;
+  mode: BulkMode;
+  value: number;
+}
+
+export interface ItemUpdate {
+  id: string;
+  variation_id?: number;
+  price?: number;
+  available_quantity?: number;
+}
+
+export interface PlannedChange {
+  id: string;
+  variation_id: number | null;
+  variation: string | null;
+  title: string;
+  sku: string | null;
+  currency_id: string;
+  field: BulkField;
+  before: number;
+  after: number;
+}
+
+export type BulkResultStatus = 'valid' | 'updated' | 'invalid' | 'error';
+
+export interface BulkResult {
+  id: string;
+  variation_id?: number;
+  status: BulkResultStatus;
+  errors: string[];
+}
+
+export const FIELD_LABELS: Record<BulkField, string> = {
+  price: 'Precio',
+  available_quantity: 'Stock',
+};
+
+/**
+ * Clave única de un cambio: la publicación y, si corresponde, la variación.
+ */
+export function updateKey(update: { id: string; variation_id?: number | null }): string {
+  return update.variation_id ? `${update.id}:${update.variation_id}` : update.id;
+}
+
+function applyOperation(current: number, operation: BulkOperation): number {
+  switch (operation.mode) {
+    case 'set':
+      return operation.value;
+    case 'add':
+      return current + operation.value;
+    case 'percent':
+      return current * (1 + operation.value / 100);
+  }
+}
+
+function roundFor(field: BulkField, value: number): number {
+  // El stock es entero; el precio se redondea a centavos
+  return field === 'available_quantity' ? Math.round(value) : Math.round(value * 100) / 100;
+}
+
+/**
+ * Calcula el valor nuevo de cada producto para la operación. En las
+ * publicaciones con variaciones el cambio se aplica a cada variación. Los
+ * productos en los que el valor no cambia no se incluyen.
+ */
+export function planChanges(products: MeliProduct[], operation: BulkOperation): PlannedChange[] {
+  return toCatalogRows(products)
+    .map((row) => {
+      const { product, variation } = row;
+      const before = operation.field === 'price' ? rowPrice(row) : rowStock(row);
+      return {
+        id: product.id,
+        variation_id: variation?.id ?? null,
+        variation: variation && variationLabel(variation),
+        title: product.title,
+        sku: rowSku(row),
+        currency_id: product.currency_id,
+        field: operation.field,
+        before,
+        after: roundFor(operation.field, applyOperation(before, operation)),
+      };
+    })
+    .filter((change) => change.after !== change.before);
+}
+
+export function toItemUpdates(changes: PlannedChange[]): ItemUpdate[] {
+  return changes.map((change) => ({
+    id: change.id,
+    ...(change.variation_id ? { variation_id: change.variation_id } : {}),
+    [change.field]: change.after,
+  }));
+}
+
+/**
+ * Cambio recibido del cliente, con sólo los campos conocidos. Devuelve null
+ * si no tiene la forma de un ItemUpdate; los valores se validan después con
+ * validateUpdate.
+ */
+export function toItemUpdate(input: unknown): ItemUpdate | null {
+  const { id, variation_id, price, available_quantity } = asRecord(input);
+  const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+
+  if (
+    typeof id !== 'string' || !id ||
+    !isOptionalNumber(variation_id) || !isOptionalNumber(price) || !isOptionalNumber(available_quantity)
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    ...(variation_id !== undefined ? { variation_id: variation_id as number } : {}),
+    ...(price !== undefined ? { price: price as number } : {}),
+    ...(available_quantity !== undefined ? { available_quantity: available_quantity as number } : {}),
+  };
+}
+
+export function validateUpdate(update: ItemUpdate): string[] {
+  const errors: string[] = [];
+
+  if (update.price === undefined && update.available_quantity === undefined) {
+    errors.push('No hay cambios para aplicar');
+  }
+
+  if (update.price !== undefined && (!Number.isFinite(update.price) || update.price <= 0)) {
+    errors.push('El precio debe ser mayor a 0');
+  }
+
+  if (
+    update.available_quantity !== undefined &&
+    (!Number.isInteger(update.available_quantity) || update.available_quantity < 0)
+  ) {
+    errors.push('El stock debe ser un número entero mayor o igual a 0');
+  }
+
+  return errors;
+}
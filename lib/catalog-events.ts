@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events';
+import type { MeliProduct } from '@/types/product';
+import type { CatalogChangeEvent, ChangedField } from './live-updates';
+
+// Eventos que se guardan por vendedor para los clientes que se reconectan o
+// usan polling
+const BUFFER_SIZE = 200;
+
+interface SellerBuffer {
+  events: CatalogChangeEvent[];
+  // seq del último evento descartado del buffer
+  droppedSeq: number;
+}
+
+interface EventBus {
+  emitter: EventEmitter;
+  seq: number;
+  buffers: Map<number, SellerBuffer>;
+}
+
+// Vive en globalThis para que las rutas y el procesamiento de notificaciones
+// compartan el mismo bus aunque el módulo se recargue en desarrollo
+const state = globalThis as typeof globalThis & { catalogEvents?: EventBus };
+
+function getBus(): EventBus {
+  if (!state.catalogEvents) {
+    const emitter = new EventEmitter();
+    // Un listener por dashboard conectado
+    emitter.setMaxListeners(0);
+    state.catalogEvents = { emitter, seq: 0, buffers: new Map() };
+  }
+  return state.catalogEvents;
+}
+
+function stockOf(item: MeliProduct): string {
+  return [item.available_quantity, ...item.variations.map((v) => v.available_quantity)].join(',');
+}
+
+function priceOf(item: MeliProduct): string {
+  return [item.price, ...item.variations.map((v) => v.price)].join(',');
+}
+
+/**
+ * Campos visibles que cambiaron entre dos versiones de un item. El stock y el
+ * precio cuentan como cambiados si cambia el de cualquier variación.
+ */
+export function changedFields(before: MeliProduct | undefined, after: MeliProduct): ChangedField[] {
+  if (!before) return ['stock', 'price', 'status'];
+
+  const fields: ChangedField[] = [];
+  if (stockOf(before) !== stockOf(after)) fields.push('stock');
+  if (priceOf(before) !== priceOf(after)) fields.push('price');
+  if (before.status !== after.status) fields.push('status');
+  return fields;
+}
+
+/**
+ * Publica un evento por cada item que cambió de stock, precio o estado. El
+ * item va con `seller_id` para la vista de todas las cuentas.
+ */
+export function publishCatalogChanges(sellerId: number, before: MeliProduct[], after: MeliProduct[]) {
+  const bus = getBus();
+  const previous = new Map(before.map((item) => [item.id, item]));
+  const buffer = bus.buffers.get(sellerId) ?? { events: [], droppedSeq: 0 };
+
+  for (const item of after) {
+    const fields = changedFields(previous.get(item.id), item);
+    if (fields.length === 0) continue;
+
+    const event: CatalogChangeEvent = { seq: ++bus.seq, fields, item: { ...item, seller_id: sellerId } };
+    buffer.events.push(event);
+    bus.emitter.emit(String(sellerId), event);
+  }
+
+  if (buffer.events.length > BUFFER_SIZE) {
+    const dropped = buffer.events.splice(0, buffer.events.length - BUFFER_SIZE);
+    buffer.droppedSeq = dropped[dropped.length - 1].seq;
+  }
+  bus.buffers.set(sellerId, buffer);
+}
+
+export function subscribeCatalogChanges(sellerIds: number[], listener: (event: CatalogChangeEvent) => void): () => void {
+  const { emitter } = getBus();
+  sellerIds.forEach((sellerId) => emitter.on(String(sellerId), listener));
+  return () => {
+    sellerIds.forEach((sellerId) => emitter.off(String(sellerId), listener));
+  };
+}
+
+export function currentSeq(): number {
+  return getBus().seq;
+}
+
+/**
+ * Eventos de los vendedores posteriores a `since`, en orden. Devuelve null si
+ * el cliente se perdió eventos que ya no están en el buffer (o el servidor se
+ * reinició): en ese caso tiene que volver a leer el catálogo completo.
+ */
+export function changesSince(sellerIds: number[], since: number): CatalogChangeEvent[] | null {
+  const bus = getBus();
+  const buffers = sellerIds.map((sellerId) => bus.buffers.get(sellerId));
+
+  if (since > bus.seq || buffers.some((buffer) => buffer && since < buffer.droppedSeq)) {
+    return null;
+  }
+
+  return buffers
+    .flatMap((buffer) => (buffer?.events ?? []).filter((event) => event.seq > since))
+    .sort((a, b) => a.seq - b.seq);
+}
@@ -0,0 +1,194 @@
+import type { MeliProduct } from '@/types/product';
+import {
+  EMPTY_FILTER,
+  FilterGroup,
+  countConditions,
+  matchesFilter,
+  parseFilter,
+  serializeFilter,
+  validateFilter,
+} from './filters';
+import { StockLevel, getStockLevel } from './stock-rules';
+import {
+  ColumnContext,
+  ColumnId,
+  DEFAULT_TABLE_LAYOUT,
+  SortKey,
+  exportRow,
+  sortProducts,
+  toTableLayout,
+  validateTableLayout,
+} from './table-columns';
+import { asRecord } from './validation';
+import { CatalogRow, matchVariations, toCatalogRows } from './variations';
+
+/**
+ * Todo lo que define qué se ve del catálogo: búsqueda, filtros, orden y
+ * columnas. Es lo que guarda una vista y lo que usa la exportación.
+ */
+export interface CatalogView {
+  searchTerm: string;
+  fulfillmentFilter: string;
+  stockFilter: StockLevel | 'todos';
+  filter: FilterGroup;
+  columns: ColumnId[];
+  sort: SortKey[];
+}
+
+export const DEFAULT_CATALOG_VIEW: CatalogView = {
+  searchTerm: '',
+  fulfillmentFilter: 'todos',
+  stockFilter: 'todos',
+  filter: EMPTY_FILTER,
+  columns: DEFAULT_TABLE_LAYOUT.columns,
+  sort: DEFAULT_TABLE_LAYOUT.sort,
+};
+
+function matchesFulfillment(product: MeliProduct, fulfillmentFilter: string): boolean {
+  switch (fulfillmentFilter) {
+    case 'full':
+      return product.shipping.logistic_type === 'fulfillment';
+    case 'flex':
+      return product.shipping.logistic_type === 'xd_drop_off';
+    case 'me':
+      return product.shipping.mode === 'me2';
+    case 'normal':
+      return product.shipping.mode === 'not_specified' ||
+             (!product.shipping.logistic_type && product.shipping.mode !== 'me2');
+    default:
+      return true;
+  }
+}
+
+/**
+ * Publicaciones que muestra la vista, ya ordenadas.
+ */
+export function applyCatalogView(products: MeliProduct[], view: CatalogView, context: ColumnContext): MeliProduct[] {
+  const { stockRules } = context;
+
+  const filtered = products.filter((product) => {
+    // Búsqueda de texto, incluyendo SKU y atributos de variaciones
+    if (view.searchTerm.trim() && matchVariations(product, view.searchTerm) === null) {
+      return false;
+    }
+
+    if (view.fulfillmentFilter !== 'todos' && !matchesFulfillment(product, view.fulfillmentFilter)) {
+      return false;
+    }
+
+    // Estado de stock: alcanza con que coincida una variación
+    if (
+      view.stockFilter !== 'todos' &&
+      !toCatalogRows([product], view.searchTerm).some(
+        (row) => getStockLevel(stockRules, row.product, row.variation) === view.stockFilter
+      )
+    ) {
+      return false;
+    }
+
+    return matchesFilter(view.filter, product, { stockRules });
+  });
+
+  return sortProducts(filtered, view.sort, context);
+}
+
+/**
+ * Filas de la vista a nivel variación, respetando la búsqueda y el filtro de
+ * estado de stock.
+ */
+export function catalogViewRows(products: MeliProduct[], view: CatalogView, context: ColumnContext): CatalogRow[] {
+  return toCatalogRows(applyCatalogView(products, view, context), view.searchTerm)
+    .filter((row) => (
+      view.stockFilter === 'todos' ||
+      getStockLevel(context.stockRules, row.product, row.variation) === view.stockFilter
+    ));
+}
+
+/**
+ * Filas de exportación de la vista: una por variación, con las columnas
+ * visibles y en el orden de la tabla.
+ */
+export function exportCatalogView(
+  products: MeliProduct[],
+  view: CatalogView,
+  context: ColumnContext
+): Record<string, string | number>[] {
+  return catalogViewRows(products, view, context).map((row) => exportRow(row, view.columns, context));
+}
+
+function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Nombre descriptivo del archivo exportado, sin extensión. Si la vista es
+ * una vista guardada se incluye su nombre.
+ */
+export function exportFileName(view: CatalogView, productCount: number, viewName?: string, date = new Date()): string {
+  let fileName = `productos-mercadolibre`;
+  if (viewName && slugify(viewName)) {
+    fileName += `-${slugify(viewName)}`;
+  }
+  if (view.searchTerm) {
+    fileName += `-busqueda`;
+  }
+  if (view.fulfillmentFilter !== 'todos') {
+    fileName += `-${view.fulfillmentFilter}`;
+  }
+  if (view.stockFilter !== 'todos') {
+    fileName += `-${view.stockFilter.replace('_', '-')}`;
+  }
+  if (countConditions(view.filter) > 0) {
+    fileName += `-filtrado`;
+  }
+  return `${fileName}-${productCount}-productos-${date.toISOString().split('T')[0]}`;
+}
+
+const FULFILLMENT_FILTERS = ['todos', 'full', 'flex', 'me', 'normal'];
+
+function isStockFilter(value: unknown): value is CatalogView['stockFilter'] {
+  return typeof value === 'string' && ['todos', 'sin_stock', 'bajo', 'normal'].includes(value);
+}
+
+/**
+ * Valida una vista recibida del cliente. Devuelve los errores encontrados.
+ */
+export function validateCatalogView(input: unknown): string[] {
+  const errors: string[] = [];
+  const { searchTerm, fulfillmentFilter, stockFilter, filter, columns, sort } = asRecord(input);
+
+  if (typeof searchTerm !== 'string') {
+    errors.push('La búsqueda debe ser un texto');
+  }
+  if (typeof fulfillmentFilter !== 'string' || !FULFILLMENT_FILTERS.includes(fulfillmentFilter)) {
+    errors.push('Filtro de fulfillment inválido');
+  }
+  if (!isStockFilter(stockFilter)) {
+    errors.push('Filtro de estado de stock inválido');
+  }
+  errors.push(...validateFilter(filter));
+  errors.push(...validateTableLayout({ columns, sort }));
+
+  return errors;
+}
+
+/**
+ * Copia sólo los campos conocidos de una vista ya validada.
+ */
+export function toCatalogView(input: unknown): CatalogView {
+  const { searchTerm, fulfillmentFilter, stockFilter, filter } = asRecord(input);
+
+  return {
+    searchTerm: String(searchTerm),
+    fulfillmentFilter: String(fulfillmentFilter),
+    stockFilter: isStockFilter(stockFilter) ? stockFilter : 'todos',
+    // Ida y vuelta por el formato de la URL para descartar campos extra
+    filter: parseFilter(serializeFilter(filter as FilterGroup)) ?? EMPTY_FILTER,
+    ...toTableLayout(input),
+  };
+}
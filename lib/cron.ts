@@ -0,0 +1,114 @@
+/**
+ * Expresiones cron de cinco campos (minuto hora día mes día-de-semana)
+ * limitadas a reportes diarios o semanales: día del mes y mes tienen que ser
+ * `*`. Cada campo acepta `*`, números, listas (`1,3,5`), rangos (`1-5`) y
+ * pasos (`*\/15`). Se evalúan en la hora local del servidor.
+ */
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  // 0 = domingo
+  weekdays: number[];
+}
+
+export const WEEKDAY_LABELS = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
+
+// Una semana alcanza para encontrar la próxima ejecución de cualquier expresión válida
+const MAX_LOOKAHEAD_MINUTES = 8 * 24 * 60;
+
+function range(from: number, to: number, step = 1): number[] {
+  const values: number[] = [];
+  for (let value = from; value <= to; value += step) {
+    values.push(value);
+  }
+  return values;
+}
+
+function parseField(field: string, min: number, max: number): number[] | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const [, , start, end, step] = match;
+    const from = start === undefined ? min : Number(start);
+    const to = start === undefined ? max : end === undefined ? (step ? max : from) : Number(end);
+    const increment = step === undefined ? 1 : Number(step);
+
+    if (from < min || to > max || from > to || increment < 1) return null;
+    range(from, to, increment).forEach((value) => values.add(value));
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  if (dayOfMonth !== '*' || month !== '*') return null;
+
+  const minutes = parseField(minute, 0, 59);
+  const hours = parseField(hour, 0, 23);
+  // El 7 también es domingo
+  const weekdays = parseField(dayOfWeek, 0, 7);
+  if (!minutes || !hours || !weekdays) return null;
+
+  return {
+    minutes,
+    hours,
+    weekdays: Array.from(new Set(weekdays.map((day) => day % 7))).sort((a, b) => a - b),
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.includes(date.getMinutes()) &&
+    schedule.hours.includes(date.getHours()) &&
+    schedule.weekdays.includes(date.getDay())
+  );
+}
+
+/**
+ * Primer minuto posterior a `after` en el que corresponde ejecutar.
+ */
+export function nextRun(schedule: CronSchedule, after: Date): Date {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_MINUTES; i++) {
+    candidate.setMinutes(candidate.getMinutes() + 1);
+    if (cronMatches(schedule, candidate)) {
+      return candidate;
+    }
+  }
+
+  throw new Error('La expresión cron no tiene ejecuciones');
+}
+
+export function dailyCron(hour: number, minute: number): string {
+  return `${minute} ${hour} * * *`;
+}
+
+export function weeklyCron(weekday: number, hour: number, minute: number): string {
+  return `${minute} ${hour} * * ${weekday}`;
+}
+
+/**
+ * Descripción legible para las expresiones que arma el formulario; para el
+ * resto devuelve la expresión tal cual.
+ */
+export function describeCron(expression: string): string {
+  const schedule = parseCron(expression);
+  if (!schedule || schedule.minutes.length !== 1 || schedule.hours.length !== 1) {
+    return expression;
+  }
+
+  const time = `${String(schedule.hours[0]).padStart(2, '0')}:${String(schedule.minutes[0]).padStart(2, '0')}`;
+  if (schedule.weekdays.length === 7) {
+    return `Todos los días a las ${time}`;
+  }
+  return `Cada ${schedule.weekdays.map((day) => WEEKDAY_LABELS[day]).join(', ')} a las ${time}`;
+}
@@ -0,0 +1,75 @@
+import { EMPTY_FILTER, FilterGroup, parseFilter, serializeFilter } from './filters';
+import type { StockLevel } from './stock-rules';
+
+export const ITEMS_PER_PAGE_OPTIONS = [50, 100, 200, 500];
+
+// Valor de itemsPerPage para mostrar todo el resultado sin paginar, con la
+// tabla virtualizada. En la URL va como `perPage=todos`.
+export const ALL_ROWS = 0;
+
+/**
+ * Estado del dashboard que se guarda en la URL, para poder compartir o
+ * recargar una vista filtrada.
+ */
+export interface DashboardUrlState {
+  searchTerm: string;
+  currentPage: number;
+  itemsPerPage: number;
+  fulfillmentFilter: string;
+  stockFilter: StockLevel | 'todos';
+  filter: FilterGroup;
+}
+
+export const DEFAULT_URL_STATE: DashboardUrlState = {
+  searchTerm: '',
+  currentPage: 1,
+  itemsPerPage: 50,
+  fulfillmentFilter: 'todos',
+  stockFilter: 'todos',
+  filter: EMPTY_FILTER,
+};
+
+const FULFILLMENT_VALUES = ['full', 'flex', 'me', 'normal'];
+const STOCK_VALUES = ['sin_stock', 'bajo', 'normal'];
+
+/**
+ * Lee el estado desde los parámetros de la URL. Los valores inválidos se
+ * ignoran y quedan los de por defecto.
+ */
+export function parseUrlState(params: URLSearchParams): DashboardUrlState {
+  const page = Number(params.get('page'));
+  const perPage = params.get('perPage');
+  const fulfillment = params.get('fulfillment') ?? '';
+  const stock = params.get('stock') ?? '';
+  const filter = params.get('filter');
+
+  return {
+    searchTerm: params.get('q') ?? DEFAULT_URL_STATE.searchTerm,
+    currentPage: Number.isInteger(page) && page > 0 ? page : DEFAULT_URL_STATE.currentPage,
+    itemsPerPage: perPage === 'todos'
+      ? ALL_ROWS
+      : ITEMS_PER_PAGE_OPTIONS.includes(Number(perPage)) ? Number(perPage) : DEFAULT_URL_STATE.itemsPerPage,
+    fulfillmentFilter: FULFILLMENT_VALUES.includes(fulfillment) ? fulfillment : DEFAULT_URL_STATE.fulfillmentFilter,
+    stockFilter: STOCK_VALUES.includes(stock) ? stock as StockLevel : DEFAULT_URL_STATE.stockFilter,
+    filter: (filter && parseFilter(filter)) || DEFAULT_URL_STATE.filter,
+  };
+}
+
+/**
+ * Inverso de parseUrlState. Sólo incluye lo que difiere de los valores por
+ * defecto, así la URL de la vista inicial queda limpia.
+ */
+export function toUrlParams(state: DashboardUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (state.searchTerm) params.set('q', state.searchTerm);
+  if (state.currentPage !== DEFAULT_URL_STATE.currentPage) params.set('page', String(state.currentPage));
+  if (state.itemsPerPage !== DEFAULT_URL_STATE.itemsPerPage) {
+    params.set('perPage', state.itemsPerPage === ALL_ROWS ? 'todos' : String(state.itemsPerPage));
+  }
+  if (state.fulfillmentFilter !== 'todos') params.set('fulfillment', state.fulfillmentFilter);
+  if (state.stockFilter !== 'todos') params.set('stock', state.stockFilter);
+  if (state.filter.conditions.length > 0) params.set('filter', serializeFilter(state.filter));
+
+  return params;
+}
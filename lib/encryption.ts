@@ -0,0 +1,56 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+// Prefijo de los valores cifrados; permite cambiar de formato más adelante
+const PREFIX = 'enc1';
+
+function getKey(): Buffer {
+  const value = process.env.TOKEN_ENCRYPTION_KEY;
+
+  if (!value) {
+    throw new Error('TOKEN_ENCRYPTION_KEY no configurado');
+  }
+
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error('TOKEN_ENCRYPTION_KEY tiene que ser de 32 bytes en base64');
+  }
+
+  return key;
+}
+
+/**
+ * Cifra un valor para guardarlo en disco (AES-256-GCM con la clave de
+ * TOKEN_ENCRYPTION_KEY). El resultado incluye el IV y el tag de autenticación.
+ */
+export function encryptValue(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [PREFIX, iv, cipher.getAuthTag(), encrypted]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}.`);
+}
+
+/**
+ * Inverso de encryptValue. Lanza un error si el valor fue modificado o se
+ * cifró con otra clave.
+ */
+export function decryptValue(value: string): string {
+  const [prefix, iv, tag, encrypted] = value.split('.');
+
+  if (prefix !== PREFIX || !iv || !tag || encrypted === undefined) {
+    throw new Error('Valor cifrado inválido');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8');
+}
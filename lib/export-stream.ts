@@ -0,0 +1,79 @@
+import * as XLSX from 'xlsx';
+import { ExportFormat, toCsvLine } from './export';
+import { ColumnContext, ColumnId, exportRow } from './table-columns';
+import { CatalogRow } from './variations';
+import { buildWorkbook } from './xlsx';
+
+// Filas que se convierten por cada lectura del stream
+const CHUNK_ROWS = 500;
+
+// Marca de orden de bytes: sin ella Excel abre el CSV como Latin-1
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Genera el archivo exportado como stream. CSV y JSON se escriben de a
+ * CHUNK_ROWS filas, así el archivo empieza a bajar antes de convertir todo el
+ * catálogo; el formato xlsx es un zip y se arma completo antes de enviarlo.
+ */
+export function exportStream(
+  rows: CatalogRow[],
+  format: ExportFormat,
+  columns: ColumnId[],
+  context: ColumnContext
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const toRecord = (row: CatalogRow) => exportRow(row, columns, context);
+
+  if (format === 'xlsx') {
+    return new ReadableStream({
+      start(controller) {
+        const workbook = buildWorkbook(rows.map(toRecord), 'Productos');
+        controller.enqueue(new Uint8Array(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })));
+        controller.close();
+      },
+    });
+  }
+
+  let next = 0;
+  let headers: string[] | null = null;
+
+  return new ReadableStream({
+    pull(controller) {
+      const chunk = rows.slice(next, next + CHUNK_ROWS).map(toRecord);
+      let text = '';
+
+      if (format === 'csv') {
+        if (next === 0) {
+          text += UTF8_BOM;
+        }
+        chunk.forEach((record) => {
+          if (!headers) {
+            headers = Object.keys(record);
+            text += toCsvLine(headers);
+          }
+          text += toCsvLine(headers.map((header) => record[header]));
+        });
+      } else {
+        text += chunk
+          .map((record, i) => `${next + i === 0 ? '[\n' : ',\n'}${JSON.stringify(record)}`)
+          .join('');
+        if (rows.length === 0) {
+          text += '[';
+        }
+      }
+
+      next += CHUNK_ROWS;
+
+      if (next >= rows.length) {
+        if (format === 'json') {
+          text += '\n]\n';
+        }
+        controller.enqueue(encoder.encode(text));
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encoder.encode(text));
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { toCsvLine, unescapeCsvCell } from './export';
+
+describe('toCsvLine', () => {
+  it('neutraliza el texto que Excel tomaría como fórmula', () => {
+    expect(toCsvLine(['=SUM(A1)', '+cmd', '-ABC', '@x', '\tx'])).toBe("'=SUM(A1),'+cmd,'-ABC,'@x,'\tx\r\n");
+    expect(toCsvLine(['\rx'])).toBe(`"'\rx"\r\n`);
+  });
+
+  it('deja el guion de los SKU vacíos, los números y el texto común', () => {
+    expect(toCsvLine(['-', '-5', '+1.5', -3, 'REM-01'])).toBe('-,-5,+1.5,-3,REM-01\r\n');
+  });
+
+  it('entrecomilla comas, comillas y saltos de línea', () => {
+    expect(toCsvLine(['a,b', 'dice "hola"', 'x\ny'])).toBe('"a,b","dice ""hola""","x\ny"\r\n');
+  });
+});
+
+describe('unescapeCsvCell', () => {
+  it('quita sólo el apóstrofo agregado al exportar', () => {
+    expect(unescapeCsvCell("'-ABC")).toBe('-ABC');
+    expect(unescapeCsvCell("'ABC")).toBe("'ABC");
+    expect(unescapeCsvCell("'-")).toBe("'-");
+  });
+});
@@ -0,0 +1,113 @@
+import { CatalogView, DEFAULT_CATALOG_VIEW } from './catalog-view';
+import { parseUrlState, toUrlParams } from './dashboard-url';
+import { COLUMN_IDS, ColumnId, SortDirection, SortKey } from './table-columns';
+
+export type ExportFormat = 'xlsx' | 'csv' | 'json';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; contentType: string }> = {
+  xlsx: {
+    label: 'Excel (.xlsx)',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  csv: { label: 'CSV', contentType: 'text/csv; charset=utf-8' },
+  json: { label: 'JSON', contentType: 'application/json; charset=utf-8' },
+};
+
+export interface ExportRequest {
+  format: ExportFormat;
+  view: CatalogView;
+  // Si viene, se exporta esa vista guardada e ignora el resto de la vista
+  viewId: string | null;
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+function isColumnId(value: string): value is ColumnId {
+  return (COLUMN_IDS as string[]).includes(value);
+}
+
+/**
+ * Parámetros de GET /api/export. La búsqueda y los filtros usan los mismos
+ * nombres que la URL del dashboard; se agregan formato, columnas y orden
+ * (`price.desc,title.asc`).
+ */
+export function toExportParams(format: ExportFormat, view: CatalogView, viewId?: string): URLSearchParams {
+  const params = new URLSearchParams({ format });
+
+  if (viewId) {
+    params.set('view', viewId);
+    return params;
+  }
+
+  toUrlParams({ ...view, currentPage: 1, itemsPerPage: 50 }).forEach((value, key) => params.set(key, value));
+  params.set('columns', view.columns.join(','));
+  if (view.sort.length > 0) {
+    params.set('sort', view.sort.map((key) => `${key.column}.${key.direction}`).join(','));
+  }
+
+  return params;
+}
+
+/**
+ * Inverso de toExportParams. Las columnas y criterios de orden desconocidos
+ * se ignoran; sin columnas válidas se usan las de por defecto.
+ */
+export function parseExportParams(params: URLSearchParams): ExportRequest | { error: string } {
+  const format = params.get('format') ?? 'xlsx';
+  if (!isExportFormat(format)) {
+    return { error: `Formato desconocido: ${format}` };
+  }
+
+  const { searchTerm, fulfillmentFilter, stockFilter, filter } = parseUrlState(params);
+  const columns = (params.get('columns') ?? '').split(',').filter(isColumnId);
+  const sort = (params.get('sort') ?? '')
+    .split(',')
+    .map((token) => token.split('.'))
+    .filter(([column, direction]) => isColumnId(column) && (direction === 'asc' || direction === 'desc'))
+    .map(([column, direction]): SortKey => ({ column: column as ColumnId, direction: direction as SortDirection }));
+
+  return {
+    format,
+    viewId: params.get('view'),
+    view: {
+      searchTerm,
+      fulfillmentFilter,
+      stockFilter,
+      filter,
+      columns: columns.length > 0 ? Array.from(new Set(columns)) : DEFAULT_CATALOG_VIEW.columns,
+      sort,
+    },
+  };
+}
+
+// Excel evalúa como fórmula el texto que empieza con alguno de estos
+// caracteres. Un guion solo (el "-" de los SKU vacíos) o un número con
+// signo no son fórmulas y se dejan como están.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const SIGNED_NUMBER = /^[+-]\d+([.,]\d+)?$/;
+
+function isFormulaLike(text: string): boolean {
+  return FORMULA_PREFIX.test(text) && text !== '-' && !SIGNED_NUMBER.test(text);
+}
+
+/**
+ * Inverso del escape de csvCell: quita el apóstrofo agregado a un texto que
+ * parecía fórmula, así un SKU como "-ABC" se puede volver a importar.
+ */
+export function unescapeCsvCell(text: string): string {
+  return text.startsWith("'") && isFormulaLike(text.slice(1)) ? text.slice(1) : text;
+}
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && isFormulaLike(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: unknown[]): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
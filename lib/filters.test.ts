@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { FilterCondition, FilterGroup, matchesFilter } from './filters';
+import { DEFAULT_STOCK_RULES } from './stock-rules';
+import { productFixture } from './test-fixtures';
+
+const context = { stockRules: DEFAULT_STOCK_RULES };
+
+function where(field: FilterCondition['field'], operator: FilterCondition['operator'], value: string): FilterGroup {
+  return { combinator: 'and', conditions: [{ field, operator, value }] };
+}
+
+// Publicación con una variación de 2 unidades y otra de 20
+const WITH_VARIATIONS = productFixture({
+  id: 'MLA1',
+  available_quantity: 22,
+  price: 100,
+  variations: [
+    { id: 1, attribute_combinations: [], seller_sku: 'ROJO', available_quantity: 2, price: 100 },
+    { id: 2, attribute_combinations: [], seller_sku: 'AZUL', available_quantity: 20, price: 150 },
+  ],
+});
+
+describe('matchesFilter', () => {
+  it('compara el stock de cada variación', () => {
+    expect(matchesFilter(where('stock', 'lte', '4'), WITH_VARIATIONS, context)).toBe(true);
+    expect(matchesFilter(where('stock', 'gte', '21'), WITH_VARIATIONS, context)).toBe(false);
+    expect(matchesFilter(where('stock', 'eq', '20'), WITH_VARIATIONS, context)).toBe(true);
+  });
+
+  it('compara el precio de cada variación', () => {
+    expect(matchesFilter(where('price', 'gte', '150'), WITH_VARIATIONS, context)).toBe(true);
+    expect(matchesFilter(where('price', 'gte', '151'), WITH_VARIATIONS, context)).toBe(false);
+  });
+
+  it('con "no es" exige que ninguna variación coincida', () => {
+    expect(matchesFilter(where('stock', 'neq', '2'), WITH_VARIATIONS, context)).toBe(false);
+    expect(matchesFilter(where('stock', 'neq', '3'), WITH_VARIATIONS, context)).toBe(true);
+    expect(matchesFilter(where('stock_status', 'neq', 'bajo'), WITH_VARIATIONS, context)).toBe(false);
+  });
+
+  it('sin variaciones usa los valores de la publicación', () => {
+    const product = productFixture({ id: 'MLA2', available_quantity: 3, price: 50 });
+    expect(matchesFilter(where('stock', 'lte', '4'), product, context)).toBe(true);
+    expect(matchesFilter(where('price', 'eq', '50'), product, context)).toBe(true);
+  });
+});
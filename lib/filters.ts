@@ -0,0 +1,301 @@
+import type { MeliProduct } from '@/types/product';
+import { FULFILLMENT_LABELS, getFulfillmentKey } from './products';
+import { STOCK_LEVELS, StockRules, getStockLevel } from './stock-rules';
+import { LISTING_TYPE_LABELS } from './table-columns';
+import { asRecord, isRecord } from './validation';
+import { CatalogRow, rowPrice, rowStock, toCatalogRows } from './variations';
+
+export type FilterField =
+  | 'status'
+  | 'fulfillment'
+  | 'listing_type'
+  | 'free_shipping'
+  | 'has_sku'
+  | 'stock_status'
+  | 'price'
+  | 'stock'
+  | 'last_updated';
+
+export type FilterOperator = 'eq' | 'neq' | 'gte' | 'lte';
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterCondition {
+  field: FilterField;
+  operator: FilterOperator;
+  // Siempre texto: así viaja en la URL y en los inputs
+  value: string;
+}
+
+export interface FilterGroup {
+  combinator: FilterCombinator;
+  conditions: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export interface FilterContext {
+  stockRules: StockRules;
+}
+
+type FieldType = 'enum' | 'number' | 'date';
+
+interface FieldDefinition {
+  label: string;
+  type: FieldType;
+  options?: Record<string, string>;
+}
+
+const YES_NO = { true: 'Sí', false: 'No' };
+
+export const FILTER_FIELDS: Record<FilterField, FieldDefinition> = {
+  status: {
+    label: 'Estado publicación',
+    type: 'enum',
+    options: { active: 'Activo', paused: 'Pausado', closed: 'Finalizado', under_review: 'En revisión' },
+  },
+  fulfillment: { label: 'Fulfillment', type: 'enum', options: FULFILLMENT_LABELS },
+  listing_type: { label: 'Tipo de publicación', type: 'enum', options: LISTING_TYPE_LABELS },
+  free_shipping: { label: 'Envío gratis', type: 'enum', options: YES_NO },
+  has_sku: { label: 'Tiene SKU', type: 'enum', options: YES_NO },
+  stock_status: {
+    label: 'Estado stock',
+    type: 'enum',
+    options: Object.fromEntries(Object.entries(STOCK_LEVELS).map(([level, badge]) => [level, badge.label])),
+  },
+  price: { label: 'Precio', type: 'number' },
+  stock: { label: 'Stock', type: 'number' },
+  last_updated: { label: 'Última actualización', type: 'date' },
+};
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: 'es',
+  neq: 'no es',
+  gte: 'mayor o igual a',
+  lte: 'menor o igual a',
+};
+
+const DATE_OPERATOR_LABELS: Partial<Record<FilterOperator, string>> = {
+  gte: 'desde',
+  lte: 'hasta',
+};
+
+const FIELD_OPERATORS: Record<FieldType, FilterOperator[]> = {
+  enum: ['eq', 'neq'],
+  number: ['gte', 'lte', 'eq'],
+  date: ['gte', 'lte'],
+};
+
+export const EMPTY_FILTER: FilterGroup = { combinator: 'and', conditions: [] };
+
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return 'conditions' in node;
+}
+
+// Con `in` también pasarían claves heredadas como `constructor`
+export function isFilterField(value: unknown): value is FilterField {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FILTER_FIELDS, value);
+}
+
+export function operatorsFor(field: FilterField): FilterOperator[] {
+  return FIELD_OPERATORS[FILTER_FIELDS[field].type];
+}
+
+export function operatorLabel(field: FilterField, operator: FilterOperator): string {
+  const type = FILTER_FIELDS[field].type;
+  return (type === 'date' && DATE_OPERATOR_LABELS[operator]) || OPERATOR_LABELS[operator];
+}
+
+export function newCondition(field: FilterField = 'status'): FilterCondition {
+  const { options } = FILTER_FIELDS[field];
+  return {
+    field,
+    operator: operatorsFor(field)[0],
+    value: options ? Object.keys(options)[0] : '',
+  };
+}
+
+// Las condiciones a medio completar (sin valor) no filtran
+function isComplete(condition: FilterCondition): boolean {
+  const { type } = FILTER_FIELDS[condition.field];
+  if (condition.value.trim() === '') return false;
+  if (type === 'number') return Number.isFinite(Number(condition.value));
+  return true;
+}
+
+/**
+ * Cantidad de condiciones completas del filtro, contando las de los grupos.
+ */
+export function countConditions(group: FilterGroup): number {
+  return group.conditions.reduce(
+    (count, node) => count + (isFilterGroup(node) ? countConditions(node) : isComplete(node) ? 1 : 0),
+    0
+  );
+}
+
+function compare(actual: number | string, operator: FilterOperator, expected: number | string): boolean {
+  switch (operator) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lte':
+      return actual <= expected;
+  }
+}
+
+/**
+ * Evalúa la condición en cada fila (la publicación o cada variación):
+ * alcanza con que coincida una, y "no es" exige que ninguna coincida.
+ */
+function matchesSomeRow(
+  product: MeliProduct,
+  operator: FilterOperator,
+  matches: (row: CatalogRow, operator: FilterOperator) => boolean
+): boolean {
+  const rows = toCatalogRows([product]);
+  return operator === 'neq'
+    ? !rows.some((row) => matches(row, 'eq'))
+    : rows.some((row) => matches(row, operator));
+}
+
+function matchesCondition(condition: FilterCondition, product: MeliProduct, context: FilterContext): boolean {
+  const { operator, value } = condition;
+
+  switch (condition.field) {
+    case 'status':
+      return compare(product.status, operator, value);
+    case 'fulfillment':
+      return compare(getFulfillmentKey(product.shipping), operator, value);
+    case 'listing_type':
+      return compare(product.listing_type_id ?? '', operator, value);
+    case 'free_shipping':
+      return compare(String(product.shipping.free_shipping), operator, value);
+    case 'has_sku': {
+      // Con variaciones, tiene SKU si todas las variaciones lo tienen
+      const hasSku = toCatalogRows([product]).every((row) =>
+        Boolean(row.variation ? row.variation.seller_sku : row.product.seller_sku)
+      );
+      return compare(String(hasSku), operator, value);
+    }
+    case 'stock_status':
+      return matchesSomeRow(product, operator, (row, rowOperator) =>
+        compare(getStockLevel(context.stockRules, row.product, row.variation), rowOperator, value)
+      );
+    case 'price':
+      return matchesSomeRow(product, operator, (row, rowOperator) => compare(rowPrice(row), rowOperator, Number(value)));
+    case 'stock':
+      return matchesSomeRow(product, operator, (row, rowOperator) => compare(rowStock(row), rowOperator, Number(value)));
+    case 'last_updated':
+      // Se compara sólo la fecha (AAAA-MM-DD), así "hasta" incluye todo el día
+      return compare(product.last_updated.slice(0, 10), operator, value);
+  }
+}
+
+/**
+ * Evalúa el filtro sobre una publicación. Un grupo sin condiciones
+ * completas no filtra nada.
+ */
+export function matchesFilter(group: FilterGroup, product: MeliProduct, context: FilterContext): boolean {
+  const active = group.conditions.filter((node) => (isFilterGroup(node) ? countConditions(node) > 0 : isComplete(node)));
+  if (active.length === 0) return true;
+
+  const test = (node: FilterNode) => isFilterGroup(node)
+    ? matchesFilter(node, product, context)
+    : matchesCondition(node, product, context);
+
+  return group.combinator === 'and' ? active.every(test) : active.some(test);
+}
+
+function encodeValue(value: string): string {
+  return encodeURIComponent(value).replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/**
+ * Serializa el filtro en un texto compacto para la URL, por ejemplo
+ * `and(status.eq.active,or(stock.lte.5,price.gte.1000))`.
+ */
+export function serializeFilter(group: FilterGroup): string {
+  const nodes = group.conditions.map((node) => isFilterGroup(node)
+    ? serializeFilter(node)
+    : `${node.field}.${node.operator}.${encodeValue(node.value)}`);
+  return `${group.combinator}(${nodes.join(',')})`;
+}
+
+/**
+ * Inverso de serializeFilter. Devuelve null si el texto no es un filtro
+ * válido (por ejemplo, una URL editada a mano).
+ */
+export function parseFilter(text: string): FilterGroup | null {
+  let position = 0;
+
+  const parseGroup = (): FilterGroup | null => {
+    const match = /^(and|or)\(/.exec(text.slice(position));
+    if (!match) return null;
+    position += match[0].length;
+
+    const group: FilterGroup = { combinator: match[1] as FilterCombinator, conditions: [] };
+    while (text[position] !== ')') {
+      const node = /^(and|or)\(/.test(text.slice(position)) ? parseGroup() : parseCondition();
+      if (!node) return null;
+      group.conditions.push(node);
+
+      if (text[position] === ',') {
+        position++;
+      } else if (text[position] !== ')') {
+        return null;
+      }
+    }
+    position++;
+    return group;
+  };
+
+  const parseCondition = (): FilterCondition | null => {
+    const match = /^([a-z_]+)\.([a-z]+)\.([^,()]*)/.exec(text.slice(position));
+    if (!match) return null;
+
+    const [token, field, operator, value] = match;
+    if (!isFilterField(field) || !operatorsFor(field).includes(operator as FilterOperator)) {
+      return null;
+    }
+
+    position += token.length;
+    try {
+      return { field, operator: operator as FilterOperator, value: decodeURIComponent(value) };
+    } catch {
+      return null;
+    }
+  };
+
+  const group = parseGroup();
+  return group && position === text.length ? group : null;
+}
+
+/**
+ * Valida un filtro recibido del cliente. Devuelve los errores encontrados.
+ */
+export function validateFilter(input: unknown, nested = false): string[] {
+  const { combinator, conditions } = asRecord(input);
+  if (combinator !== 'and' && combinator !== 'or') {
+    return ['Combinación de filtros inválida'];
+  }
+  if (!Array.isArray(conditions)) {
+    return ['Las condiciones del filtro deben ser una lista'];
+  }
+
+  return conditions.flatMap((node: unknown): string[] => {
+    if (isRecord(node) && 'conditions' in node) {
+      return nested ? ['Los grupos de filtros no se pueden anidar más de un nivel'] : validateFilter(node, true);
+    }
+    const { field, operator, value } = asRecord(node);
+    if (!isFilterField(field) || !operatorsFor(field).includes(operator as FilterOperator)) {
+      return ['Condición de filtro inválida'];
+    }
+    if (typeof value !== 'string' || /[()]/.test(value)) {
+      return ['Valor de filtro inválido'];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,20 @@
+import { MeliSite } from './meli/sites';
+
+export function formatPrice(price: number, site: MeliSite, currencyId?: string): string {
+  return new Intl.NumberFormat(site.locale, {
+    style: 'currency',
+    currency: currencyId || site.currency,
+    minimumFractionDigits: Number.isInteger(price) ? 0 : undefined,
+  }).format(price);
+}
+
+export function formatDate(dateString: string, site: MeliSite): string {
+  const date = new Date(dateString);
+  return date.toLocaleString(site.locale, {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
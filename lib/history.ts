@@ -0,0 +1,147 @@
+import type { MeliProduct } from '@/types/product';
+import type { Snapshot, SnapshotItem, SnapshotSummary } from './store/snapshots';
+
+export type ChangeKind =
+  | 'added'
+  | 'removed'
+  | 'repriced'
+  | 'restocked'
+  | 'stock_decreased'
+  | 'paused'
+  | 'status_changed';
+
+export interface SnapshotChange {
+  kind: ChangeKind;
+  id: string;
+  title: string;
+  sku: string | null;
+  currency_id: string;
+  before: number | string | null;
+  after: number | string | null;
+}
+
+export interface HistoryPoint {
+  takenAt: string;
+  price: number;
+  available_quantity: number;
+  status: string;
+}
+
+// Retención de fotos: la última de cada día y como mucho esta cantidad de días
+export const MAX_SNAPSHOT_DAYS = 90;
+
+export const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: 'Nueva',
+  removed: 'Eliminada',
+  repriced: 'Cambio de precio',
+  restocked: 'Reposición de stock',
+  stock_decreased: 'Baja de stock',
+  paused: 'Pausada',
+  status_changed: 'Cambio de estado',
+};
+
+export function toSnapshotItem(product: MeliProduct): SnapshotItem {
+  return {
+    id: product.id,
+    title: product.title,
+    sku: product.seller_sku,
+    price: product.price,
+    currency_id: product.currency_id,
+    available_quantity: product.available_quantity,
+    status: product.status,
+  };
+}
+
+/**
+ * Compara dos fotos del catálogo y devuelve un cambio por cada diferencia
+ * de existencia, precio, stock o estado. Un item puede generar varios.
+ */
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotChange[] {
+  const before = new Map(from.items.map((item) => [item.id, item]));
+  const after = new Map(to.items.map((item) => [item.id, item]));
+  const changes: SnapshotChange[] = [];
+
+  const change = (
+    kind: ChangeKind,
+    item: SnapshotItem,
+    previous: SnapshotChange['before'],
+    current: SnapshotChange['after']
+  ) => {
+    changes.push({
+      kind,
+      id: item.id,
+      title: item.title,
+      sku: item.sku,
+      currency_id: item.currency_id,
+      before: previous,
+      after: current,
+    });
+  };
+
+  for (const item of to.items) {
+    const old = before.get(item.id);
+
+    if (!old) {
+      change('added', item, null, null);
+      continue;
+    }
+
+    if (old.price !== item.price) {
+      change('repriced', item, old.price, item.price);
+    }
+
+    if (item.available_quantity > old.available_quantity) {
+      change('restocked', item, old.available_quantity, item.available_quantity);
+    } else if (item.available_quantity < old.available_quantity) {
+      change('stock_decreased', item, old.available_quantity, item.available_quantity);
+    }
+
+    if (old.status !== item.status) {
+      change(item.status === 'paused' ? 'paused' : 'status_changed', item, old.status, item.status);
+    }
+  }
+
+  for (const item of from.items) {
+    if (!after.has(item.id)) {
+      change('removed', item, null, null);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Evolución de un item a lo largo de las fotos, ordenada por fecha. Las
+ * fotos en las que el item no existía se omiten.
+ */
+export function itemHistory(snapshots: Snapshot[], itemId: string): HistoryPoint[] {
+  return snapshots
+    .map((snapshot) => {
+      const item = snapshot.items.find((i) => i.id === itemId);
+      return item && {
+        takenAt: snapshot.takenAt,
+        price: item.price,
+        available_quantity: item.available_quantity,
+        status: item.status,
+      };
+    })
+    .filter((point): point is HistoryPoint => Boolean(point))
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+}
+
+/**
+ * Fotos que quedan después de aplicar la retención: la última de cada día
+ * (UTC) de los últimos `maxDays` días con fotos, ordenadas por fecha.
+ */
+export function retainedSnapshots(
+  summaries: SnapshotSummary[],
+  maxDays = MAX_SNAPSHOT_DAYS
+): SnapshotSummary[] {
+  const byDay = new Map<string, SnapshotSummary>();
+
+  [...summaries]
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt))
+    .forEach((summary) => byDay.set(summary.takenAt.slice(0, 10), summary));
+
+  return Array.from(byDay.values()).slice(-maxDays);
+}
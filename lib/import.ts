@@ -0,0 +1,214 @@
+import * as XLSX from 'xlsx';
+import type { MeliProduct } from '@/types/product';
+import { BulkField, FIELD_LABELS, ItemUpdate, validateUpdate } from './bulk-edit';
+import { unescapeCsvCell } from './export';
+import { CatalogRow, rowPrice, rowStock, variationLabel } from './variations';
+
+export type ImportRowStatus = 'change' | 'unchanged' | 'error' | 'unmatched';
+
+export interface ImportFieldChange {
+  field: BulkField;
+  before: number;
+  after: number;
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  status: ImportRowStatus;
+  id: string | null;
+  variation_id: number | null;
+  variation: string | null;
+  title: string | null;
+  currency_id: string | null;
+  changes: ImportFieldChange[];
+  errors: string[];
+  raw: Record<string, unknown>;
+}
+
+// Encabezados aceptados para cada columna, ya normalizados
+const COLUMN_ALIASES = {
+  id: ['id', 'item id', 'publicacion'],
+  variation_id: ['id variacion', 'variation id'],
+  sku: ['sku', 'seller sku'],
+  price: ['precio', 'price'],
+  available_quantity: ['stock', 'cantidad', 'available quantity'],
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[_-]/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function pickColumn(row: Record<string, unknown>, aliases: string[]): unknown {
+  const key = Object.keys(row).find((header) => aliases.includes(normalizeHeader(header)));
+  return key === undefined ? undefined : row[key];
+}
+
+/**
+ * Convierte un valor de celda a número. Acepta números y textos con formato
+ * local ("1.234,50"). Devuelve undefined si la celda está vacía y NaN si no
+ * se puede interpretar.
+ */
+export function parseNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number') return value;
+
+  const text = String(value).replace(/[\s$]/g, '');
+  if (text === '') return undefined;
+
+  if (/^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(text)) {
+    return Number(text.replace(/\./g, '').replace(',', '.'));
+  }
+
+  return Number(text.replace(',', '.'));
+}
+
+/**
+ * Lee la primera hoja de un .xlsx o .csv como filas de objetos indexadas
+ * por encabezado.
+ */
+export function parseSpreadsheet(data: ArrayBuffer): Record<string, unknown>[] {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return sheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' }) : [];
+}
+
+/**
+ * Cruza las filas importadas con el catálogo, por ID de publicación (y de
+ * variación) o, si no hay ID, por SKU de la publicación o de la variación.
+ * Cada fila queda como cambio, sin cambios, error o sin coincidencia.
+ */
+export function analyzeImport(
+  rows: Record<string, unknown>[],
+  products: MeliProduct[]
+): ImportRowResult[] {
+  const byId = new Map(products.map((product) => [product.id, product]));
+  const bySku = new Map<string, CatalogRow[]>();
+  const indexSku = (sku: string | null, row: CatalogRow) => {
+    if (!sku) return;
+    const key = sku.trim().toLowerCase();
+    bySku.set(key, [...(bySku.get(key) ?? []), row]);
+  };
+  products.forEach((product) => {
+    if (product.variations.length === 0) {
+      indexSku(product.seller_sku, { product, variation: null });
+    }
+    product.variations.forEach((variation) => indexSku(variation.seller_sku, { product, variation }));
+  });
+
+  const seen = new Set<string>();
+
+  return rows.map((raw, index) => {
+    // +2: la fila 1 es el encabezado y las filas de la planilla empiezan en 1
+    const rowNumber = index + 2;
+    const result: ImportRowResult = {
+      rowNumber,
+      status: 'unmatched',
+      id: null,
+      variation_id: null,
+      variation: null,
+      title: null,
+      currency_id: null,
+      changes: [],
+      errors: [],
+      raw,
+    };
+
+    const id = String(pickColumn(raw, COLUMN_ALIASES.id) ?? '').trim();
+    const variationId = String(pickColumn(raw, COLUMN_ALIASES.variation_id) ?? '').trim();
+    const sku = unescapeCsvCell(String(pickColumn(raw, COLUMN_ALIASES.sku) ?? '').trim());
+    const skuMatches = sku && sku !== '-' ? bySku.get(sku.toLowerCase()) ?? [] : [];
+
+    let match: CatalogRow | undefined;
+    if (id) {
+      const product = byId.get(id);
+      if (product && product.variations.length === 0) {
+        match = { product, variation: null };
+      } else if (product) {
+        // Publicación con variaciones: se identifica por ID de variación o por SKU
+        const variation = variationId
+          ? product.variations.find((v) => String(v.id) === variationId)
+          : skuMatches.find((row) => row.product.id === id)?.variation ?? undefined;
+        if (!variation) {
+          result.id = product.id;
+          result.title = product.title;
+          result.status = 'error';
+          result.errors.push('La publicación tiene variaciones: indicá el ID de variación o su SKU');
+          return result;
+        }
+        match = { product, variation };
+      }
+    } else if (skuMatches.length > 1) {
+      result.status = 'error';
+      result.errors.push(`El SKU ${sku} corresponde a ${skuMatches.length} publicaciones o variaciones`);
+      return result;
+    } else {
+      match = skuMatches[0];
+    }
+
+    if (!match) {
+      return result;
+    }
+
+    const { product, variation } = match;
+    result.id = product.id;
+    result.variation_id = variation?.id ?? null;
+    result.variation = variation && variationLabel(variation);
+    result.title = product.title;
+    result.currency_id = product.currency_id;
+
+    const key = `${product.id}:${variation?.id ?? ''}`;
+    if (seen.has(key)) {
+      result.status = 'error';
+      result.errors.push('La publicación aparece más de una vez en el archivo');
+      return result;
+    }
+    seen.add(key);
+
+    const current: Record<BulkField, number> = {
+      price: rowPrice(match),
+      available_quantity: rowStock(match),
+    };
+    const update: ItemUpdate = { id: product.id };
+    const fields: BulkField[] = ['price', 'available_quantity'];
+
+    for (const field of fields) {
+      const value = parseNumber(pickColumn(raw, COLUMN_ALIASES[field]));
+      if (value === undefined) continue;
+
+      if (Number.isNaN(value)) {
+        result.errors.push(`${FIELD_LABELS[field]} no es un número`);
+      } else if (value !== current[field]) {
+        update[field] = value;
+        result.changes.push({ field, before: current[field], after: value });
+      }
+    }
+
+    if (result.changes.length > 0) {
+      result.errors.push(...validateUpdate(update));
+    }
+
+    result.status = result.errors.length > 0
+      ? 'error'
+      : result.changes.length > 0 ? 'change' : 'unchanged';
+
+    return result;
+  });
+}
+
+export function toImportUpdates(results: ImportRowResult[]): ItemUpdate[] {
+  return results
+    .filter((result) => result.status === 'change' && result.id)
+    .map((result) => {
+      const update: ItemUpdate = { id: result.id! };
+      if (result.variation_id) {
+        update.variation_id = result.variation_id;
+      }
+      result.changes.forEach((change) => { update[change.field] = change.after; });
+      return update;
+    });
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { MeliProduct } from '@/types/product';
+import { EMPTY_FILTER, matchesFilter } from './filters';
+import { Kpi, computeInventoryKpis, isKpiActive, kpiFilter } from './inventory-kpis';
+import { DEFAULT_STOCK_RULES, StockRules } from './stock-rules';
+import { productFixture } from './test-fixtures';
+
+const PRODUCTS: MeliProduct[] = [
+  // Full y sin stock
+  productFixture({
+    id: 'MLA1',
+    available_quantity: 0,
+    shipping: { mode: 'me2', free_shipping: true, logistic_type: 'fulfillment' },
+  }),
+  // Stock bajo con el umbral por defecto y sin SKU
+  productFixture({ id: 'MLA2', available_quantity: 3, price: 10, seller_sku: null }),
+  // Pausada, Flex, en dólares, con una variación con stock bajo y sin SKU
+  productFixture({
+    id: 'MLA3',
+    status: 'paused',
+    available_quantity: 12,
+    price: 20,
+    currency_id: 'USD',
+    seller_sku: null,
+    shipping: { mode: 'me2', free_shipping: false, logistic_type: 'xd_drop_off' },
+    variations: [
+      { id: 1, attribute_combinations: [], seller_sku: 'MLA3-ROJO', available_quantity: 10, price: 20 },
+      { id: 2, attribute_combinations: [], seller_sku: null, available_quantity: 2, price: 25 },
+    ],
+  }),
+  // Sin Mercado Envíos: su regla de publicación la deja con stock bajo
+  productFixture({
+    id: 'MLA4',
+    available_quantity: 50,
+    price: 5,
+    shipping: { mode: 'not_specified', free_shipping: false, logistic_type: null },
+  }),
+];
+
+const STOCK_RULES: StockRules = {
+  defaultThreshold: 5,
+  rules: [{ id: 'r1', scope: 'listing', match: 'MLA4', threshold: 100 }],
+};
+
+const ALL_VIEW = { searchTerm: '', fulfillmentFilter: 'todos', stockFilter: 'todos' as const, filter: EMPTY_FILTER };
+
+describe('computeInventoryKpis', () => {
+  it('cuenta por estado, fulfillment, nivel de stock y SKU', () => {
+    const kpis = computeInventoryKpis(PRODUCTS, STOCK_RULES);
+
+    expect(kpis.total).toBe(4);
+    expect(kpis.byStatus).toEqual({ active: 3, paused: 1 });
+    expect(kpis.byFulfillment).toEqual({ full: 1, flex: 1, me: 1, normal: 1 });
+    expect(kpis.outOfStock).toBe(1);
+    expect(kpis.lowStock).toBe(3);
+    expect(kpis.missingSku).toBe(2);
+  });
+
+  it('suma unidades y valor del inventario por moneda usando el precio de cada variación', () => {
+    const kpis = computeInventoryKpis(PRODUCTS, STOCK_RULES);
+
+    expect(kpis.inStock).toBe(3);
+    expect(kpis.units).toBe(3 + 12 + 50);
+    expect(kpis.inventoryValue).toEqual({ ARS: 3 * 10 + 50 * 5, USD: 10 * 20 + 2 * 25 });
+  });
+
+  it('aplica las reglas de stock', () => {
+    expect(computeInventoryKpis(PRODUCTS, DEFAULT_STOCK_RULES).lowStock).toBe(2);
+  });
+
+  it('devuelve todo en cero sin publicaciones', () => {
+    expect(computeInventoryKpis([], STOCK_RULES)).toEqual({
+      total: 0,
+      byStatus: {},
+      byFulfillment: { full: 0, flex: 0, me: 0, normal: 0 },
+      outOfStock: 0,
+      lowStock: 0,
+      missingSku: 0,
+      inStock: 0,
+      units: 0,
+      inventoryValue: {},
+    });
+  });
+});
+
+describe('kpiFilter', () => {
+  const context = { stockRules: STOCK_RULES };
+  const count = (kpi: Kpi) => PRODUCTS.filter((p) => matchesFilter(kpiFilter(kpi).filter, p, context)).length;
+
+  it('filtra exactamente las publicaciones contadas en cada indicador', () => {
+    const kpis = computeInventoryKpis(PRODUCTS, STOCK_RULES);
+
+    expect(count({ kind: 'status', status: 'paused' })).toBe(kpis.byStatus.paused);
+    expect(count({ kind: 'fulfillment', fulfillment: 'full' })).toBe(kpis.byFulfillment.full);
+    expect(count({ kind: 'missing_sku' })).toBe(kpis.missingSku);
+    expect(count({ kind: 'in_stock' })).toBe(kpis.inStock);
+  });
+
+  it('usa el filtro de stock de la tabla para los niveles de stock', () => {
+    expect(kpiFilter({ kind: 'stock_level', level: 'sin_stock' })).toEqual({
+      stockFilter: 'sin_stock',
+      filter: EMPTY_FILTER,
+    });
+  });
+
+  it('no filtra por stock en los demás indicadores', () => {
+    expect(kpiFilter({ kind: 'status', status: 'active' }).stockFilter).toBe('todos');
+    expect(kpiFilter({ kind: 'in_stock' }).stockFilter).toBe('todos');
+  });
+});
+
+describe('isKpiActive', () => {
+  it('está activo cuando la tabla muestra justo el filtro del indicador', () => {
+    const kpi: Kpi = { kind: 'fulfillment', fulfillment: 'flex' };
+    expect(isKpiActive(kpi, { ...ALL_VIEW, ...kpiFilter(kpi) })).toBe(true);
+    expect(isKpiActive({ kind: 'stock_level', level: 'bajo' }, { ...ALL_VIEW, stockFilter: 'bajo' })).toBe(true);
+  });
+
+  it('ignora los espacios de una búsqueda vacía', () => {
+    const kpi: Kpi = { kind: 'missing_sku' };
+    expect(isKpiActive(kpi, { ...ALL_VIEW, ...kpiFilter(kpi), searchTerm: '  ' })).toBe(true);
+  });
+
+  it('no está activo con una búsqueda, otro fulfillment u otro filtro', () => {
+    const kpi: Kpi = { kind: 'status', status: 'active' };
+    const view = { ...ALL_VIEW, ...kpiFilter(kpi) };
+
+    expect(isKpiActive(kpi, { ...view, searchTerm: 'remera' })).toBe(false);
+    expect(isKpiActive(kpi, { ...view, fulfillmentFilter: 'full' })).toBe(false);
+    expect(isKpiActive(kpi, { ...view, stockFilter: 'bajo' })).toBe(false);
+    expect(isKpiActive({ kind: 'status', status: 'paused' }, view)).toBe(false);
+    expect(isKpiActive(kpi, ALL_VIEW)).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import type { MeliProduct } from '@/types/product';
+import { EMPTY_FILTER, FilterCondition, FilterGroup, matchesFilter, serializeFilter } from './filters';
+import { FulfillmentKey, getFulfillmentKey } from './products';
+import { StockLevel, StockRules } from './stock-rules';
+import { stockValue } from './table-columns';
+
+/**
+ * Indicador del panel de resumen. Cada uno corresponde a un filtro de la
+ * tabla (ver kpiFilter), así al hacer clic la tabla muestra exactamente las
+ * publicaciones contadas.
+ */
+export type Kpi =
+  | { kind: 'status'; status: string }
+  | { kind: 'fulfillment'; fulfillment: FulfillmentKey }
+  | { kind: 'stock_level'; level: Exclude<StockLevel, 'normal'> }
+  | { kind: 'missing_sku' }
+  // Unidades y valor del inventario: las publicaciones con stock
+  | { kind: 'in_stock' };
+
+export interface InventoryKpis {
+  total: number;
+  byStatus: Record<string, number>;
+  byFulfillment: Record<FulfillmentKey, number>;
+  outOfStock: number;
+  lowStock: number;
+  missingSku: number;
+  // Publicaciones con stock, sus unidades y su valor (precio × stock) por moneda
+  inStock: number;
+  units: number;
+  inventoryValue: Record<string, number>;
+}
+
+/**
+ * Filtro de la tabla que corresponde al indicador. Reemplaza la búsqueda y
+ * los demás filtros.
+ */
+export interface KpiFilter {
+  stockFilter: StockLevel | 'todos';
+  filter: FilterGroup;
+}
+
+function condition(field: FilterCondition['field'], value: string, operator: FilterCondition['operator'] = 'eq'): FilterGroup {
+  return { combinator: 'and', conditions: [{ field, operator, value }] };
+}
+
+export function kpiFilter(kpi: Kpi): KpiFilter {
+  switch (kpi.kind) {
+    case 'status':
+      return { stockFilter: 'todos', filter: condition('status', kpi.status) };
+    case 'fulfillment':
+      return { stockFilter: 'todos', filter: condition('fulfillment', kpi.fulfillment) };
+    case 'stock_level':
+      return { stockFilter: kpi.level, filter: EMPTY_FILTER };
+    case 'missing_sku':
+      return { stockFilter: 'todos', filter: condition('has_sku', 'false') };
+    case 'in_stock':
+      return { stockFilter: 'todos', filter: condition('stock', '1', 'gte') };
+  }
+}
+
+/**
+ * Si la tabla está mostrando justo el filtro del indicador.
+ */
+export function isKpiActive(
+  kpi: Kpi,
+  view: { searchTerm: string; fulfillmentFilter: string; stockFilter: StockLevel | 'todos'; filter: FilterGroup }
+): boolean {
+  const expected = kpiFilter(kpi);
+  return !view.searchTerm.trim() &&
+    view.fulfillmentFilter === 'todos' &&
+    view.stockFilter === expected.stockFilter &&
+    serializeFilter(view.filter) === serializeFilter(expected.filter);
+}
+
+/**
+ * Calcula los indicadores del catálogo. Usa las mismas reglas que los
+ * filtros: una publicación con variaciones cuenta como sin stock o con stock
+ * bajo si alguna variación lo está, y como sin SKU si a alguna le falta.
+ */
+export function computeInventoryKpis(products: MeliProduct[], stockRules: StockRules): InventoryKpis {
+  const context = { stockRules };
+  const kpis: InventoryKpis = {
+    total: products.length,
+    byStatus: {},
+    byFulfillment: { full: 0, flex: 0, me: 0, normal: 0 },
+    outOfStock: 0,
+    lowStock: 0,
+    missingSku: 0,
+    inStock: 0,
+    units: 0,
+    inventoryValue: {},
+  };
+
+  const outOfStock = condition('stock_status', 'sin_stock');
+  const lowStock = condition('stock_status', 'bajo');
+  const missingSku = kpiFilter({ kind: 'missing_sku' }).filter;
+
+  for (const product of products) {
+    kpis.byStatus[product.status] = (kpis.byStatus[product.status] ?? 0) + 1;
+    kpis.byFulfillment[getFulfillmentKey(product.shipping)]++;
+
+    if (matchesFilter(outOfStock, product, context)) kpis.outOfStock++;
+    if (matchesFilter(lowStock, product, context)) kpis.lowStock++;
+    if (matchesFilter(missingSku, product, context)) kpis.missingSku++;
+
+    if (product.available_quantity > 0) {
+      kpis.inStock++;
+      kpis.units += product.available_quantity;
+      kpis.inventoryValue[product.currency_id] = (kpis.inventoryValue[product.currency_id] ?? 0) + stockValue(product);
+    }
+  }
+
+  return kpis;
+}
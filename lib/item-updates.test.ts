@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyItemUpdates } from './item-updates';
+import type { MeliClient } from './meli/client';
+import { MemoryAuditRepository } from './store/audit';
+import { MemoryCatalogRepository, StoredCatalog } from './store/catalog';
+import { productFixture } from './test-fixtures';
+
+const SELLER_ID = 123;
+const USER = { id: 'owner', name: 'Dueño' };
+
+function storedCatalog(): StoredCatalog {
+  return {
+    sellerId: SELLER_ID,
+    siteId: 'MLA',
+    syncedAt: '2026-01-01T00:00:00.000Z',
+    items: [productFixture({ id: 'MLA1' }), productFixture({ id: 'MLA2' })],
+  };
+}
+
+describe('applyItemUpdates', () => {
+  it('no pisa los cambios guardados mientras se enviaban los PUT', async () => {
+    const repository = new MemoryCatalogRepository([storedCatalog()]);
+    // Una notificación actualiza MLA2 mientras se edita MLA1
+    const updateItem = vi.fn(async () => {
+      const current = (await repository.load(SELLER_ID))!;
+      await repository.save({
+        ...current,
+        items: current.items.map((item) => item.id === 'MLA2' ? { ...item, price: 999 } : item),
+      });
+    });
+
+    const results = await applyItemUpdates(SELLER_ID, [{ id: 'MLA1', price: 150 }], {
+      dryRun: false,
+      client: { updateItem } as unknown as MeliClient,
+      user: USER,
+      repository,
+      audit: new MemoryAuditRepository(),
+    });
+
+    expect(results).toEqual([{ id: 'MLA1', variation_id: undefined, status: 'updated', errors: [] }]);
+    const saved = await repository.load(SELLER_ID);
+    expect(saved?.items.map((item) => [item.id, item.price])).toEqual([['MLA1', 150], ['MLA2', 999]]);
+  });
+
+  it('con dryRun sólo valida', async () => {
+    const repository = new MemoryCatalogRepository([storedCatalog()]);
+    const updateItem = vi.fn();
+
+    const results = await applyItemUpdates(SELLER_ID, [{ id: 'MLA1', price: 150 }, { id: 'MLA9', price: 10 }], {
+      dryRun: true,
+      client: { updateItem } as unknown as MeliClient,
+      user: USER,
+      repository,
+      audit: new MemoryAuditRepository(),
+    });
+
+    expect(results.map((result) => result.status)).toEqual(['valid', 'invalid']);
+    expect(updateItem).not.toHaveBeenCalled();
+    expect((await repository.load(SELLER_ID))?.items[0].price).toBe(100);
+  });
+});
@@ -0,0 +1,167 @@
+import type { MeliProduct } from '@/types/product';
+import { AuditEntry, auditEntriesFor } from './audit';
+import { BulkResult, ItemUpdate, validateUpdate } from './bulk-edit';
+import { publishCatalogChanges } from './catalog-events';
+import { ItemChanges, MeliClient } from './meli/client';
+import { getRateLimiter } from './rate-limit';
+import { AuditRepository, getAuditRepository } from './store/audit';
+import { CatalogRepository, getCatalogRepository, updateCatalog } from './store/catalog';
+
+// Margen holgado respecto del límite de la API para escrituras
+const WRITE_INTERVAL_MS = 250;
+
+export interface ApplyOptions {
+  dryRun: boolean;
+  client: MeliClient;
+  // Quién hace el cambio, para la auditoría
+  user: { id: string; name: string };
+  repository?: CatalogRepository;
+  audit?: AuditRepository;
+}
+
+function validateAgainstItem(update: ItemUpdate, item: MeliProduct | undefined): string[] {
+  const errors = validateUpdate(update);
+
+  if (!item) {
+    errors.push('La publicación no pertenece a esta cuenta');
+  } else if (update.variation_id !== undefined) {
+    if (!item.variations.some((variation) => variation.id === update.variation_id)) {
+      errors.push(`La variación ${update.variation_id} no existe en la publicación`);
+    }
+  } else if (item.variations.length > 0) {
+    errors.push('La publicación tiene variaciones: el cambio debe indicar la variación');
+  }
+
+  return errors;
+}
+
+function buildChanges(item: MeliProduct, updates: ItemUpdate[]): ItemChanges {
+  if (item.variations.length === 0) {
+    const [update] = updates;
+    return { price: update.price, available_quantity: update.available_quantity };
+  }
+
+  return {
+    variations: item.variations.map((variation) => {
+      const update = updates.find((u) => u.variation_id === variation.id);
+      return update
+        ? { id: variation.id, price: update.price, available_quantity: update.available_quantity }
+        : { id: variation.id };
+    }),
+  };
+}
+
+function applyToItem(item: MeliProduct, updates: ItemUpdate[]): MeliProduct {
+  if (item.variations.length === 0) {
+    const [update] = updates;
+    return {
+      ...item,
+      price: update.price ?? item.price,
+      available_quantity: update.available_quantity ?? item.available_quantity,
+    };
+  }
+
+  const variations = item.variations.map((variation) => {
+    const update = updates.find((u) => u.variation_id === variation.id);
+    return update
+      ? {
+        ...variation,
+        price: update.price ?? variation.price,
+        available_quantity: update.available_quantity ?? variation.available_quantity,
+      }
+      : variation;
+  });
+
+  return {
+    ...item,
+    variations,
+    available_quantity: variations.reduce((sum, variation) => sum + variation.available_quantity, 0),
+  };
+}
+
+/**
+ * Valida y aplica cambios de precio y stock a publicaciones del vendedor.
+ * Los cambios de variaciones de una misma publicación se envían juntos.
+ * Con dryRun sólo valida. Los cambios aplicados se reflejan también en el
+ * catálogo guardado y quedan en la auditoría.
+ */
+export async function applyItemUpdates(
+  sellerId: number,
+  updates: ItemUpdate[],
+  { dryRun, client, user, repository = getCatalogRepository(), audit = getAuditRepository() }: ApplyOptions
+): Promise<BulkResult[]> {
+  const catalog = await repository.load(sellerId);
+  const items = new Map((catalog?.items ?? []).map((item) => [item.id, item]));
+  const limiter = getRateLimiter(`writes:${sellerId}`, WRITE_INTERVAL_MS);
+
+  const results = new Map<ItemUpdate, BulkResult>();
+  const auditEntries: AuditEntry[] = [];
+  const groups = new Map<string, ItemUpdate[]>();
+  // Grupos que Mercado Libre aceptó, para reflejarlos en el catálogo guardado
+  const applied = new Map<string, ItemUpdate[]>();
+  const seen = new Set<string>();
+
+  for (const update of updates) {
+    const errors = validateAgainstItem(update, items.get(update.id));
+    const key = `${update.id}:${update.variation_id ?? ''}`;
+
+    if (seen.has(key)) {
+      errors.push('El cambio está repetido');
+    }
+    seen.add(key);
+
+    if (errors.length > 0) {
+      results.set(update, { id: update.id, variation_id: update.variation_id, status: 'invalid', errors });
+    } else if (dryRun) {
+      results.set(update, { id: update.id, variation_id: update.variation_id, status: 'valid', errors: [] });
+    } else {
+      groups.set(update.id, [...(groups.get(update.id) ?? []), update]);
+    }
+  }
+
+  await Promise.all(Array.from(groups.entries()).map(async ([id, group]) => {
+    const item = items.get(id)!;
+    let status: BulkResult['status'] = 'updated';
+    let errors: string[] = [];
+
+    try {
+      await limiter.schedule(() => client.updateItem(id, buildChanges(item, group)));
+      applied.set(id, group);
+      auditEntries.push(...auditEntriesFor(item, group, user, new Date().toISOString()));
+    } catch (error) {
+      status = 'error';
+      errors = [error instanceof Error ? error.message : 'Error desconocido'];
+    }
+
+    group.forEach((update) => {
+      results.set(update, { id, variation_id: update.variation_id, status, errors });
+    });
+  }));
+
+  // Ordenadas por hora: los grupos terminan en cualquier orden
+  await audit.append(sellerId, auditEntries.sort((a, b) => a.at.localeCompare(b.at)));
+
+  // Los PUT pueden tardar: el catálogo se vuelve a leer para no pisar una
+  // sync o una notificación que haya terminado mientras tanto
+  if (applied.size > 0) {
+    let before: MeliProduct[] = [];
+    const saved = await updateCatalog(sellerId, (current) => {
+      if (!current) return null;
+
+      before = current.items;
+      return {
+        ...current,
+        items: current.items.map((item) => {
+          const group = applied.get(item.id);
+          return group ? applyToItem(item, group) : item;
+        }),
+      };
+    }, repository);
+
+    if (saved) {
+      publishCatalogChanges(sellerId, before, saved.items);
+    }
+  }
+
+  return updates.map((update) => results.get(update)!);
+}
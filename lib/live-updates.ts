@@ -0,0 +1,37 @@
+import type { MeliProduct } from '@/types/product';
+
+/**
+ * Tipos y utilidades de las actualizaciones en vivo compartidos entre el
+ * servidor (lib/catalog-events.ts) y el dashboard.
+ */
+export type ChangedField = 'stock' | 'price' | 'status';
+
+export interface CatalogChangeEvent {
+  // Secuencia creciente: el cliente la usa para pedir lo que se perdió
+  seq: number;
+  fields: ChangedField[];
+  item: MeliProduct;
+}
+
+export type LiveStatus = 'connecting' | 'live' | 'polling' | 'offline';
+
+export const LIVE_STATUS_LABELS: Record<LiveStatus, { label: string; color: string }> = {
+  connecting: { label: 'Conectando...', color: 'bg-gray-400' },
+  live: { label: 'En vivo', color: 'bg-green-500' },
+  polling: { label: 'Actualizando cada 30 s', color: 'bg-yellow-500' },
+  offline: { label: 'Sin conexión', color: 'bg-red-500' },
+};
+
+/**
+ * Reemplaza en la lista los items que llegaron en los eventos, manteniendo el
+ * orden. Los items nuevos se agregan al final.
+ */
+export function applyChangeEvents(products: MeliProduct[], events: CatalogChangeEvent[]): MeliProduct[] {
+  const updated = new Map(events.map((event) => [event.item.id, event.item]));
+  const patched = products.map((product) => {
+    const item = updated.get(product.id);
+    updated.delete(product.id);
+    return item ?? product;
+  });
+  return [...patched, ...Array.from(updated.values())];
+}
@@ -0,0 +1,304 @@
+import { randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { ALL_ACCOUNTS, LinkedAccount, addLinkedAccount } from '../accounts';
+import { SESSION_COOKIE, SESSION_MAX_AGE } from '../session';
+import { Session, getSessionRepository, hashSessionId } from '../store/sessions';
+import { getTeamRepository } from '../store/team';
+import { getTokenRepository } from '../store/tokens';
+import { OWNER_USER_ID, ROLE_LABELS, Role, SessionUser, hasRole } from '../team';
+import { MeliApiError, MeliAuthError, MeliClient, MeliTokens } from './client';
+import { MeliSite, getSite } from './sites';
+
+export { MeliAuthError } from './client';
+export type { MeliTokens } from './client';
+
+// Cookies de cuando los tokens se guardaban en el navegador. Se borran al
+// iniciar y al cerrar sesión.
+const LEGACY_COOKIES = ['meli_access_token', 'meli_refresh_token', 'meli_user_id', 'meli_site', 'meli_accounts'];
+
+const ACCESS_TOKEN_MAX_AGE = 60 * 60 * 6;
+
+// Cuánto tiempo reutilizamos un refresh ya resuelto. Los refresh tokens de
+// Mercado Libre son de un solo uso, así que los requests paralelos que reciban
+// 401 con el mismo token tienen que compartir el resultado.
+const REFRESH_REUSE_MS = 60 * 1000;
+
+// Margen para renovar los tokens guardados antes de que venzan
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+type CookieWriter = Pick<ReturnType<typeof cookies>, 'set' | 'delete'>;
+
+/**
+ * El usuario de la sesión no tiene el rol que pide la acción.
+ */
+export class ForbiddenError extends Error {
+  constructor(message = 'No tenés permiso para esta acción') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+function setSessionCookie(cookieStore: CookieWriter, sessionId: string) {
+  cookieStore.set(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: SESSION_MAX_AGE,
+    path: '/',
+  });
+}
+
+export function clearSessionCookies(cookieStore: CookieWriter) {
+  cookieStore.delete(SESSION_COOKIE);
+  LEGACY_COOKIES.forEach((name) => cookieStore.delete(name));
+}
+
+/**
+ * Sesión del navegador actual, o null si no tiene o ya venció. Para los
+ * miembros del equipo toma el nombre y el rol actuales; si el miembro ya no
+ * está en el equipo la sesión deja de valer.
+ */
+async function findSession(): Promise<Session | null> {
+  const sessionId = cookies().get(SESSION_COOKIE)?.value;
+  if (!sessionId) return null;
+
+  const repository = getSessionRepository();
+  const session = await repository.load(hashSessionId(sessionId));
+  if (!session) return null;
+
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    await repository.delete(session.id);
+    return null;
+  }
+
+  if (session.user.id === OWNER_USER_ID) {
+    return session;
+  }
+
+  const member = (await getTeamRepository().load()).find((current) => current.id === session.user.id);
+  if (!member || member.sellerId !== session.sellerId) {
+    await repository.delete(session.id);
+    return null;
+  }
+
+  return { ...session, user: { id: member.id, name: member.name, role: member.role } };
+}
+
+/**
+ * Sesión del navegador actual. Lanza MeliAuthError si no hay sesión o venció.
+ */
+export async function getSession(): Promise<Session> {
+  const session = await findSession();
+
+  if (!session) {
+    throw new MeliAuthError();
+  }
+
+  return session;
+}
+
+/**
+ * Devuelve la sesión si su usuario tiene al menos el rol `role`. Lanza
+ * MeliAuthError si no hay sesión y ForbiddenError si no alcanza el rol.
+ */
+export async function requireRole(role: Role): Promise<Session> {
+  const session = await getSession();
+
+  if (!hasRole(session.user.role, role)) {
+    throw new ForbiddenError(`Hace falta el rol ${ROLE_LABELS[role].label} para esta acción`);
+  }
+
+  return session;
+}
+
+/**
+ * Devuelve el ID del vendedor logueado. Lanza MeliAuthError si no hay sesión.
+ */
+export async function getSessionUserId(): Promise<number> {
+  return (await getSession()).sellerId;
+}
+
+export async function getSessionSite(): Promise<MeliSite> {
+  return getSite((await getSession()).siteId);
+}
+
+/**
+ * Cuentas vinculadas a la sesión; siempre incluye la activa. Lanza
+ * MeliAuthError si no hay sesión.
+ */
+export async function getLinkedAccounts(): Promise<LinkedAccount[]> {
+  return (await getSession()).accounts;
+}
+
+/**
+ * Vendedores que abarca `scope`: todas las cuentas vinculadas con
+ * ALL_ACCOUNTS y si no sólo la activa. Lanza MeliAuthError si no hay sesión.
+ */
+export async function getScopeSellerIds(scope: string | null): Promise<number[]> {
+  const session = await getSession();
+
+  return scope === ALL_ACCOUNTS
+    ? session.accounts.map((account) => account.id)
+    : [session.sellerId];
+}
+
+/**
+ * Inicia sesión de `user` en `account` (los tokens de la cuenta ya tienen que
+ * estar guardados). Si el dueño ya tenía una sesión abierta en el navegador,
+ * la cuenta se suma a las vinculadas y pasa a ser la activa. El ID de la
+ * sesión cambia siempre, para que uno conocido antes del login no sirva
+ * después.
+ */
+export async function startSession(cookieStore: CookieWriter, account: LinkedAccount, user: SessionUser): Promise<void> {
+  const repository = getSessionRepository();
+  const current = await findSession();
+  const linked = current && current.user.id === OWNER_USER_ID && user.id === OWNER_USER_ID ? current.accounts : [];
+  const sessionId = randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  await repository.save({
+    id: hashSessionId(sessionId),
+    user,
+    sellerId: account.id,
+    siteId: account.siteId,
+    accounts: addLinkedAccount(linked, account),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_MAX_AGE * 1000).toISOString(),
+  });
+  if (current) {
+    await repository.delete(current.id);
+  }
+
+  clearSessionCookies(cookieStore);
+  setSessionCookie(cookieStore, sessionId);
+}
+
+/**
+ * Cierra la sesión del navegador. Con `everywhere` cierra además las demás
+ * sesiones del usuario en cualquier navegador; si es el dueño, todas las de
+ * la cuenta activa, incluidas las del equipo. Devuelve cuántas sesiones se
+ * cerraron.
+ */
+export async function endSession(cookieStore: CookieWriter, everywhere = false): Promise<number> {
+  const repository = getSessionRepository();
+  const session = await findSession();
+
+  clearSessionCookies(cookieStore);
+  if (!session) return 0;
+
+  if (everywhere) {
+    const userId = session.user.id === OWNER_USER_ID ? undefined : session.user.id;
+    return repository.deleteForSeller(session.sellerId, userId);
+  }
+
+  await repository.delete(session.id);
+  return 1;
+}
+
+/**
+ * Pasa a otra cuenta vinculada. Devuelve false si la cuenta no está vinculada
+ * o no tiene tokens guardados.
+ */
+export async function switchAccount(sellerId: number): Promise<boolean> {
+  const session = await getSession();
+  const account = session.accounts.find((current) => current.id === sellerId);
+  const stored = account ? await getTokenRepository().load(sellerId) : null;
+
+  if (!account || !stored) {
+    return false;
+  }
+
+  await getSessionRepository().save({ ...session, sellerId, siteId: account.siteId });
+  return true;
+}
+
+const pendingRefreshes = new Map<string, Promise<MeliTokens>>();
+
+async function requestTokenRefresh(refreshToken: string): Promise<MeliTokens> {
+  try {
+    return await new MeliClient().refreshTokens(refreshToken);
+  } catch (error) {
+    // Un 4xx es un refresh token vencido o ya usado; los errores de red o 5xx
+    // no invalidan la sesión
+    if (error instanceof MeliApiError && error.status >= 400 && error.status < 500) {
+      console.error('Error renovando tokens:', error.code, error.message);
+      throw new MeliAuthError('Sesión expirada');
+    }
+    throw error;
+  }
+}
+
+function refreshTokens(refreshToken: string): Promise<MeliTokens> {
+  let pending = pendingRefreshes.get(refreshToken);
+
+  if (!pending) {
+    pending = requestTokenRefresh(refreshToken);
+    pendingRefreshes.set(refreshToken, pending);
+    // Sólo se reusa un refresh exitoso: si falló, el próximo request reintenta
+    pending.then(
+      () => {
+        setTimeout(() => pendingRefreshes.delete(refreshToken), REFRESH_REUSE_MS);
+      },
+      () => {
+        pendingRefreshes.delete(refreshToken);
+      }
+    );
+  }
+
+  return pending;
+}
+
+/**
+ * Guarda los tokens del vendedor en el servidor. Las requests del navegador
+ * los usan a través de la sesión y los procesos de fondo directamente.
+ */
+export async function storeSellerTokens(tokens: MeliTokens, sellerId = tokens.user_id): Promise<void> {
+  if (!sellerId) return;
+
+  const now = Date.now();
+  await getTokenRepository().save({
+    sellerId,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: new Date(now + (tokens.expires_in ?? ACCESS_TOKEN_MAX_AGE) * 1000).toISOString(),
+    updatedAt: new Date(now).toISOString(),
+  });
+}
+
+async function refreshSellerTokens(sellerId: number, refreshToken: string): Promise<string> {
+  const tokens = await refreshTokens(refreshToken);
+  await storeSellerTokens(tokens, sellerId);
+  return tokens.access_token;
+}
+
+/**
+ * Cliente de la API con los tokens guardados del vendedor. Si el access token
+ * expiró lo renueva y guarda los nuevos. Los requests lanzan MeliAuthError si
+ * el vendedor nunca inició sesión.
+ */
+export function sellerClient(sellerId: number): MeliClient {
+  const loadTokens = async () => {
+    const stored = await getTokenRepository().load(sellerId);
+
+    if (!stored) {
+      throw new MeliAuthError(`No hay tokens guardados del vendedor ${sellerId}`);
+    }
+
+    return stored;
+  };
+
+  return new MeliClient({
+    key: String(sellerId),
+    tokens: {
+      async getAccessToken() {
+        const stored = await loadTokens();
+        const expired = new Date(stored.expiresAt).getTime() - EXPIRY_MARGIN_MS < Date.now();
+        return expired ? refreshSellerTokens(sellerId, stored.refreshToken) : stored.accessToken;
+      },
+      async refreshAccessToken() {
+        const stored = await loadTokens();
+        return refreshSellerTokens(sellerId, stored.refreshToken);
+      },
+    },
+  });
+}
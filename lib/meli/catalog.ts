@@ -0,0 +1,159 @@
+import { MeliAttribute, MeliProduct, MeliVariation } from '@/types/product';
+import {
+  MULTIGET_SIZE,
+  MeliApiAttribute,
+  MeliApiItem,
+  MeliApiItemField,
+  MeliApiVariation,
+  MeliClient,
+} from './client';
+
+export const ITEM_ATTRIBUTES = [
+  'id',
+  'title',
+  'price',
+  'currency_id',
+  'available_quantity',
+  'status',
+  'permalink',
+  'listing_type_id',
+  'last_updated',
+  'shipping',
+  'attributes',
+  'variations',
+  'seller_custom_field',
+] as const;
+
+// Item de la API con los campos de ITEM_ATTRIBUTES
+export type ApiItemDetails = Pick<MeliApiItem, typeof ITEM_ATTRIBUTES[number]>;
+
+const ITEM_STATUSES = 'active,paused,closed';
+
+// Límite de la API: 100 IDs por página de scan
+const SCAN_PAGE_SIZE = 100;
+const MULTIGET_CONCURRENCY = 4;
+
+/**
+ * Lista todos los IDs de publicaciones del vendedor con search_type=scan.
+ * A diferencia de offset/limit, el scroll no tiene el tope de 1000 resultados.
+ */
+export async function listAllItemIds(
+  client: MeliClient,
+  userId: number,
+  onPage?: (listed: number, total: number) => void
+): Promise<string[]> {
+  const ids: string[] = [];
+  let scrollId: string | null = null;
+
+  while (true) {
+    const params: Record<string, string> = {
+      search_type: 'scan',
+      status: ITEM_STATUSES,
+      limit: String(SCAN_PAGE_SIZE),
+    };
+    if (scrollId) {
+      params.scroll_id = scrollId;
+    }
+
+    const data = await client.searchSellerItems(userId, params);
+    const results = data.results ?? [];
+
+    if (results.length === 0) {
+      break;
+    }
+
+    ids.push(...results);
+    scrollId = data.scroll_id ?? null;
+    onPage?.(ids.length, data.paging?.total ?? ids.length);
+
+    if (!scrollId) {
+      break;
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Obtiene los detalles de los items en batches de multiget, con como máximo
+ * MULTIGET_CONCURRENCY batches en curso a la vez. Si un batch falla después
+ * de los reintentos del cliente, falla todo.
+ */
+export async function fetchItemDetails<K extends MeliApiItemField>(
+  client: MeliClient,
+  ids: string[],
+  attributes: readonly K[],
+  onBatch?: (items: Array<Pick<MeliApiItem, K | 'id'>>, requested: number) => void
+): Promise<Array<Pick<MeliApiItem, K | 'id'>>> {
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += MULTIGET_SIZE) {
+    batches.push(ids.slice(i, i + MULTIGET_SIZE));
+  }
+
+  const results: Array<Array<Pick<MeliApiItem, K | 'id'>>> = new Array(batches.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < batches.length) {
+      const index = next++;
+      results[index] = await client.getItems(batches[index], attributes);
+      onBatch?.(results[index], batches[index].length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(MULTIGET_CONCURRENCY, batches.length) }, worker)
+  );
+
+  return results.flat();
+}
+
+function normalizeAttributes(attributes: MeliApiAttribute[] | undefined): MeliAttribute[] {
+  return (attributes ?? []).map((attr) => ({
+    id: attr.id,
+    name: attr.name,
+    value_name: attr.value_name ?? '',
+  }));
+}
+
+function findSellerSku(attributes: MeliAttribute[], sellerCustomField?: string | null): string | null {
+  const skuAttribute = attributes.find((attr) => attr.id === 'SELLER_SKU');
+  return skuAttribute?.value_name || sellerCustomField || null;
+}
+
+function normalizeVariation(variation: MeliApiVariation): MeliVariation {
+  return {
+    id: variation.id,
+    attribute_combinations: normalizeAttributes(variation.attribute_combinations),
+    seller_sku: findSellerSku(normalizeAttributes(variation.attributes), variation.seller_custom_field),
+    available_quantity: variation.available_quantity,
+    price: variation.price,
+  };
+}
+
+/**
+ * Reduce un item de la API a los campos que guarda y muestra el dashboard.
+ */
+export function normalizeItem(item: ApiItemDetails): MeliProduct {
+  const attributes = normalizeAttributes(item.attributes);
+
+  return {
+    id: item.id,
+    title: item.title,
+    seller_sku: findSellerSku(attributes, item.seller_custom_field),
+    available_quantity: item.available_quantity,
+    status: item.status,
+    price: item.price,
+    currency_id: item.currency_id,
+    last_updated: item.last_updated,
+    permalink: item.permalink,
+    listing_type_id: item.listing_type_id ?? null,
+    shipping: {
+      mode: item.shipping?.mode ?? 'not_specified',
+      free_shipping: item.shipping?.free_shipping ?? false,
+      logistic_type: item.shipping?.logistic_type ?? null,
+    },
+    attributes,
+    variations: (item.variations ?? []).map(normalizeVariation),
+  };
+}
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MeliApiError, MeliAuthError, MeliClient, TokenSource } from './client';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+// Cada test usa su propia clave para no compartir rate limit ni semáforo
+let clientCount = 0;
+
+function newClient(tokens?: TokenSource): MeliClient {
+  return new MeliClient({ tokens, key: `test-${++clientCount}` });
+}
+
+describe('MeliClient.request', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Sin jitter: la espera es exactamente 500ms * 2^intento
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('espera lo que pide Retry-After ante un 429', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'too many requests' }, { 'retry-after': '2' }))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 1 }));
+
+    const result = newClient().request('/users/me');
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('no reintenta si Retry-After pide esperar demasiado', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(429, { message: 'too many requests' }, { 'retry-after': '120' }));
+
+    const result = newClient().request('/users/me');
+
+    await expect(result).rejects.toMatchObject({ status: 429, retryAfterMs: 120000 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reintenta los 5xx con espera exponencial', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, {}))
+      .mockResolvedValueOnce(jsonResponse(500, {}))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    const result = newClient().request('/users/me');
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('lanza el último error cuando se agotan los reintentos', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(502, { message: 'bad gateway' }));
+
+    const result = newClient().request('/users/me');
+    const assertion = expect(result).rejects.toMatchObject({ status: 502, message: 'bad gateway' });
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('no reintenta un POST ante un 5xx', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(503, { message: 'unavailable' }));
+
+    const result = newClient().request('/oauth/token', { method: 'POST', form: { grant_type: 'refresh_token' } });
+
+    await expect(result).rejects.toBeInstanceOf(MeliApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('no reintenta un POST ante un error de red', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    const result = newClient().request('/oauth/token', { method: 'POST', form: { grant_type: 'refresh_token' } });
+
+    await expect(result).rejects.toMatchObject({ status: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reintenta un POST ante un 429', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, {}, { 'retry-after': '1' }))
+      .mockResolvedValueOnce(jsonResponse(200, { access_token: 'a', refresh_token: 'r' }));
+
+    const result = newClient().request('/oauth/token', { method: 'POST', form: { grant_type: 'refresh_token' } });
+
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual({ access_token: 'a', refresh_token: 'r' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('ante un 401 renueva el token y repite el request', async () => {
+    const tokens = {
+      getAccessToken: vi.fn(async () => 'viejo'),
+      refreshAccessToken: vi.fn(async () => 'nuevo'),
+    };
+    const authorizations: string[] = [];
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      const authorization = (init.headers as Record<string, string>).authorization;
+      authorizations.push(authorization);
+      return authorization === 'Bearer nuevo'
+        ? jsonResponse(200, { id: 1 })
+        : jsonResponse(401, { message: 'invalid access token' });
+    });
+
+    const result = newClient(tokens).request('/users/me');
+
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual({ id: 1 });
+    expect(tokens.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(authorizations).toEqual(['Bearer viejo', 'Bearer nuevo']);
+  });
+
+  it('lanza MeliAuthError si el token renovado también es rechazado', async () => {
+    const tokens = {
+      getAccessToken: vi.fn(async () => 'viejo'),
+      refreshAccessToken: vi.fn(async () => 'nuevo'),
+    };
+    fetchMock.mockImplementation(async () => jsonResponse(401, { message: 'invalid access token' }));
+
+    const result = newClient(tokens).request('/users/me');
+    const assertion = expect(result).rejects.toBeInstanceOf(MeliAuthError);
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(tokens.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MeliClient.getItems', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  function requestedIds(call: number): string | null {
+    return new URL(fetchMock.mock.calls[call][0]).searchParams.get('ids');
+  }
+
+  it('vuelve a pedir sólo los items que fallaron y omite los inexistentes', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, [
+        { code: 200, body: { id: 'MLA1', title: 'Uno' } },
+        { code: 503, body: null },
+        { code: 404, body: { message: 'not found' } },
+        { code: 429, body: null },
+      ]))
+      .mockResolvedValueOnce(jsonResponse(200, [
+        { code: 200, body: { id: 'MLA2', title: 'Dos' } },
+        { code: 200, body: { id: 'MLA4', title: 'Cuatro' } },
+      ]));
+
+    const result = newClient().getItems(['MLA1', 'MLA2', 'MLA3', 'MLA4'], ['title']);
+
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual([
+      { id: 'MLA1', title: 'Uno' },
+      { id: 'MLA2', title: 'Dos' },
+      { id: 'MLA4', title: 'Cuatro' },
+    ]);
+    expect(requestedIds(0)).toBe('MLA1,MLA2,MLA3,MLA4');
+    expect(requestedIds(1)).toBe('MLA2,MLA4');
+  });
+
+  it('lanza MeliApiError si un item sigue fallando', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, [
+      { code: 500, body: null },
+    ]));
+
+    const result = newClient().getItems(['MLA1'], ['title']);
+    const assertion = expect(result).rejects.toMatchObject({ status: 500, path: '/items' });
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,418 @@
+import { getRateLimiter, getSemaphore } from '../rate-limit';
+
+export const MELI_API_URL = 'https://api.mercadolibre.com';
+
+// Reintentos ante 429, 5xx y errores de red, con espera exponencial
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30 * 1000;
+
+// Si Mercado Libre pide esperar más que esto no se reintenta: el error le
+// llega al llamador con retryAfterMs
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+// Por vendedor: como mucho un request cada REQUEST_INTERVAL_MS y
+// MAX_IN_FLIGHT requests en vuelo a la vez
+const REQUEST_INTERVAL_MS = 50;
+const MAX_IN_FLIGHT = 6;
+
+// Límite de la API para multiget
+export const MULTIGET_SIZE = 20;
+
+export interface MeliTokens {
+  access_token: string;
+  refresh_token: string;
+  expires_in?: number;
+  user_id?: number;
+}
+
+export interface MeliUser {
+  id: number;
+  nickname: string;
+  site_id: string;
+}
+
+export interface ItemSearchResponse {
+  results: string[];
+  scroll_id?: string | null;
+  paging?: { total: number };
+}
+
+// Respuestas de la API: sólo los campos que usa el dashboard
+
+export interface MeliApiAttribute {
+  id: string;
+  name: string;
+  value_name: string | null;
+}
+
+export interface MeliApiVariation {
+  id: number;
+  price: number;
+  available_quantity: number;
+  attribute_combinations?: MeliApiAttribute[];
+  // Con include_attributes=all, incluye SELLER_SKU
+  attributes?: MeliApiAttribute[];
+  seller_custom_field?: string | null;
+}
+
+export interface MeliApiItem {
+  id: string;
+  seller_id: number;
+  title: string;
+  price: number;
+  currency_id: string;
+  available_quantity: number;
+  status: 'active' | 'paused' | 'closed' | 'under_review';
+  permalink: string;
+  listing_type_id: string | null;
+  last_updated: string;
+  shipping?: {
+    mode?: string;
+    free_shipping?: boolean;
+    logistic_type?: string | null;
+  };
+  attributes?: MeliApiAttribute[];
+  variations?: MeliApiVariation[];
+  seller_custom_field?: string | null;
+}
+
+export type MeliApiItemField = keyof MeliApiItem;
+
+export interface MeliApiOrderItem {
+  item: {
+    id: string;
+    variation_id: number | null;
+    seller_sku: string | null;
+  };
+  quantity: number;
+}
+
+export interface MeliApiOrder {
+  id: number;
+  status: string;
+  date_created: string;
+  date_closed: string | null;
+  order_items: MeliApiOrderItem[];
+}
+
+export interface OrderSearchResponse {
+  results: MeliApiOrder[];
+  paging?: { total: number };
+}
+
+export interface MeliApiQuestion {
+  id: number;
+  item_id: string;
+  status: string;
+}
+
+export interface ItemChanges {
+  price?: number;
+  available_quantity?: number;
+  // Al editar variaciones hay que mandarlas todas: las que no se incluyen se
+  // eliminan. Las que no cambian van sólo con su id.
+  variations?: Array<{ id: number; price?: number; available_quantity?: number }>;
+}
+
+interface MultigetEntry<T> {
+  code: number;
+  // Con un código distinto de 200 es el cuerpo del error
+  body: T | null;
+}
+
+export class MeliAuthError extends Error {
+  constructor(message = 'No autenticado') {
+    super(message);
+    this.name = 'MeliAuthError';
+  }
+}
+
+/**
+ * Error de la API de Mercado Libre. `status` es 0 si el request no llegó a
+ * tener respuesta (error de red).
+ */
+export class MeliApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly method: string,
+    readonly path: string,
+    // Campo `error` del cuerpo (p. ej. 'not_found', 'invalid_grant')
+    readonly code: string | null = null,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'MeliApiError';
+  }
+
+  get retryable(): boolean {
+    return isRetryableStatus(this.status);
+  }
+}
+
+/**
+ * Extrae un mensaje legible de un error de la API de Mercado Libre.
+ */
+export function describeMeliError(body: unknown, fallback: string): string {
+  const error = body as { message?: unknown; cause?: unknown } | null;
+  const causes = Array.isArray(error?.cause)
+    ? error.cause.map((cause) => cause?.message).filter((message): message is string => typeof message === 'string' && !!message)
+    : [];
+  if (causes.length > 0) return causes.join('; ');
+  return typeof error?.message === 'string' && error.message ? error.message : fallback;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 0 || status === 429 || status >= 500;
+}
+
+/**
+ * Milisegundos pedidos por un header Retry-After, en segundos o como fecha
+ * HTTP. Null si no hay header o no se entiende.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Espera antes del reintento número `attempt` (desde 0): exponencial con
+ * jitter para que los requests que fallaron juntos no vuelvan juntos.
+ */
+export function backoffDelay(attempt: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface TokenSource {
+  getAccessToken(): Promise<string>;
+  // Se llama cuando la API rechaza el token actual con 401
+  refreshAccessToken(): Promise<string>;
+}
+
+export interface MeliClientOptions {
+  // Sin tokens sólo se pueden usar los endpoints públicos (oauth)
+  tokens?: TokenSource;
+  // Clave del rate limit y de la concurrencia; normalmente el ID del vendedor
+  key?: string;
+}
+
+export interface MeliRequest {
+  method?: 'GET' | 'POST' | 'PUT';
+  query?: Record<string, string>;
+  json?: unknown;
+  form?: Record<string, string>;
+}
+
+/**
+ * Cliente de la API de Mercado Libre. Agrega el token, espacia y limita los
+ * requests en vuelo por vendedor y reintenta los 429, 5xx y errores de red
+ * respetando Retry-After. Los POST sólo se reintentan ante 429, porque otro
+ * error puede llegar después de que Mercado Libre ya los procesó (un refresh
+ * token usado no se puede volver a usar).
+ */
+export class MeliClient {
+  private tokens?: TokenSource;
+  private key: string;
+
+  constructor({ tokens, key = 'public' }: MeliClientOptions = {}) {
+    this.tokens = tokens;
+    this.key = key;
+  }
+
+  async request<T>(path: string, { method = 'GET', query, json, form }: MeliRequest = {}): Promise<T> {
+    const url = query ? `${MELI_API_URL}${path}?${new URLSearchParams(query)}` : `${MELI_API_URL}${path}`;
+    const headers: Record<string, string> = { 'accept': 'application/json' };
+    let body: string | undefined;
+
+    if (json !== undefined) {
+      headers['content-type'] = 'application/json';
+      body = JSON.stringify(json);
+    } else if (form) {
+      headers['content-type'] = 'application/x-www-form-urlencoded';
+      body = new URLSearchParams(form).toString();
+    }
+
+    let accessToken = this.tokens ? await this.tokens.getAccessToken() : null;
+    let refreshed = false;
+    let attempt = 0;
+
+    while (true) {
+      if (accessToken) {
+        headers['authorization'] = `Bearer ${accessToken}`;
+      }
+
+      let response: Response;
+      try {
+        response = await this.send(url, { method, headers, body });
+      } catch (error) {
+        const failure = new MeliApiError(
+          `Error de red llamando a ${method} ${path}: ${error instanceof Error ? error.message : error}`,
+          0,
+          method,
+          path
+        );
+        if (method === 'POST' || attempt >= MAX_RETRIES) throw failure;
+        await sleep(backoffDelay(attempt++));
+        continue;
+      }
+
+      if (response.status === 401 && this.tokens) {
+        if (refreshed) throw new MeliAuthError('Sesión expirada');
+        refreshed = true;
+        accessToken = await this.tokens.refreshAccessToken();
+        continue;
+      }
+
+      if (response.ok) {
+        return response.status === 204 ? (undefined as T) : response.json();
+      }
+
+      const error = await toApiError(response, method, path);
+      const retry = error.status === 429 || (method !== 'POST' && error.retryable);
+
+      if (!retry || attempt >= MAX_RETRIES || (error.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+
+      await sleep(error.retryAfterMs ?? backoffDelay(attempt));
+      attempt++;
+    }
+  }
+
+  private send(url: string, init: RequestInit): Promise<Response> {
+    const limiter = getRateLimiter(`meli:${this.key}`, REQUEST_INTERVAL_MS);
+    const semaphore = getSemaphore(`meli:${this.key}`, MAX_IN_FLIGHT);
+    return semaphore.run(() => limiter.schedule(() => fetch(url, init)));
+  }
+
+  // Usuarios
+
+  getCurrentUser(): Promise<MeliUser> {
+    return this.request('/users/me');
+  }
+
+  searchSellerItems(userId: number, params: Record<string, string>): Promise<ItemSearchResponse> {
+    return this.request(`/users/${userId}/items/search`, { query: params });
+  }
+
+  // Items
+
+  /**
+   * Multiget de hasta MULTIGET_SIZE items, con sólo los campos `attributes`.
+   * Los items que vuelven con 429 o 5xx se vuelven a pedir; si siguen
+   * fallando se lanza MeliApiError en lugar de devolver el batch incompleto.
+   * Los que no existen o no son accesibles (404, 403) se omiten.
+   */
+  async getItems<K extends MeliApiItemField>(
+    ids: string[],
+    attributes: readonly K[]
+  ): Promise<Array<Pick<MeliApiItem, K | 'id'>>> {
+    if (ids.length > MULTIGET_SIZE) {
+      throw new Error(`El multiget admite hasta ${MULTIGET_SIZE} items`);
+    }
+
+    const found = new Map<string, Pick<MeliApiItem, K | 'id'>>();
+    let pending = ids;
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      // include_attributes=all hace que cada variación traiga su SELLER_SKU
+      const entries = await this.request<Array<MultigetEntry<Pick<MeliApiItem, K | 'id'>>>>('/items', {
+        query: { ids: pending.join(','), attributes: attributes.join(','), include_attributes: 'all' },
+      });
+
+      // Las respuestas vienen en el mismo orden que los IDs pedidos
+      const failed = pending.filter((id, index) => {
+        const entry = entries[index];
+        if (entry?.code === 200 && entry.body) {
+          found.set(id, entry.body);
+          return false;
+        }
+        return !entry || isRetryableStatus(entry.code);
+      });
+
+      if (failed.length > 0 && attempt >= MAX_RETRIES) {
+        throw new MeliApiError(
+          `No se pudieron obtener ${failed.length} publicaciones: ${failed.join(', ')}`,
+          entries[pending.indexOf(failed[0])]?.code ?? 0,
+          'GET',
+          '/items'
+        );
+      }
+      if (failed.length > 0) {
+        await sleep(backoffDelay(attempt));
+      }
+      pending = failed;
+    }
+
+    return ids.filter((id) => found.has(id)).map((id) => found.get(id)!);
+  }
+
+  async updateItem(id: string, changes: ItemChanges): Promise<void> {
+    await this.request(`/items/${encodeURIComponent(id)}`, { method: 'PUT', json: changes });
+  }
+
+  // Órdenes y preguntas
+
+  searchOrders(params: Record<string, string>): Promise<OrderSearchResponse> {
+    return this.request('/orders/search', { query: params });
+  }
+
+  getOrder(id: string): Promise<MeliApiOrder> {
+    return this.request(`/orders/${encodeURIComponent(id)}`);
+  }
+
+  getQuestion(id: string): Promise<MeliApiQuestion> {
+    return this.request(`/questions/${encodeURIComponent(id)}`);
+  }
+
+  // OAuth
+
+  exchangeCode(code: string, redirectUri: string, codeVerifier: string): Promise<MeliTokens> {
+    return this.request('/oauth/token', {
+      method: 'POST',
+      form: {
+        grant_type: 'authorization_code',
+        client_id: process.env.MELI_APP_ID!,
+        client_secret: process.env.MELI_CLIENT_SECRET!,
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: codeVerifier,
+      },
+    });
+  }
+
+  refreshTokens(refreshToken: string): Promise<MeliTokens> {
+    return this.request('/oauth/token', {
+      method: 'POST',
+      form: {
+        grant_type: 'refresh_token',
+        client_id: process.env.MELI_APP_ID!,
+        client_secret: process.env.MELI_CLIENT_SECRET!,
+        refresh_token: refreshToken,
+      },
+    });
+  }
+}
+
+async function toApiError(response: Response, method: string, path: string): Promise<MeliApiError> {
+  const body = await response.json().catch(() => null);
+
+  return new MeliApiError(
+    describeMeliError(body, `Error ${response.status} en ${method} ${path}`),
+    response.status,
+    method,
+    path,
+    typeof body?.error === 'string' ? body.error : null,
+    parseRetryAfter(response.headers.get('retry-after'))
+  );
+}
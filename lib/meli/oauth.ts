@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from 'crypto';
+import { safeEqual, sign } from '../signing';
+import { DEFAULT_SITE_ID, SiteId, isSiteId } from './sites';
+
+export const OAUTH_COOKIE = 'meli_oauth';
+
+// El usuario tiene 10 minutos para completar el login en Mercado Libre
+export const OAUTH_STATE_MAX_AGE = 60 * 10;
+
+export type OAuthErrorCode = 'invalid_state' | 'state_expired' | 'missing_verifier';
+
+export interface AuthorizationRequest {
+  siteId: SiteId;
+  state: string;
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+interface OAuthCookie {
+  siteId: SiteId;
+  state: string;
+  codeVerifier: string;
+}
+
+export function getRedirectUri(): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/callback`;
+}
+
+/**
+ * Genera un state firmado (nonce.timestamp.firma) y el par code_verifier /
+ * code_challenge de PKCE para una nueva autorización.
+ */
+export function createAuthorizationRequest(siteId: SiteId): AuthorizationRequest {
+  const payload = `${randomBytes(16).toString('base64url')}.${Date.now()}`;
+  const state = `${payload}.${sign(payload)}`;
+
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  return { siteId, state, codeVerifier, codeChallenge };
+}
+
+export function serializeOAuthCookie(request: AuthorizationRequest): string {
+  const cookie: OAuthCookie = {
+    siteId: request.siteId,
+    state: request.state,
+    codeVerifier: request.codeVerifier,
+  };
+  return JSON.stringify(cookie);
+}
+
+function parseOAuthCookie(value: string | undefined): OAuthCookie | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed.state === 'string' && typeof parsed.codeVerifier === 'string') {
+      return {
+        siteId: isSiteId(parsed.siteId) ? parsed.siteId : DEFAULT_SITE_ID,
+        state: parsed.state,
+        codeVerifier: parsed.codeVerifier,
+      };
+    }
+  } catch {
+    // Cookie corrupta: se trata igual que una cookie ausente
+  }
+
+  return null;
+}
+
+/**
+ * Valida el state recibido en el callback contra la cookie de la autorización.
+ * Devuelve el code_verifier a usar en el intercambio y el sitio elegido,
+ * o el código de error.
+ */
+export function verifyAuthorizationResponse(
+  state: string | null,
+  cookieValue: string | undefined
+): { codeVerifier: string; siteId: SiteId } | { error: OAuthErrorCode } {
+  if (!state) {
+    return { error: 'invalid_state' };
+  }
+
+  const [nonce, issuedAt, signature] = state.split('.');
+  if (!nonce || !issuedAt || !signature || !safeEqual(signature, sign(`${nonce}.${issuedAt}`))) {
+    return { error: 'invalid_state' };
+  }
+
+  if (Date.now() - Number(issuedAt) > OAUTH_STATE_MAX_AGE * 1000) {
+    return { error: 'state_expired' };
+  }
+
+  const cookie = parseOAuthCookie(cookieValue);
+  if (!cookie) {
+    return { error: 'missing_verifier' };
+  }
+
+  if (!safeEqual(cookie.state, state)) {
+    return { error: 'invalid_state' };
+  }
+
+  return { codeVerifier: cookie.codeVerifier, siteId: cookie.siteId };
+}
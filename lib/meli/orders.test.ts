@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { MeliApiOrder, MeliClient } from './client';
+import { listPaidOrders } from './orders';
+
+function apiOrder(id: number, dateCreated: string): MeliApiOrder {
+  return { id, status: 'paid', date_created: dateCreated, date_closed: null, order_items: [] };
+}
+
+/**
+ * Cliente falso con las órdenes del vendedor. Como la API, rechaza los
+ * offsets de 1000 en adelante.
+ */
+function fakeClient(orders: MeliApiOrder[]) {
+  const searchOrders = vi.fn(async (params: Record<string, string>) => {
+    const offset = Number(params.offset);
+    if (offset >= 1000) {
+      throw new Error('offset demasiado grande');
+    }
+    const to = params['order.date_created.to'];
+    const matching = orders
+      .filter((order) => order.date_created >= params['order.date_created.from'] && (!to || order.date_created <= to))
+      .sort((a, b) => b.date_created.localeCompare(a.date_created));
+
+    return {
+      results: matching.slice(offset, offset + Number(params.limit)),
+      paging: { total: matching.length },
+    };
+  });
+
+  return { client: { searchOrders } as unknown as MeliClient, searchOrders };
+}
+
+describe('listPaidOrders', () => {
+  it('sigue por fecha cuando se llega al offset máximo', async () => {
+    const start = Date.parse('2026-01-01T00:00:00.000Z');
+    // Dos órdenes por segundo, para que haya repetidas en el borde de cada ventana
+    const orders = Array.from({ length: 2300 }, (_, i) =>
+      apiOrder(i + 1, new Date(start + Math.floor(i / 2) * 1000).toISOString())
+    );
+    const { client, searchOrders } = fakeClient(orders);
+
+    const listed = await listPaidOrders(client, 123, new Date(start));
+
+    expect(listed).toHaveLength(2300);
+    expect(new Set(listed.map((order) => order.id)).size).toBe(2300);
+    expect(searchOrders.mock.calls.some(([params]) => params['order.date_created.to'])).toBe(true);
+  });
+
+  it('pide una sola página si entran todas', async () => {
+    const { client, searchOrders } = fakeClient([
+      apiOrder(1, '2026-01-02T00:00:00.000Z'),
+      apiOrder(2, '2026-01-03T00:00:00.000Z'),
+    ]);
+
+    const listed = await listPaidOrders(client, 123, new Date('2026-01-01T00:00:00.000Z'));
+
+    expect(listed.map((order) => order.id)).toEqual([2, 1]);
+    expect(searchOrders).toHaveBeenCalledTimes(1);
+  });
+});
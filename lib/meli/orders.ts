@@ -0,0 +1,83 @@
+import type { SaleOrder } from '../sales';
+import { MeliApiOrder, MeliClient } from './client';
+
+// Límite de la API para /orders/search
+const ORDERS_PAGE_SIZE = 50;
+
+// Offset máximo que acepta /orders/search; más allá se achica la ventana de fechas
+const MAX_ORDERS_OFFSET = 1000;
+
+/**
+ * Reduce una orden de la API a lo que usa la agregación de ventas.
+ */
+export function normalizeOrder(order: MeliApiOrder): SaleOrder {
+  return {
+    id: order.id,
+    status: order.status,
+    date: order.date_closed ?? order.date_created,
+    items: (order.order_items ?? []).map((line) => ({
+      itemId: line.item?.id,
+      variationId: line.item?.variation_id ?? null,
+      sku: line.item?.seller_sku ?? null,
+      quantity: line.quantity ?? 0,
+    })),
+  };
+}
+
+/**
+ * Lista las órdenes pagadas del vendedor creadas desde `from`, de la más
+ * reciente a la más antigua. La API no pagina más allá de cierto offset: al
+ * llegar ahí se sigue con una ventana que termina en la fecha de la última
+ * orden recibida, y se descartan las que se repiten en el borde.
+ */
+export async function listPaidOrders(
+  client: MeliClient,
+  sellerId: number,
+  from: Date,
+  onPage?: (listed: number, total: number) => void
+): Promise<SaleOrder[]> {
+  const orders: SaleOrder[] = [];
+  const seen = new Set<number>();
+  let to: string | null = null;
+  let offset = 0;
+  let total: number | null = null;
+
+  while (true) {
+    const data = await client.searchOrders({
+      seller: String(sellerId),
+      'order.status': 'paid',
+      'order.date_created.from': from.toISOString(),
+      ...(to ? { 'order.date_created.to': to } : {}),
+      sort: 'date_desc',
+      offset: String(offset),
+      limit: String(ORDERS_PAGE_SIZE),
+    });
+    const results = data.results ?? [];
+    const windowTotal = data.paging?.total ?? 0;
+    // El total de la primera ventana es el de todo el rango
+    total ??= windowTotal;
+
+    for (const order of results.filter((current) => !seen.has(current.id))) {
+      seen.add(order.id);
+      orders.push(normalizeOrder(order));
+    }
+    offset += results.length;
+    onPage?.(orders.length, Math.max(total, orders.length));
+
+    if (results.length === 0 || offset >= windowTotal) {
+      break;
+    }
+
+    if (offset + ORDERS_PAGE_SIZE > MAX_ORDERS_OFFSET) {
+      const last = results[results.length - 1].date_created;
+      // Una ventana llena de órdenes del mismo instante no se puede achicar más
+      if (last === to) {
+        break;
+      }
+      to = last;
+      offset = 0;
+    }
+  }
+
+  return orders;
+}
@@ -0,0 +1,64 @@
+export type SiteId = 'MLA' | 'MLB' | 'MLM' | 'MLC' | 'MCO' | 'MLU';
+
+export interface MeliSite {
+  id: SiteId;
+  name: string;
+  authDomain: string;
+  currency: string;
+  locale: string;
+}
+
+export const SITES: Record<SiteId, MeliSite> = {
+  MLA: {
+    id: 'MLA',
+    name: 'Argentina',
+    authDomain: 'auth.mercadolibre.com.ar',
+    currency: 'ARS',
+    locale: 'es-AR',
+  },
+  MLB: {
+    id: 'MLB',
+    name: 'Brasil',
+    authDomain: 'auth.mercadolivre.com.br',
+    currency: 'BRL',
+    locale: 'pt-BR',
+  },
+  MLM: {
+    id: 'MLM',
+    name: 'México',
+    authDomain: 'auth.mercadolibre.com.mx',
+    currency: 'MXN',
+    locale: 'es-MX',
+  },
+  MLC: {
+    id: 'MLC',
+    name: 'Chile',
+    authDomain: 'auth.mercadolibre.cl',
+    currency: 'CLP',
+    locale: 'es-CL',
+  },
+  MCO: {
+    id: 'MCO',
+    name: 'Colombia',
+    authDomain: 'auth.mercadolibre.com.co',
+    currency: 'COP',
+    locale: 'es-CO',
+  },
+  MLU: {
+    id: 'MLU',
+    name: 'Uruguay',
+    authDomain: 'auth.mercadolibre.com.uy',
+    currency: 'UYU',
+    locale: 'es-UY',
+  },
+};
+
+export const DEFAULT_SITE_ID: SiteId = 'MLA';
+
+export function isSiteId(value: unknown): value is SiteId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SITES, value);
+}
+
+export function getSite(siteId: string | null | undefined): MeliSite {
+  return isSiteId(siteId) ? SITES[siteId] : SITES[DEFAULT_SITE_ID];
+}
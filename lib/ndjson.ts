@@ -0,0 +1,30 @@
+/**
+ * Lee una respuesta NDJSON y devuelve cada línea ya parseada, a medida que
+ * llegan los chunks. `T` es la forma de las líneas que manda el servidor.
+ */
+export async function* readNdjson<T = unknown>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line);
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    yield JSON.parse(buffer);
+  }
+}
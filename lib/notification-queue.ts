@@ -0,0 +1,113 @@
+import { sellerClient } from './meli/auth';
+import { MeliClient } from './meli/client';
+import { MeliNotification, resourceKey } from './notifications';
+import { refreshCatalogItems } from './sync';
+
+// Cuánto se recuerda una notificación ya recibida, para descartar reintentos
+const DEDUPE_TTL_MS = 10 * 60 * 1000;
+
+interface QueueState {
+  // Pendientes por recurso: la última notificación de cada uno
+  pending: Map<string, MeliNotification>;
+  // _id ya recibidos y cuándo
+  seen: Map<string, number>;
+  running: boolean;
+}
+
+// Igual que el scheduler, vive en globalThis para sobrevivir a las recargas en desarrollo
+const state = globalThis as typeof globalThis & { notificationQueue?: QueueState };
+
+function getQueue(): QueueState {
+  if (!state.notificationQueue) {
+    state.notificationQueue = { pending: new Map(), seen: new Map(), running: false };
+  }
+  return state.notificationQueue;
+}
+
+/**
+ * Items del catálogo afectados por la notificación. Órdenes y preguntas no se
+ * guardan: lo que cambia en el catálogo es el item (stock vendido, etc.).
+ */
+async function affectedItemIds(notification: MeliNotification, client: MeliClient): Promise<string[]> {
+  switch (notification.topic) {
+    case 'items':
+      return [notification.resourceId];
+
+    case 'orders_v2': {
+      const order = await client.getOrder(notification.resourceId);
+      return (order.order_items ?? []).map((line) => line.item?.id).filter(Boolean);
+    }
+
+    case 'questions': {
+      const question = await client.getQuestion(notification.resourceId);
+      return question.item_id ? [question.item_id] : [];
+    }
+
+    case 'stock-locations': {
+      const search = await client.searchSellerItems(notification.userId, {
+        user_product_id: notification.resourceId,
+      });
+      return search.results ?? [];
+    }
+  }
+}
+
+/**
+ * Refetchea el recurso de la notificación y actualiza el catálogo guardado.
+ */
+export async function processNotification(
+  notification: MeliNotification,
+  client: MeliClient = sellerClient(notification.userId)
+): Promise<string[]> {
+  const ids = Array.from(new Set(await affectedItemIds(notification, client)));
+  const refreshed = await refreshCatalogItems(notification.userId, ids, client);
+  return refreshed.map((item) => item.id);
+}
+
+async function drain(queue: QueueState) {
+  if (queue.running) return;
+  queue.running = true;
+
+  try {
+    // De a una: las escrituras del catálogo no se pisan entre sí
+    while (queue.pending.size > 0) {
+      const [key, notification] = queue.pending.entries().next().value as [string, MeliNotification];
+      queue.pending.delete(key);
+
+      try {
+        await processNotification(notification);
+      } catch (error) {
+        console.error(`Error procesando notificación ${notification.topic} ${notification.resource}:`, error);
+      }
+    }
+  } finally {
+    queue.running = false;
+  }
+}
+
+/**
+ * Encola la notificación y vuelve enseguida; el refetch corre en segundo
+ * plano. Devuelve 'duplicate' si es un reintento de una ya recibida o si el
+ * mismo recurso ya estaba pendiente.
+ */
+export function enqueueNotification(notification: MeliNotification, now = Date.now()): 'queued' | 'duplicate' {
+  const queue = getQueue();
+
+  // El Map conserva el orden de inserción: los vencidos están al principio
+  for (const [id, receivedAt] of Array.from(queue.seen.entries())) {
+    if (now - receivedAt < DEDUPE_TTL_MS) break;
+    queue.seen.delete(id);
+  }
+
+  const key = resourceKey(notification);
+  if (queue.seen.has(notification.id) || queue.pending.has(key)) {
+    queue.seen.set(notification.id, queue.seen.get(notification.id) ?? now);
+    return 'duplicate';
+  }
+
+  queue.seen.set(notification.id, now);
+  queue.pending.set(key, notification);
+  void drain(queue);
+
+  return 'queued';
+}
@@ -0,0 +1,79 @@
+/**
+ * Notificaciones de Mercado Libre (callbacks por tópico). Este módulo sólo
+ * valida y describe las notificaciones; el procesamiento está en
+ * notification-queue.ts.
+ */
+import { asRecord } from './validation';
+
+export type NotificationTopic = 'items' | 'orders_v2' | 'questions' | 'stock-locations';
+
+export interface MeliNotification {
+  // _id de Mercado Libre: se repite en los reintentos de la misma notificación
+  id: string;
+  topic: NotificationTopic;
+  resource: string;
+  // ID del recurso dentro de `resource` (item, orden, pregunta o user product)
+  resourceId: string;
+  userId: number;
+  sent: string | null;
+}
+
+// Forma del `resource` de cada tópico; el grupo captura el ID
+const RESOURCE_PATTERNS: Record<NotificationTopic, RegExp> = {
+  'items': /^\/items\/([A-Z]{3}\d+)$/,
+  'orders_v2': /^\/orders\/(\d+)$/,
+  'questions': /^\/questions\/(\d+)$/,
+  'stock-locations': /^\/user-products\/([A-Z]{3}U\d+)\/stock$/,
+};
+
+export const NOTIFICATION_TOPICS = Object.keys(RESOURCE_PATTERNS) as NotificationTopic[];
+
+function isNotificationTopic(value: unknown): value is NotificationTopic {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RESOURCE_PATTERNS, value);
+}
+
+/**
+ * Valida el cuerpo de una notificación. Las que no son de nuestra aplicación
+ * se rechazan con 403; las mal formadas o de tópicos que no usamos, con 400.
+ */
+export function parseNotification(
+  input: unknown,
+  appId: string | undefined
+): MeliNotification | { error: string; status: number } {
+  const body = asRecord(input);
+  if (!appId || String(body.application_id) !== appId) {
+    return { error: 'La notificación no es de esta aplicación', status: 403 };
+  }
+
+  const topic = body.topic;
+  if (!isNotificationTopic(topic)) {
+    return { error: `Tópico no soportado: ${topic}`, status: 400 };
+  }
+
+  const userId = Number(body.user_id);
+  const resource = typeof body.resource === 'string' ? body.resource : '';
+  const match = RESOURCE_PATTERNS[topic].exec(resource);
+
+  if (!Number.isInteger(userId) || userId <= 0 || !match) {
+    return { error: 'Notificación inválida', status: 400 };
+  }
+
+  const sent = typeof body.sent === 'string' ? body.sent : null;
+
+  return {
+    id: typeof body._id === 'string' && body._id ? body._id : `${topic}:${resource}:${sent}`,
+    topic,
+    resource,
+    resourceId: match[1],
+    userId,
+    sent,
+  };
+}
+
+/**
+ * Clave del recurso a refrescar: varias notificaciones pendientes del mismo
+ * recurso se resuelven con un solo refetch.
+ */
+export function resourceKey(notification: MeliNotification): string {
+  return `${notification.userId}:${notification.resource}`;
+}
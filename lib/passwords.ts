@@ -0,0 +1,38 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hash de la contraseña con scrypt y sal aleatoria, en el formato
+ * `scrypt.<sal>.<hash>`.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return ['scrypt', salt.toString('base64url'), key.toString('base64url')].join('.');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('.');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64url'));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// Hash de una contraseña al azar: se verifica contra él cuando el email no es
+// de ningún miembro, para que la respuesta tarde lo mismo que con uno real
+let dummyHash: Promise<string> | null = null;
+
+export async function verifyDummyPassword(password: string): Promise<false> {
+  dummyHash ??= hashPassword(randomBytes(16).toString('base64url'));
+  await verifyPassword(password, await dummyHash);
+  return false;
+}
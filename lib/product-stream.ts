@@ -0,0 +1,48 @@
+import type { MeliProduct } from '@/types/product';
+import { readNdjson } from './ndjson';
+
+// Publicaciones por línea del stream de /api/products
+export const PRODUCT_CHUNK_SIZE = 200;
+
+/**
+ * Líneas NDJSON de /api/products: primero `meta` con el total y la secuencia
+ * de eventos del catálogo leído, después una línea `items` por cada tanda de
+ * publicaciones.
+ */
+export type ProductStreamEvent =
+  | { type: 'meta'; total: number; site: string; syncedAt: string | null; seq: number }
+  | { type: 'items'; items: MeliProduct[] };
+
+export type ProductStreamMeta = Extract<ProductStreamEvent, { type: 'meta' }>;
+
+/**
+ * Lee el stream de /api/products. `onMeta` se llama apenas llega el total y
+ * `onItems` con todo lo recibido hasta el momento, después de cada tanda.
+ * Devuelve los datos del catálogo y todas las publicaciones.
+ */
+export async function readProductStream(
+  response: Response,
+  handlers: {
+    onMeta?: (meta: ProductStreamMeta) => void;
+    onItems?: (items: MeliProduct[]) => void;
+  } = {}
+): Promise<{ meta: ProductStreamMeta; items: MeliProduct[] }> {
+  let meta: ProductStreamMeta | null = null;
+  let items: MeliProduct[] = [];
+
+  for await (const event of readNdjson<ProductStreamEvent>(response)) {
+    if (event.type === 'meta') {
+      meta = event;
+      handlers.onMeta?.(event);
+    } else {
+      items = items.concat(event.items);
+      handlers.onItems?.(items);
+    }
+  }
+
+  if (!meta || items.length < meta.total) {
+    throw new Error('La lista de productos llegó incompleta');
+  }
+
+  return { meta, items };
+}
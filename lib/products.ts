@@ -0,0 +1,39 @@
+import type { MeliProduct } from '@/types/product';
+
+export interface Badge {
+  label: string;
+  color: string;
+}
+
+export function getPublicationStatus(status: string): Badge {
+  switch (status) {
+    case 'active':
+      return { label: 'Activo', color: 'bg-green-100 text-green-800' };
+    case 'paused':
+      return { label: 'Pausado', color: 'bg-gray-100 text-gray-800' };
+    case 'closed':
+      return { label: 'Finalizado', color: 'bg-red-100 text-red-800' };
+    default:
+      return { label: status, color: 'bg-gray-100 text-gray-800' };
+  }
+}
+
+export type FulfillmentKey = 'full' | 'flex' | 'me' | 'normal';
+
+export const FULFILLMENT_LABELS: Record<FulfillmentKey, string> = {
+  full: '📦 Full',
+  flex: '⚡ Flex',
+  me: '🚚 Mercado Envíos',
+  normal: '📍 Normal/Sin envío',
+};
+
+/**
+ * Tipo de envío principal de la publicación. Cada publicación tiene uno solo
+ * (Full y Flex tienen prioridad sobre Mercado Envíos).
+ */
+export function getFulfillmentKey(shipping: MeliProduct['shipping']): FulfillmentKey {
+  if (shipping.logistic_type === 'fulfillment') return 'full';
+  if (shipping.logistic_type === 'xd_drop_off') return 'flex';
+  if (shipping.mode === 'me2') return 'me';
+  return 'normal';
+}
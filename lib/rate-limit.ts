@@ -0,0 +1,132 @@
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Espacia las llamadas para que no salgan más de una cada `intervalMs`.
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+
+  constructor(private intervalMs: number) {}
+
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+
+    return task();
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+export function getRateLimiter(key: string, intervalMs: number): RateLimiter {
+  let limiter = limiters.get(key);
+
+  if (!limiter) {
+    limiter = new RateLimiter(intervalMs);
+    limiters.set(key, limiter);
+  }
+
+  return limiter;
+}
+
+/**
+ * Limita cuántas tareas corren a la vez; las demás esperan su turno en orden.
+ */
+export class Semaphore {
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running >= this.limit) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      // El lugar pasa directo al siguiente en espera, sin liberarlo
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+    }
+  }
+}
+
+const semaphores = new Map<string, Semaphore>();
+
+export function getSemaphore(key: string, limit: number): Semaphore {
+  let semaphore = semaphores.get(key);
+
+  if (!semaphore) {
+    semaphore = new Semaphore(limit);
+    semaphores.set(key, semaphore);
+  }
+
+  return semaphore;
+}
+
+/**
+ * Cuenta intentos fallidos por clave dentro de una ventana de tiempo. Al
+ * llegar a `maxFailures` la clave queda bloqueada hasta que vence la ventana
+ * del primer fallo. No encola nada: quien está bloqueado se rechaza en el acto.
+ */
+export class FailureCounter {
+  private failures = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private maxFailures: number, private windowMs: number) {}
+
+  private current(key: string, now: number) {
+    const entry = this.failures.get(key);
+    if (entry && entry.resetAt <= now) {
+      this.failures.delete(key);
+      return null;
+    }
+    return entry ?? null;
+  }
+
+  isBlocked(key: string, now = Date.now()): boolean {
+    return (this.current(key, now)?.count ?? 0) >= this.maxFailures;
+  }
+
+  recordFailure(key: string, now = Date.now()) {
+    const entry = this.current(key, now);
+    if (entry) {
+      entry.count++;
+    } else {
+      // De paso se limpian las vencidas, para que el mapa no crezca sin fin
+      this.failures.forEach((value, current) => {
+        if (value.resetAt <= now) this.failures.delete(current);
+      });
+      this.failures.set(key, { count: 1, resetAt: now + this.windowMs });
+    }
+  }
+
+  reset(key: string) {
+    this.failures.delete(key);
+  }
+}
+
+const counters = new Map<string, FailureCounter>();
+
+export function getFailureCounter(key: string, maxFailures: number, windowMs: number): FailureCounter {
+  let counter = counters.get(key);
+
+  if (!counter) {
+    counter = new FailureCounter(maxFailures, windowMs);
+    counters.set(key, counter);
+  }
+
+  return counter;
+}
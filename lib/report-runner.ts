@@ -0,0 +1,162 @@
+import path from 'path';
+import { catalogViewRows, exportFileName } from './catalog-view';
+import { EXPORT_FORMATS } from './export';
+import { exportStream } from './export-stream';
+import { getSite } from './meli/sites';
+import { ReportDestination, ReportRun, ScheduledReport, parseRecipients, validateWebhookUrl } from './reports';
+import { sendMail } from './smtp';
+import { getCatalogRepository } from './store/catalog';
+import { getDataDir, writeFileAtomic } from './store/files';
+import { getReportRepository, runIdFor } from './store/reports';
+import { getSalesRepository } from './store/sales';
+import { getSettingsRepository } from './store/settings';
+import { getViewRepository } from './store/views';
+
+interface GeneratedReport {
+  fileName: string;
+  contentType: string;
+  content: Uint8Array;
+  rowCount: number;
+}
+
+export function getReportsOutputDir(): string {
+  return process.env.REPORTS_OUTPUT_DIR || path.join(getDataDir(), 'reports');
+}
+
+export function isSmtpConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+/**
+ * Genera el archivo del reporte a partir del catálogo guardado, sin
+ * consultar a Mercado Libre.
+ */
+async function generateReport(sellerId: number, report: ScheduledReport): Promise<GeneratedReport> {
+  const [saved, catalog, settings, sales] = await Promise.all([
+    getViewRepository().load(sellerId),
+    getCatalogRepository().load(sellerId),
+    getSettingsRepository().load(sellerId),
+    getSalesRepository().load(sellerId),
+  ]);
+
+  const savedView = saved.views.find((view) => view.id === report.viewId);
+  if (!savedView) {
+    throw new Error('La vista guardada del reporte ya no existe');
+  }
+  if (!catalog) {
+    throw new Error('El catálogo todavía no se sincronizó');
+  }
+
+  const context = { stockRules: settings.stockRules, site: getSite(catalog.siteId), sales };
+  const rows = catalogViewRows(catalog.items, savedView.view, context);
+  const productCount = new Set(rows.map((row) => row.product.id)).size;
+  const stream = exportStream(rows, report.format, savedView.view.columns, context);
+
+  return {
+    fileName: `${exportFileName(savedView.view, productCount, savedView.name)}.${report.format}`,
+    contentType: EXPORT_FORMATS[report.format].contentType,
+    content: new Uint8Array(await new Response(stream).arrayBuffer()),
+    rowCount: rows.length,
+  };
+}
+
+async function deliverReport(
+  sellerId: number,
+  report: ScheduledReport,
+  destination: ReportDestination,
+  file: GeneratedReport
+): Promise<void> {
+  switch (destination.type) {
+    case 'directory':
+      await writeFileAtomic(path.join(getReportsOutputDir(), String(sellerId), file.fileName), file.content);
+      return;
+
+    case 'webhook': {
+      // La lista de destinos permitidos puede haber cambiado desde que se
+      // guardó el reporte
+      const errors = validateWebhookUrl(destination.url);
+      if (errors.length > 0) {
+        throw new Error(errors[0]);
+      }
+
+      // Sin seguir redirecciones: podrían llevar fuera de los destinos permitidos
+      const response = await fetch(destination.url, {
+        method: 'POST',
+        redirect: 'manual',
+        headers: {
+          'content-type': file.contentType,
+          'content-disposition': `attachment; filename="${file.fileName}"`,
+          'x-report-name': encodeURIComponent(report.name),
+        },
+        body: file.content,
+      });
+      if (!response.ok) {
+        throw new Error(`El webhook respondió ${response.status}`);
+      }
+      return;
+    }
+
+    case 'email':
+      if (!isSmtpConfigured()) {
+        throw new Error('No hay un servidor SMTP configurado (SMTP_HOST)');
+      }
+      await sendMail(
+        { host: process.env.SMTP_HOST!, port: Number(process.env.SMTP_PORT || 25) },
+        {
+          from: process.env.SMTP_FROM || 'reportes@localhost',
+          to: parseRecipients(destination.to),
+          subject: `Reporte: ${report.name}`,
+          text: `Adjunto el reporte "${report.name}" con ${file.rowCount} filas.`,
+          attachment: file,
+        }
+      );
+      return;
+  }
+}
+
+/**
+ * Genera y entrega el reporte y registra la ejecución en el historial. Los
+ * errores no se propagan: quedan en la ejecución con estado `error`.
+ */
+export async function runReport(
+  sellerId: number,
+  report: ScheduledReport,
+  trigger: ReportRun['trigger']
+): Promise<ReportRun> {
+  const repository = getReportRepository();
+  const startedAt = new Date().toISOString();
+  let file: GeneratedReport | null = null;
+  let error: string | null = null;
+
+  try {
+    file = await generateReport(sellerId, report);
+    await deliverReport(sellerId, report, report.destination, file);
+  } catch (err) {
+    console.error(`Error ejecutando el reporte ${report.id}:`, err);
+    error = err instanceof Error ? err.message : 'Error desconocido';
+  }
+
+  const run: ReportRun = {
+    id: runIdFor(startedAt, report.id),
+    reportId: report.id,
+    reportName: report.name,
+    trigger,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    status: error ? 'error' : 'success',
+    fileName: file?.fileName ?? null,
+    rowCount: file?.rowCount ?? 0,
+    error,
+  };
+
+  await repository.saveRun(sellerId, run, file?.content ?? null);
+
+  // También se marca al fallar, así un reporte roto no se reintenta cada minuto
+  const reports = await repository.listReports(sellerId);
+  await repository.saveReports(
+    sellerId,
+    reports.map((current) => (current.id === report.id ? { ...current, lastRunAt: startedAt } : current))
+  );
+
+  return run;
+}
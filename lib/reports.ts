@@ -0,0 +1,146 @@
+import { parseCron } from './cron';
+import { ExportFormat, isExportFormat } from './export';
+import { asRecord } from './validation';
+
+export type ReportDestination =
+  | { type: 'directory' }
+  | { type: 'webhook'; url: string }
+  | { type: 'email'; to: string };
+
+export interface ScheduledReport {
+  id: string;
+  name: string;
+  // Vista guardada que define búsqueda, filtros, orden y columnas
+  viewId: string;
+  format: ExportFormat;
+  cron: string;
+  destination: ReportDestination;
+  enabled: boolean;
+  createdAt: string;
+  lastRunAt: string | null;
+}
+
+export type ReportRunStatus = 'success' | 'error';
+
+export interface ReportRun {
+  id: string;
+  reportId: string;
+  reportName: string;
+  trigger: 'schedule' | 'manual';
+  startedAt: string;
+  finishedAt: string;
+  status: ReportRunStatus;
+  // Copia guardada del archivo generado, para descargarla desde el historial
+  fileName: string | null;
+  rowCount: number;
+  error: string | null;
+}
+
+export const DESTINATION_LABELS: Record<ReportDestination['type'], string> = {
+  directory: 'Carpeta del servidor',
+  webhook: 'Webhook',
+  email: 'Email (SMTP)',
+};
+
+export const RUN_STATUS_LABELS: Record<ReportRunStatus, { label: string; color: string }> = {
+  success: { label: 'Generado', color: 'bg-green-100 text-green-800' },
+  error: { label: 'Error', color: 'bg-red-100 text-red-800' },
+};
+
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+$/;
+
+export function parseRecipients(to: string): string[] {
+  return to.split(',').map((address) => address.trim()).filter(Boolean);
+}
+
+/**
+ * Orígenes (esquema, host y puerto) a los que se pueden mandar reportes por
+ * webhook, de REPORT_WEBHOOK_ORIGINS separados por coma. Sin configurar no se
+ * permite ninguno: el servidor no debe poder postear el catálogo a cualquier
+ * dirección, incluidas las internas.
+ */
+export function allowedWebhookOrigins(): string[] {
+  return (process.env.REPORT_WEBHOOK_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+    .flatMap((origin) => {
+      try {
+        return [new URL(origin).origin];
+      } catch {
+        return [];
+      }
+    });
+}
+
+export function validateWebhookUrl(value: unknown): string[] {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return ['La URL del webhook es inválida'];
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return ['La URL del webhook debe ser http o https'];
+  }
+  if (!allowedWebhookOrigins().includes(url.origin)) {
+    return [`El webhook tiene que apuntar a un destino permitido (REPORT_WEBHOOK_ORIGINS): ${url.origin} no lo es`];
+  }
+  return [];
+}
+
+function validateDestination(destination: unknown): string[] {
+  const { type, url, to } = asRecord(destination);
+  switch (type) {
+    case 'directory':
+      return [];
+    case 'webhook':
+      return validateWebhookUrl(url);
+    case 'email': {
+      const recipients = typeof to === 'string' ? parseRecipients(to) : [];
+      if (recipients.length === 0 || !recipients.every((address) => EMAIL_PATTERN.test(address))) {
+        return ['Indicá uno o más emails separados por coma'];
+      }
+      return [];
+    }
+    default:
+      return ['Destino desconocido'];
+  }
+}
+
+/**
+ * Valida un reporte recibido del cliente. Devuelve los errores encontrados.
+ */
+export function validateReportInput(input: unknown): string[] {
+  const errors: string[] = [];
+  const { name, viewId, format, cron, destination } = asRecord(input);
+
+  if (typeof name !== 'string' || !name.trim()) {
+    errors.push('El reporte necesita un nombre');
+  }
+  if (typeof viewId !== 'string' || !viewId) {
+    errors.push('Elegí la vista guardada que se va a exportar');
+  }
+  if (!isExportFormat(format)) {
+    errors.push('Formato desconocido');
+  }
+  if (typeof cron !== 'string' || !parseCron(cron)) {
+    errors.push('La programación debe ser una expresión cron diaria o semanal (por ejemplo "0 8 * * *")');
+  }
+  errors.push(...validateDestination(destination));
+
+  return errors;
+}
+
+export function toReportDestination(input: unknown): ReportDestination {
+  const { type, url, to } = asRecord(input);
+  switch (type) {
+    case 'webhook':
+      return { type: 'webhook', url: String(url) };
+    case 'email':
+      return { type: 'email', to: parseRecipients(String(to)).join(', ') };
+    default:
+      return { type: 'directory' };
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import type { MeliProduct } from '@/types/product';
+import { SaleOrder, SalesSummary, aggregateSales, mergeSalesSummaries, reorderSuggestions } from './sales';
+import { productFixture } from './test-fixtures';
+
+const NOW = new Date('2026-03-31T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * DAY_MS).toISOString();
+}
+
+// Órdenes de ejemplo: cubren los bordes de las ventanas, órdenes no pagadas,
+// variaciones y un SKU compartido por dos publicaciones
+const ORDERS: SaleOrder[] = [
+  {
+    id: 1,
+    status: 'paid',
+    date: daysAgo(1),
+    items: [
+      { itemId: 'MLA1', variationId: null, sku: 'A', quantity: 2 },
+      { itemId: 'MLA2', variationId: 11, sku: 'B-ROJO', quantity: 1 },
+    ],
+  },
+  // Justo 7 días: queda afuera de la ventana de 7
+  { id: 2, status: 'paid', date: daysAgo(7), items: [{ itemId: 'MLA2', variationId: 12, sku: 'B-AZUL', quantity: 3 }] },
+  { id: 3, status: 'paid', date: daysAgo(6.5), items: [{ itemId: 'MLA2', variationId: 11, sku: 'B-ROJO', quantity: 4 }] },
+  { id: 4, status: 'cancelled', date: daysAgo(1), items: [{ itemId: 'MLA1', variationId: null, sku: 'A', quantity: 50 }] },
+  // Justo 90 días: fuera de todas las ventanas
+  { id: 5, status: 'paid', date: daysAgo(90), items: [{ itemId: 'MLA1', variationId: null, sku: 'A', quantity: 100 }] },
+  {
+    id: 6,
+    status: 'paid',
+    date: daysAgo(89),
+    items: [
+      { itemId: 'MLA3', variationId: null, sku: 'A', quantity: 5 },
+      { itemId: 'MLA1', variationId: null, sku: null, quantity: 0 },
+    ],
+  },
+  // Fecha apenas en el futuro (relojes desfasados): cuenta como de hoy
+  { id: 7, status: 'paid', date: daysAgo(-0.1), items: [{ itemId: 'MLA1', variationId: null, sku: 'A', quantity: 1 }] },
+];
+
+const PRODUCTS: MeliProduct[] = [
+  productFixture({ id: 'MLA1', seller_sku: 'A', available_quantity: 1 }),
+  productFixture({
+    id: 'MLA2',
+    available_quantity: 10,
+    variations: [
+      { id: 11, attribute_combinations: [], seller_sku: 'B-ROJO', available_quantity: 0, price: 100 },
+      { id: 12, attribute_combinations: [], seller_sku: 'B-AZUL', available_quantity: 10, price: 100 },
+    ],
+  }),
+  productFixture({ id: 'MLA3', seller_sku: 'A', status: 'closed', available_quantity: 0 }),
+  // Sin ventas
+  productFixture({ id: 'MLA4', available_quantity: 0 }),
+];
+
+describe('aggregateSales', () => {
+  const summary = aggregateSales(ORDERS, NOW);
+
+  it('cuenta sólo las órdenes pagadas dentro de la ventana más larga', () => {
+    expect(summary.computedAt).toBe(NOW.toISOString());
+    expect(summary.orderCount).toBe(5);
+  });
+
+  it('suma por publicación en cada ventana, excluyendo el borde', () => {
+    expect(summary.items).toEqual({
+      MLA1: { 7: 3, 30: 3, 90: 3 },
+      MLA2: { 7: 5, 30: 8, 90: 8 },
+      MLA3: { 7: 0, 30: 0, 90: 5 },
+    });
+  });
+
+  it('suma por variación con la clave publicación/variación', () => {
+    expect(summary.variations).toEqual({
+      'MLA2/11': { 7: 5, 30: 5, 90: 5 },
+      'MLA2/12': { 7: 0, 30: 3, 90: 3 },
+    });
+  });
+
+  it('suma por SKU aunque esté en varias publicaciones', () => {
+    expect(summary.skus).toEqual({
+      'A': { 7: 3, 30: 3, 90: 8 },
+      'B-ROJO': { 7: 5, 30: 5, 90: 5 },
+      'B-AZUL': { 7: 0, 30: 3, 90: 3 },
+    });
+  });
+});
+
+describe('mergeSalesSummaries', () => {
+  const first = aggregateSales(ORDERS.slice(0, 3), NOW);
+  const second = aggregateSales(ORDERS.slice(3), new Date(NOW.getTime() - DAY_MS));
+
+  it('devuelve null si ninguna cuenta tiene ventas calculadas', () => {
+    expect(mergeSalesSummaries([])).toBeNull();
+    expect(mergeSalesSummaries([null, null])).toBeNull();
+  });
+
+  it('devuelve la única presente sin cambios', () => {
+    expect(mergeSalesSummaries([null, first])).toBe(first);
+  });
+
+  it('suma las cuentas y usa la fecha del cálculo más viejo', () => {
+    const merged = mergeSalesSummaries([first, null, second])!;
+
+    expect(merged.computedAt).toBe(second.computedAt);
+    expect(merged.orderCount).toBe(first.orderCount + second.orderCount);
+    expect(merged.items.MLA1).toEqual({
+      7: first.items.MLA1[7] + second.items.MLA1[7],
+      30: first.items.MLA1[30] + second.items.MLA1[30],
+      90: first.items.MLA1[90] + second.items.MLA1[90],
+    });
+    expect(merged.variations['MLA2/11']).toEqual(first.variations['MLA2/11']);
+    expect(merged.skus.A[90]).toBe(first.skus.A[90] + second.skus.A[90]);
+  });
+
+  it('no modifica los resúmenes originales', () => {
+    const before = JSON.stringify(first);
+    mergeSalesSummaries([first, second]);
+    expect(JSON.stringify(first)).toBe(before);
+  });
+});
+
+describe('reorderSuggestions', () => {
+  const summary = aggregateSales(ORDERS, NOW);
+  const describeSuggestions = (summaryToUse: SalesSummary | null, window: 7 | 30 | 90) =>
+    reorderSuggestions(PRODUCTS, summaryToUse, { window, leadTimeDays: 15, coverDays: 30 }).map((suggestion) => ({
+      id: suggestion.row.product.id,
+      variationId: suggestion.row.variation?.id ?? null,
+      quantity: suggestion.quantity,
+      daysOfCover: suggestion.daysOfCover,
+    }));
+
+  it('sugiere por variación, las más urgentes primero', () => {
+    expect(describeSuggestions(summary, 30)).toEqual([
+      { id: 'MLA2', variationId: 11, quantity: 8, daysOfCover: 0 },
+      { id: 'MLA1', variationId: null, quantity: 4, daysOfCover: 10 },
+    ]);
+  });
+
+  it('usa el ritmo de la ventana elegida', () => {
+    expect(describeSuggestions(summary, 7).map(({ id, variationId, quantity }) => ({ id, variationId, quantity }))).toEqual([
+      { id: 'MLA2', variationId: 11, quantity: 33 },
+      { id: 'MLA1', variationId: null, quantity: 19 },
+    ]);
+  });
+
+  it('omite las publicaciones cerradas, sin ventas o con stock suficiente', () => {
+    const ids = describeSuggestions(summary, 90).map(({ id, variationId }) => `${id}/${variationId}`);
+
+    expect(ids).not.toContain('MLA3/null');
+    expect(ids).not.toContain('MLA4/null');
+    expect(ids).not.toContain('MLA2/12');
+  });
+
+  it('no sugiere nada sin ventas calculadas', () => {
+    expect(describeSuggestions(null, 30)).toEqual([]);
+  });
+});
@@ -0,0 +1,247 @@
+import type { MeliProduct } from '@/types/product';
+import { CatalogRow, rowSku, rowStock, toCatalogRows } from './variations';
+
+/**
+ * Velocidad de venta a partir de las órdenes pagadas. Todo el módulo es puro
+ * (sin red ni disco) para poder probarlo con órdenes de ejemplo.
+ */
+export type SalesWindow = 7 | 30 | 90;
+
+export const SALES_WINDOWS: SalesWindow[] = [7, 30, 90];
+
+// Ventana que usan las columnas "Ventas/día" y "Días de cobertura"
+export const VELOCITY_WINDOW: SalesWindow = 30;
+
+export interface SaleOrderLine {
+  itemId: string;
+  variationId: number | null;
+  sku: string | null;
+  quantity: number;
+}
+
+export interface SaleOrder {
+  id: number;
+  status: string;
+  // Fecha en que se concretó la venta
+  date: string;
+  items: SaleOrderLine[];
+}
+
+// Unidades vendidas en cada ventana
+export type UnitsSold = Record<SalesWindow, number>;
+
+export interface SalesSummary {
+  computedAt: string;
+  orderCount: number;
+  items: Record<string, UnitsSold>;
+  // Clave `${itemId}/${variationId}`
+  variations: Record<string, UnitsSold>;
+  skus: Record<string, UnitsSold>;
+}
+
+export interface ReorderOptions {
+  window: SalesWindow;
+  // Días que tarda en llegar la reposición
+  leadTimeDays: number;
+  // Días de venta que tiene que cubrir el stock una vez repuesto
+  coverDays: number;
+}
+
+export interface ReorderSuggestion {
+  row: CatalogRow;
+  unitsSold: number;
+  perDay: number;
+  stock: number;
+  daysOfCover: number;
+  quantity: number;
+}
+
+export const DEFAULT_REORDER_OPTIONS: ReorderOptions = {
+  window: VELOCITY_WINDOW,
+  leadTimeDays: 15,
+  coverDays: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyUnits(): UnitsSold {
+  return { 7: 0, 30: 0, 90: 0 };
+}
+
+function variationKey(itemId: string, variationId: number): string {
+  return `${itemId}/${variationId}`;
+}
+
+export function isSalesWindow(value: unknown): value is SalesWindow {
+  return SALES_WINDOWS.includes(value as SalesWindow);
+}
+
+/**
+ * Suma las unidades vendidas por publicación, variación y SKU en cada
+ * ventana, contando hacia atrás desde `now`. Sólo cuentan las órdenes pagadas.
+ */
+export function aggregateSales(orders: SaleOrder[], now: Date): SalesSummary {
+  const summary: SalesSummary = {
+    computedAt: now.toISOString(),
+    orderCount: 0,
+    items: {},
+    variations: {},
+    skus: {},
+  };
+
+  const add = (totals: Record<string, UnitsSold>, key: string, windows: SalesWindow[], quantity: number) => {
+    const units = totals[key] ?? (totals[key] = emptyUnits());
+    windows.forEach((window) => {
+      units[window] += quantity;
+    });
+  };
+
+  for (const order of orders) {
+    if (order.status !== 'paid') continue;
+
+    const ageDays = Math.max(0, (now.getTime() - new Date(order.date).getTime()) / DAY_MS);
+    const windows = SALES_WINDOWS.filter((window) => ageDays < window);
+    if (windows.length === 0) continue;
+
+    summary.orderCount++;
+    for (const line of order.items) {
+      if (!line.itemId || line.quantity <= 0) continue;
+
+      add(summary.items, line.itemId, windows, line.quantity);
+      if (line.variationId !== null) {
+        add(summary.variations, variationKey(line.itemId, line.variationId), windows, line.quantity);
+      }
+      if (line.sku) {
+        add(summary.skus, line.sku, windows, line.quantity);
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Junta las ventas de varias cuentas. Las que nunca se calcularon se saltean;
+ * la fecha es la del cálculo más viejo. Null si no hay ninguna.
+ */
+export function mergeSalesSummaries(summaries: Array<SalesSummary | null>): SalesSummary | null {
+  const present = summaries.filter((summary): summary is SalesSummary => summary !== null);
+  if (present.length <= 1) return present[0] ?? null;
+
+  const merge = (totals: Record<string, UnitsSold>, more: Record<string, UnitsSold>) => {
+    for (const [key, units] of Object.entries(more)) {
+      const merged = totals[key] ?? (totals[key] = emptyUnits());
+      SALES_WINDOWS.forEach((window) => {
+        merged[window] += units[window];
+      });
+    }
+  };
+
+  const merged: SalesSummary = {
+    computedAt: present.map((summary) => summary.computedAt).sort()[0],
+    orderCount: 0,
+    items: {},
+    variations: {},
+    skus: {},
+  };
+
+  for (const summary of present) {
+    merged.orderCount += summary.orderCount;
+    merge(merged.items, summary.items);
+    merge(merged.variations, summary.variations);
+    merge(merged.skus, summary.skus);
+  }
+
+  return merged;
+}
+
+export function productUnitsSold(summary: SalesSummary | null, product: MeliProduct, window: SalesWindow): number {
+  return summary?.items[product.id]?.[window] ?? 0;
+}
+
+export function rowUnitsSold(summary: SalesSummary | null, row: CatalogRow, window: SalesWindow): number {
+  if (!row.variation) {
+    return productUnitsSold(summary, row.product, window);
+  }
+  return summary?.variations[variationKey(row.product.id, row.variation.id)]?.[window] ?? 0;
+}
+
+export function skuUnitsSold(summary: SalesSummary | null, sku: string | null, window: SalesWindow): number {
+  return sku ? summary?.skus[sku]?.[window] ?? 0 : 0;
+}
+
+export function salesPerDay(unitsSold: number, window: SalesWindow): number {
+  return unitsSold / window;
+}
+
+/**
+ * Días que dura el stock al ritmo de venta actual. null si no hubo ventas
+ * (el stock no se agota).
+ */
+export function daysOfCover(stock: number, perDay: number): number | null {
+  return perDay > 0 ? stock / perDay : null;
+}
+
+/**
+ * Sugerencias de reposición a nivel fila (publicación o variación): cuánto
+ * pedir para cubrir el tiempo de reposición más los días objetivo al ritmo de
+ * la ventana elegida. Las más urgentes (menos días de cobertura) primero.
+ */
+export function reorderSuggestions(
+  products: MeliProduct[],
+  summary: SalesSummary | null,
+  options: ReorderOptions
+): ReorderSuggestion[] {
+  const suggestions: ReorderSuggestion[] = [];
+
+  for (const row of toCatalogRows(products.filter((product) => product.status !== 'closed'))) {
+    const unitsSold = rowUnitsSold(summary, row, options.window);
+    const perDay = salesPerDay(unitsSold, options.window);
+    if (perDay === 0) continue;
+
+    const stock = rowStock(row);
+    const quantity = Math.ceil(perDay * (options.leadTimeDays + options.coverDays) - stock);
+    if (quantity <= 0) continue;
+
+    suggestions.push({ row, unitsSold, perDay, stock, daysOfCover: stock / perDay, quantity });
+  }
+
+  return suggestions.sort((a, b) => a.daysOfCover - b.daysOfCover || b.quantity - a.quantity);
+}
+
+/**
+ * Fila de la exportación del reporte de reposición.
+ */
+export function reorderExportRow(suggestion: ReorderSuggestion, window: SalesWindow): Record<string, string | number> {
+  const { row } = suggestion;
+  return {
+    'ID': row.product.id,
+    'ID Variación': row.variation?.id ?? '',
+    'Producto': row.product.title,
+    'SKU': rowSku(row) || '-',
+    'Stock': suggestion.stock,
+    [`Vendidas (${window} días)`]: suggestion.unitsSold,
+    'Ventas/día': Math.round(suggestion.perDay * 100) / 100,
+    'Días de cobertura': Math.floor(suggestion.daysOfCover),
+    'Cantidad sugerida': suggestion.quantity,
+  };
+}
+
+/**
+ * Lee las opciones del reporte de reposición de la query string. Los valores
+ * ausentes usan los de por defecto.
+ */
+export function parseReorderOptions(params: URLSearchParams): ReorderOptions | { error: string } {
+  const window = Number(params.get('window') ?? DEFAULT_REORDER_OPTIONS.window);
+  const leadTimeDays = Number(params.get('leadTime') ?? DEFAULT_REORDER_OPTIONS.leadTimeDays);
+  const coverDays = Number(params.get('cover') ?? DEFAULT_REORDER_OPTIONS.coverDays);
+
+  if (!isSalesWindow(window)) {
+    return { error: `La ventana debe ser ${SALES_WINDOWS.join(', ')} días` };
+  }
+  if (!Number.isInteger(leadTimeDays) || leadTimeDays < 0 || !Number.isInteger(coverDays) || coverDays < 1) {
+    return { error: 'El tiempo de reposición y los días a cubrir deben ser números enteros positivos' };
+  }
+
+  return { window, leadTimeDays, coverDays };
+}
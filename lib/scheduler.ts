@@ -0,0 +1,59 @@
+import { nextRun, parseCron } from './cron';
+import { runReport } from './report-runner';
+import { listSellerIds } from './store/files';
+import { getReportRepository } from './store/reports';
+
+const TICK_MS = 60_000;
+
+// En desarrollo el módulo se recarga: el estado vive en globalThis para no
+// arrancar un segundo intervalo
+const state = globalThis as typeof globalThis & {
+  reportScheduler?: { timer: NodeJS.Timeout; running: boolean };
+};
+
+/**
+ * Ejecuta los reportes vencidos de todos los vendedores. Un reporte vence
+ * cuando su próxima ejecución (desde la última, o desde que se creó) ya pasó;
+ * si el servidor estuvo apagado se ejecuta una sola vez al volver.
+ */
+export async function runDueReports(now = new Date()): Promise<number> {
+  const repository = getReportRepository();
+  let executed = 0;
+
+  for (const sellerId of await listSellerIds()) {
+    for (const report of await repository.listReports(sellerId)) {
+      const schedule = parseCron(report.cron);
+      if (!report.enabled || !schedule) continue;
+
+      if (nextRun(schedule, new Date(report.lastRunAt ?? report.createdAt)) <= now) {
+        await runReport(sellerId, report, 'schedule');
+        executed++;
+      }
+    }
+  }
+
+  return executed;
+}
+
+export function startReportScheduler() {
+  if (state.reportScheduler) return;
+
+  const scheduler = {
+    running: false,
+    timer: setInterval(async () => {
+      // Un ciclo largo (muchos reportes) no se superpone con el siguiente
+      if (scheduler.running) return;
+      scheduler.running = true;
+
+      try {
+        await runDueReports();
+      } catch (error) {
+        console.error('Error ejecutando reportes programados:', error);
+      } finally {
+        scheduler.running = false;
+      }
+    }, TICK_MS),
+  };
+
+  state.reportScheduler = scheduler;
+}
@@ -0,0 +1,16 @@
+// Lo que necesita también el middleware, que corre en edge: no puede importar
+// módulos que usen fs o crypto de Node
+
+// Cookie con el ID opaco de la sesión. La sesión y los tokens de Mercado
+// Libre se guardan en el servidor.
+export const SESSION_COOKIE = 'meli_session';
+
+// Vencimiento de la sesión desde que se inicia, en segundos
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 30;
+
+// 32 bytes aleatorios en base64url
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export function isSessionId(value: string | undefined): value is string {
+  return value !== undefined && SESSION_ID_PATTERN.test(value);
+}
@@ -0,0 +1,21 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+
+  if (!secret) {
+    throw new Error('AUTH_SECRET no configurado');
+  }
+
+  return secret;
+}
+
+export function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
@@ -0,0 +1,152 @@
+import net from 'net';
+
+export interface MailAttachment {
+  fileName: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  attachment?: MailAttachment;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Lee las respuestas del servidor. Una respuesta puede ocupar varias líneas
+ * ("250-..."); termina en la línea con espacio después del código ("250 ...").
+ */
+function replyReader(socket: net.Socket) {
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      lines.push(line);
+
+      if (/^\d{3}( |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.map((l) => l.slice(4)).join(' ') };
+        lines = [];
+        const next = waiting.shift();
+        next ? next.resolve(reply) : replies.push(reply);
+      }
+    }
+  });
+
+  const fail = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(({ reject }) => reject(error));
+  };
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('El servidor SMTP cerró la conexión')));
+
+  return (): Promise<SmtpReply> => {
+    const reply = replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Lines(content: Uint8Array | string): string {
+  return (Buffer.from(content).toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+function buildMessage(message: MailMessage): string {
+  const boundary = `----meli-dashboard-${Date.now().toString(36)}`;
+  const lines = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+  ];
+
+  if (message.attachment) {
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${message.attachment.contentType}; name="${message.attachment.fileName}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${message.attachment.fileName}"`,
+      '',
+      base64Lines(message.attachment.content)
+    );
+  }
+
+  lines.push(`--${boundary}--`);
+  return lines.join('\r\n');
+}
+
+/**
+ * Cliente SMTP mínimo, sin TLS ni autenticación, pensado para un relay o
+ * buzón de pruebas local (por ejemplo MailHog). El cuerpo va en base64, así
+ * ninguna línea empieza con "." y no hace falta escaparlas.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const socket = net.createConnection({ host: options.host, port: options.port });
+  socket.setEncoding('utf8');
+  socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+    socket.destroy(new Error('Tiempo de espera agotado con el servidor SMTP'));
+  });
+
+  const nextReply = replyReader(socket);
+
+  const expect = async (codes: number[]) => {
+    const reply = await nextReply();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`El servidor SMTP respondió ${reply.code}: ${reply.text}`);
+    }
+  };
+
+  const command = async (line: string, codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    await expect(codes);
+  };
+
+  try {
+    await expect([220]);
+    await command('EHLO localhost', [250]);
+    await command(`MAIL FROM:<${message.from}>`, [250]);
+    for (const to of message.to) {
+      await command(`RCPT TO:<${to}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+    await command(`${buildMessage(message)}\r\n.`, [250]);
+    await command('QUIT', [221]);
+  } finally {
+    socket.destroy();
+  }
+}
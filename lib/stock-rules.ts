@@ -0,0 +1,141 @@
+import type { MeliProduct, MeliVariation } from '@/types/product';
+import { Badge, FULFILLMENT_LABELS, getFulfillmentKey } from './products';
+import { asRecord, hasKey } from './validation';
+
+export type StockLevel = 'sin_stock' | 'bajo' | 'normal';
+
+export type StockRuleScope = 'listing' | 'sku_prefix' | 'fulfillment';
+
+export interface StockRule {
+  id: string;
+  scope: StockRuleScope;
+  // ID de publicación, prefijo de SKU o tipo de fulfillment según el alcance
+  match: string;
+  threshold: number;
+}
+
+export interface StockRules {
+  defaultThreshold: number;
+  rules: StockRule[];
+}
+
+export const DEFAULT_STOCK_RULES: StockRules = {
+  defaultThreshold: 5,
+  rules: [],
+};
+
+export const STOCK_LEVELS: Record<StockLevel, Badge> = {
+  sin_stock: { label: 'Sin stock', color: 'bg-red-100 text-red-800' },
+  bajo: { label: 'Stock bajo', color: 'bg-yellow-100 text-yellow-800' },
+  normal: { label: 'Stock normal', color: 'bg-green-100 text-green-800' },
+};
+
+export const SCOPE_LABELS: Record<StockRuleScope, string> = {
+  listing: 'Publicación',
+  sku_prefix: 'Prefijo de SKU',
+  fulfillment: 'Fulfillment',
+};
+
+/**
+ * Umbral de stock bajo que aplica a la publicación (o a una de sus
+ * variaciones). Gana la regla más específica: publicación, después el
+ * prefijo de SKU más largo, después el fulfillment y por último el default.
+ */
+export function thresholdFor(
+  rules: StockRules,
+  product: MeliProduct,
+  variation: MeliVariation | null = null
+): number {
+  const listingRule = rules.rules.find(
+    (rule) => rule.scope === 'listing' && rule.match.trim().toUpperCase() === product.id
+  );
+  if (listingRule) return listingRule.threshold;
+
+  const sku = (variation?.seller_sku ?? product.seller_sku ?? '').toLowerCase();
+  const prefixRule = sku
+    ? rules.rules
+      .filter((rule) => rule.scope === 'sku_prefix' && rule.match && sku.startsWith(rule.match.toLowerCase()))
+      .sort((a, b) => b.match.length - a.match.length)[0]
+    : undefined;
+  if (prefixRule) return prefixRule.threshold;
+
+  const fulfillment = getFulfillmentKey(product.shipping);
+  const fulfillmentRule = rules.rules.find(
+    (rule) => rule.scope === 'fulfillment' && rule.match === fulfillment
+  );
+  if (fulfillmentRule) return fulfillmentRule.threshold;
+
+  return rules.defaultThreshold;
+}
+
+export function stockLevel(quantity: number, threshold: number): StockLevel {
+  if (quantity <= 0) return 'sin_stock';
+  if (quantity <= threshold) return 'bajo';
+  return 'normal';
+}
+
+export function getStockLevel(
+  rules: StockRules,
+  product: MeliProduct,
+  variation: MeliVariation | null = null
+): StockLevel {
+  const quantity = variation ? variation.available_quantity : product.available_quantity;
+  return stockLevel(quantity, thresholdFor(rules, product, variation));
+}
+
+/**
+ * Valida reglas recibidas del cliente. Devuelve los errores encontrados.
+ */
+export function validateStockRules(input: unknown): string[] {
+  const errors: string[] = [];
+  const isThreshold = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+  const { defaultThreshold, rules } = asRecord(input);
+
+  if (!isThreshold(defaultThreshold)) {
+    errors.push('El umbral por defecto debe ser un entero mayor o igual a 0');
+  }
+
+  if (!Array.isArray(rules)) {
+    errors.push('Las reglas deben ser una lista');
+    return errors;
+  }
+
+  rules.forEach((value: unknown, i: number) => {
+    const rule = asRecord(value);
+    const position = `Regla ${i + 1}`;
+    if (!hasKey(SCOPE_LABELS, rule.scope)) {
+      errors.push(`${position}: alcance inválido`);
+    }
+    if (typeof rule.match !== 'string' || !rule.match.trim()) {
+      errors.push(`${position}: falta el valor a comparar`);
+    } else if (rule.scope === 'fulfillment' && !hasKey(FULFILLMENT_LABELS, rule.match)) {
+      errors.push(`${position}: fulfillment desconocido`);
+    }
+    if (!isThreshold(rule.threshold)) {
+      errors.push(`${position}: el umbral debe ser un entero mayor o igual a 0`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Reglas de stock a partir de un input ya validado con validateStockRules.
+ * Las reglas nuevas (sin id) reciben uno.
+ */
+export function toStockRules(input: unknown): StockRules {
+  const { defaultThreshold, rules } = asRecord(input);
+
+  return {
+    defaultThreshold: Number(defaultThreshold),
+    rules: (Array.isArray(rules) ? rules : []).map((value: unknown, i: number) => {
+      const rule = asRecord(value);
+      return {
+        id: typeof rule.id === 'string' && rule.id ? rule.id : `rule-${Date.now()}-${i}`,
+        scope: rule.scope as StockRuleScope,
+        match: String(rule.match).trim(),
+        threshold: Number(rule.threshold),
+      };
+    }),
+  };
+}
@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AuditEntry } from '../audit';
+import { sellerPath } from './files';
+
+/**
+ * Auditoría de cambios de cada vendedor. Sólo se puede agregar: no hay forma
+ * de modificar ni borrar entradas.
+ */
+export interface AuditRepository {
+  append(sellerId: number, entries: AuditEntry[]): Promise<void>;
+  // Las más recientes primero
+  list(sellerId: number): Promise<AuditEntry[]>;
+}
+
+/**
+ * Una entrada por línea (JSON Lines). Cada cambio se agrega al final del
+ * archivo sin reescribir lo anterior.
+ */
+export class FileAuditRepository implements AuditRepository {
+  async append(sellerId: number, entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const filePath = sellerPath(sellerId, 'audit.jsonl');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+  }
+
+  async list(sellerId: number): Promise<AuditEntry[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(sellerPath(sellerId, 'audit.jsonl'), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return text
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as AuditEntry)
+      .reverse();
+  }
+}
+
+export class MemoryAuditRepository implements AuditRepository {
+  private entries = new Map<number, AuditEntry[]>();
+
+  async append(sellerId: number, entries: AuditEntry[]): Promise<void> {
+    this.entries.set(sellerId, [...(this.entries.get(sellerId) ?? []), ...entries]);
+  }
+
+  async list(sellerId: number): Promise<AuditEntry[]> {
+    return [...(this.entries.get(sellerId) ?? [])].reverse();
+  }
+}
+
+let repository: AuditRepository = new FileAuditRepository();
+
+export function getAuditRepository(): AuditRepository {
+  return repository;
+}
+
+export function setAuditRepository(next: AuditRepository) {
+  repository = next;
+}
@@ -0,0 +1,97 @@
+import { MeliProduct } from '@/types/product';
+import { getSemaphore } from '../rate-limit';
+import { readJson, sellerPath, writeJson } from './files';
+
+// Subir cuando cambie la forma de los items guardados: fuerza a la próxima
+// sincronización a volver a pedir todo el catálogo
+export const CATALOG_VERSION = 3;
+
+export interface StoredCatalog {
+  version?: number;
+  sellerId: number;
+  siteId: string;
+  syncedAt: string | null;
+  items: MeliProduct[];
+}
+
+/**
+ * Acceso al catálogo guardado de cada vendedor. La sincronización y las
+ * rutas sólo dependen de esta interfaz, así se pueden probar sin disco ni
+ * red usando MemoryCatalogRepository con datos de ejemplo.
+ */
+export interface CatalogRepository {
+  load(sellerId: number): Promise<StoredCatalog | null>;
+  save(catalog: StoredCatalog): Promise<void>;
+}
+
+// Completa los campos que no existían en versiones anteriores del catálogo
+function upgradeCatalog(catalog: StoredCatalog): StoredCatalog {
+  if (catalog.version === CATALOG_VERSION) return catalog;
+
+  return {
+    ...catalog,
+    items: catalog.items.map((item) => ({
+      ...item,
+      listing_type_id: item.listing_type_id ?? null,
+      variations: item.variations ?? [],
+    })),
+  };
+}
+
+export class FileCatalogRepository implements CatalogRepository {
+  async load(sellerId: number): Promise<StoredCatalog | null> {
+    const catalog = await readJson<StoredCatalog>(sellerPath(sellerId, 'catalog.json'));
+    return catalog && upgradeCatalog(catalog);
+  }
+
+  async save(catalog: StoredCatalog): Promise<void> {
+    await writeJson(sellerPath(catalog.sellerId, 'catalog.json'), catalog);
+  }
+}
+
+export class MemoryCatalogRepository implements CatalogRepository {
+  private catalogs = new Map<number, StoredCatalog>();
+
+  constructor(fixtures: StoredCatalog[] = []) {
+    fixtures.forEach((catalog) => this.catalogs.set(catalog.sellerId, catalog));
+  }
+
+  async load(sellerId: number): Promise<StoredCatalog | null> {
+    return this.catalogs.get(sellerId) ?? null;
+  }
+
+  async save(catalog: StoredCatalog): Promise<void> {
+    this.catalogs.set(catalog.sellerId, catalog);
+  }
+}
+
+let repository: CatalogRepository = new FileCatalogRepository();
+
+export function getCatalogRepository(): CatalogRepository {
+  return repository;
+}
+
+export function setCatalogRepository(next: CatalogRepository) {
+  repository = next;
+}
+
+/**
+ * Lee, modifica y guarda el catálogo del vendedor sin que otra escritura del
+ * mismo vendedor se intercale (sync, notificaciones, edición masiva).
+ * `update` recibe el catálogo recién leído y devuelve el que se guarda, o
+ * null para no guardar nada. Como el bloqueo es del proceso, `update` no
+ * debería llamar a la API: los datos se piden antes y acá sólo se combinan.
+ */
+export async function updateCatalog(
+  sellerId: number,
+  update: (catalog: StoredCatalog | null) => StoredCatalog | null,
+  catalogRepository: CatalogRepository = repository
+): Promise<StoredCatalog | null> {
+  return getSemaphore(`catalog:${sellerId}`, 1).run(async () => {
+    const next = update(await catalogRepository.load(sellerId));
+    if (next) {
+      await catalogRepository.save(next);
+    }
+    return next;
+  });
+}
@@ -0,0 +1,53 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export function getDataDir(): string {
+  return process.env.MELI_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+export function sellerPath(sellerId: number, ...segments: string[]): string {
+  return path.join(getDataDir(), 'sellers', String(sellerId), ...segments);
+}
+
+export async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * IDs de los vendedores que tienen datos guardados.
+ */
+export async function listSellerIds(): Promise<number[]> {
+  try {
+    const entries = await fs.readdir(path.join(getDataDir(), 'sellers'));
+    return entries.filter((entry) => /^\d+$/.test(entry)).map(Number);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Escribe el archivo en un temporal y lo renombra, así un lector nunca ve
+ * un archivo a medio escribir.
+ */
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Dos escrituras del mismo archivo pueden caer en el mismo milisegundo
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.${randomBytes(6).toString('hex')}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
+
+export async function writeJson(filePath: string, data: unknown): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(data));
+}
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import type { ReportRun, ScheduledReport } from '../reports';
+import { readJson, sellerPath, writeFileAtomic, writeJson } from './files';
+
+// Ejecuciones que se conservan en el historial de cada vendedor
+const MAX_RUNS = 200;
+
+const RUN_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Reportes programados de cada vendedor y el historial de sus ejecuciones,
+ * con una copia del archivo generado en cada una.
+ */
+export interface ReportRepository {
+  listReports(sellerId: number): Promise<ScheduledReport[]>;
+  saveReports(sellerId: number, reports: ScheduledReport[]): Promise<void>;
+  // Las más recientes primero
+  listRuns(sellerId: number): Promise<ReportRun[]>;
+  saveRun(sellerId: number, run: ReportRun, file: Uint8Array | null): Promise<void>;
+  loadRunFile(sellerId: number, run: ReportRun): Promise<Uint8Array | null>;
+}
+
+export function reportIdFor(createdAt: string): string {
+  return `report-${createdAt.replace(/[:.]/g, '-')}`;
+}
+
+export function runIdFor(startedAt: string, reportId: string): string {
+  return `${reportId}-${startedAt.replace(/[:.]/g, '-')}`;
+}
+
+function runFileName(run: ReportRun): string {
+  return `${run.id}${run.fileName ? run.fileName.slice(run.fileName.lastIndexOf('.')) : ''}`;
+}
+
+export class FileReportRepository implements ReportRepository {
+  private runsIndexPath(sellerId: number) {
+    return sellerPath(sellerId, 'report-runs', 'index.json');
+  }
+
+  async listReports(sellerId: number): Promise<ScheduledReport[]> {
+    return (await readJson<ScheduledReport[]>(sellerPath(sellerId, 'reports.json'))) ?? [];
+  }
+
+  async saveReports(sellerId: number, reports: ScheduledReport[]): Promise<void> {
+    await writeJson(sellerPath(sellerId, 'reports.json'), reports);
+  }
+
+  async listRuns(sellerId: number): Promise<ReportRun[]> {
+    return (await readJson<ReportRun[]>(this.runsIndexPath(sellerId))) ?? [];
+  }
+
+  async saveRun(sellerId: number, run: ReportRun, file: Uint8Array | null): Promise<void> {
+    if (file) {
+      await writeFileAtomic(sellerPath(sellerId, 'report-runs', runFileName(run)), file);
+    }
+
+    const runs = [run, ...(await this.listRuns(sellerId)).filter((r) => r.id !== run.id)];
+    await writeJson(this.runsIndexPath(sellerId), runs.slice(0, MAX_RUNS));
+
+    // Los archivos de las ejecuciones que salen del historial se borran
+    await Promise.all(
+      runs.slice(MAX_RUNS).map((old) => fs.rm(sellerPath(sellerId, 'report-runs', runFileName(old)), { force: true }))
+    );
+  }
+
+  async loadRunFile(sellerId: number, run: ReportRun): Promise<Uint8Array | null> {
+    if (!run.fileName || !RUN_ID_PATTERN.test(run.id)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(sellerPath(sellerId, 'report-runs', runFileName(run)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export class MemoryReportRepository implements ReportRepository {
+  private reports = new Map<number, ScheduledReport[]>();
+  private runs = new Map<number, ReportRun[]>();
+  private files = new Map<string, Uint8Array>();
+
+  async listReports(sellerId: number): Promise<ScheduledReport[]> {
+    return this.reports.get(sellerId) ?? [];
+  }
+
+  async saveReports(sellerId: number, reports: ScheduledReport[]): Promise<void> {
+    this.reports.set(sellerId, reports);
+  }
+
+  async listRuns(sellerId: number): Promise<ReportRun[]> {
+    return this.runs.get(sellerId) ?? [];
+  }
+
+  async saveRun(sellerId: number, run: ReportRun, file: Uint8Array | null): Promise<void> {
+    if (file) {
+      this.files.set(`${sellerId}:${run.id}`, file);
+    }
+    const runs = [run, ...(await this.listRuns(sellerId)).filter((r) => r.id !== run.id)];
+    this.runs.set(sellerId, runs.slice(0, MAX_RUNS));
+  }
+
+  async loadRunFile(sellerId: number, run: ReportRun): Promise<Uint8Array | null> {
+    return this.files.get(`${sellerId}:${run.id}`) ?? null;
+  }
+}
+
+let repository: ReportRepository = new FileReportRepository();
+
+export function getReportRepository(): ReportRepository {
+  return repository;
+}
+
+export function setReportRepository(next: ReportRepository) {
+  repository = next;
+}
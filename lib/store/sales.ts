@@ -0,0 +1,43 @@
+import type { SalesSummary } from '../sales';
+import { readJson, sellerPath, writeJson } from './files';
+
+/**
+ * Última agregación de ventas de cada vendedor. Se recalcula desde las
+ * órdenes con POST /api/sales; null si nunca se calculó.
+ */
+export interface SalesRepository {
+  load(sellerId: number): Promise<SalesSummary | null>;
+  save(sellerId: number, summary: SalesSummary): Promise<void>;
+}
+
+export class FileSalesRepository implements SalesRepository {
+  async load(sellerId: number): Promise<SalesSummary | null> {
+    return readJson<SalesSummary>(sellerPath(sellerId, 'sales.json'));
+  }
+
+  async save(sellerId: number, summary: SalesSummary): Promise<void> {
+    await writeJson(sellerPath(sellerId, 'sales.json'), summary);
+  }
+}
+
+export class MemorySalesRepository implements SalesRepository {
+  private summaries = new Map<number, SalesSummary>();
+
+  async load(sellerId: number): Promise<SalesSummary | null> {
+    return this.summaries.get(sellerId) ?? null;
+  }
+
+  async save(sellerId: number, summary: SalesSummary): Promise<void> {
+    this.summaries.set(sellerId, summary);
+  }
+}
+
+let repository: SalesRepository = new FileSalesRepository();
+
+export function getSalesRepository(): SalesRepository {
+  return repository;
+}
+
+export function setSalesRepository(next: SalesRepository) {
+  repository = next;
+}
@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LinkedAccount } from '../accounts';
+import type { SiteId } from '../meli/sites';
+import type { SessionUser } from '../team';
+import { getDataDir, readJson, writeJson } from './files';
+
+export interface Session {
+  // Hash del ID de la cookie: con lo guardado no se puede armar una cookie válida
+  id: string;
+  // Para los miembros del equipo el rol se vuelve a leer en cada request
+  user: SessionUser;
+  // Cuenta activa y su sitio
+  sellerId: number;
+  siteId: SiteId;
+  // Cuentas vinculadas; siempre incluye la activa
+  accounts: LinkedAccount[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Sesiones abiertas del dashboard. La cookie del navegador sólo tiene el ID;
+ * los tokens de cada cuenta están en el TokenRepository.
+ */
+export interface SessionRepository {
+  load(id: string): Promise<Session | null>;
+  save(session: Session): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Borra las sesiones con acceso a la cuenta (sólo las de `userId` si se
+  // indica) y devuelve cuántas eran
+  deleteForSeller(sellerId: number, userId?: string): Promise<number>;
+}
+
+export function hashSessionId(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
+
+const SESSION_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+function matches(session: Session, sellerId: number, userId?: string): boolean {
+  return session.accounts.some((account) => account.id === sellerId) && (!userId || session.user.id === userId);
+}
+
+export class FileSessionRepository implements SessionRepository {
+  private dir() {
+    return path.join(getDataDir(), 'sessions');
+  }
+
+  private sessionPath(id: string) {
+    return path.join(this.dir(), `${id}.json`);
+  }
+
+  async load(id: string): Promise<Session | null> {
+    return SESSION_HASH_PATTERN.test(id) ? readJson<Session>(this.sessionPath(id)) : null;
+  }
+
+  async save(session: Session): Promise<void> {
+    await writeJson(this.sessionPath(session.id), session);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!SESSION_HASH_PATTERN.test(id)) return;
+    await fs.rm(this.sessionPath(id), { force: true });
+  }
+
+  async deleteForSeller(sellerId: number, userId?: string): Promise<number> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.dir());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+
+    let deleted = 0;
+    for (const entry of entries.filter((name) => name.endsWith('.json'))) {
+      const id = entry.slice(0, -'.json'.length);
+      const session = await this.load(id);
+
+      // De paso se borran las vencidas
+      if (session && (matches(session, sellerId, userId) || new Date(session.expiresAt).getTime() <= Date.now())) {
+        await this.delete(id);
+        if (matches(session, sellerId, userId)) deleted++;
+      }
+    }
+
+    return deleted;
+  }
+}
+
+export class MemorySessionRepository implements SessionRepository {
+  private sessions = new Map<string, Session>();
+
+  async load(id: string): Promise<Session | null> {
+    return this.sessions.get(id) ?? null;
+  }
+
+  async save(session: Session): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async deleteForSeller(sellerId: number, userId?: string): Promise<number> {
+    const ids = Array.from(this.sessions.values())
+      .filter((session) => matches(session, sellerId, userId))
+      .map((session) => session.id);
+    ids.forEach((id) => this.sessions.delete(id));
+    return ids.length;
+  }
+}
+
+let repository: SessionRepository = new FileSessionRepository();
+
+export function getSessionRepository(): SessionRepository {
+  return repository;
+}
+
+export function setSessionRepository(next: SessionRepository) {
+  repository = next;
+}
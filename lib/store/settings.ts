@@ -0,0 +1,68 @@
+import { DEFAULT_STOCK_RULES, StockRules } from '../stock-rules';
+import { DEFAULT_TABLE_LAYOUT, TableLayout } from '../table-columns';
+import { OWNER_USER_ID } from '../team';
+import { readJson, sellerPath, writeJson } from './files';
+
+export interface SellerSettings {
+  stockRules: StockRules;
+  // Diseño de la tabla de cada usuario del dashboard, por ID de usuario
+  tableLayouts: Record<string, TableLayout>;
+}
+
+const DEFAULT_SETTINGS: SellerSettings = {
+  stockRules: DEFAULT_STOCK_RULES,
+  tableLayouts: {},
+};
+
+export function tableLayoutFor(settings: SellerSettings, userId: string): TableLayout {
+  return settings.tableLayouts[userId] ?? DEFAULT_TABLE_LAYOUT;
+}
+
+/**
+ * Configuración guardada de cada vendedor. Si nunca se guardó, devuelve los
+ * valores por defecto.
+ */
+export interface SettingsRepository {
+  load(sellerId: number): Promise<SellerSettings>;
+  save(sellerId: number, settings: SellerSettings): Promise<void>;
+}
+
+export class FileSettingsRepository implements SettingsRepository {
+  async load(sellerId: number): Promise<SellerSettings> {
+    const { tableLayout, ...stored } = (await readJson<Partial<SellerSettings> & { tableLayout?: TableLayout }>(
+      sellerPath(sellerId, 'settings.json')
+    )) ?? {};
+    const settings = { ...DEFAULT_SETTINGS, ...stored };
+
+    // Antes había un solo diseño por cuenta: queda como el del dueño
+    return tableLayout
+      ? { ...settings, tableLayouts: { [OWNER_USER_ID]: tableLayout, ...settings.tableLayouts } }
+      : settings;
+  }
+
+  async save(sellerId: number, settings: SellerSettings): Promise<void> {
+    await writeJson(sellerPath(sellerId, 'settings.json'), settings);
+  }
+}
+
+export class MemorySettingsRepository implements SettingsRepository {
+  private settings = new Map<number, SellerSettings>();
+
+  async load(sellerId: number): Promise<SellerSettings> {
+    return this.settings.get(sellerId) ?? DEFAULT_SETTINGS;
+  }
+
+  async save(sellerId: number, settings: SellerSettings): Promise<void> {
+    this.settings.set(sellerId, settings);
+  }
+}
+
+let repository: SettingsRepository = new FileSettingsRepository();
+
+export function getSettingsRepository(): SettingsRepository {
+  return repository;
+}
+
+export function setSettingsRepository(next: SettingsRepository) {
+  repository = next;
+}
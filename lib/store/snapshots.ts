@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import { HistoryPoint, itemHistory, retainedSnapshots } from '../history';
+import { readJson, sellerPath, writeJson } from './files';
+
+export interface SnapshotItem {
+  id: string;
+  title: string;
+  sku: string | null;
+  price: number;
+  currency_id: string;
+  available_quantity: number;
+  status: string;
+}
+
+export interface Snapshot {
+  id: string;
+  sellerId: number;
+  takenAt: string;
+  items: SnapshotItem[];
+}
+
+export interface SnapshotSummary {
+  id: string;
+  takenAt: string;
+  itemCount: number;
+}
+
+/**
+ * Historial de fotos del catálogo de cada vendedor. Se guarda una por
+ * sincronización y al guardar se aplica la retención de `retainedSnapshots`.
+ */
+export interface SnapshotRepository {
+  list(sellerId: number): Promise<SnapshotSummary[]>;
+  load(sellerId: number, snapshotId: string): Promise<Snapshot | null>;
+  save(snapshot: Snapshot): Promise<void>;
+  // Evolución de un item en las fotos retenidas, sin cargarlas todas
+  itemHistory(sellerId: number, itemId: string): Promise<HistoryPoint[]>;
+}
+
+const SNAPSHOT_ID_PATTERN = /^[\w-]+$/;
+
+export function snapshotIdFor(takenAt: string): string {
+  return takenAt.replace(/[:.]/g, '-');
+}
+
+// El índice por item se reparte en archivos para no leer todo el historial
+const HISTORY_SHARDS = 32;
+
+type HistoryShard = Record<string, HistoryPoint[]>;
+
+function shardFor(itemId: string): number {
+  let hash = 0;
+  for (let i = 0; i < itemId.length; i++) {
+    hash = (hash * 31 + itemId.charCodeAt(i)) >>> 0;
+  }
+  return hash % HISTORY_SHARDS;
+}
+
+function historyPoint(takenAt: string, item: SnapshotItem): HistoryPoint {
+  return {
+    takenAt,
+    price: item.price,
+    available_quantity: item.available_quantity,
+    status: item.status,
+  };
+}
+
+function summarize(snapshot: Snapshot): SnapshotSummary {
+  return {
+    id: snapshot.id,
+    takenAt: snapshot.takenAt,
+    itemCount: snapshot.items.length,
+  };
+}
+
+export class FileSnapshotRepository implements SnapshotRepository {
+  private indexPath(sellerId: number) {
+    return sellerPath(sellerId, 'snapshots', 'index.json');
+  }
+
+  async list(sellerId: number): Promise<SnapshotSummary[]> {
+    return (await readJson<SnapshotSummary[]>(this.indexPath(sellerId))) ?? [];
+  }
+
+  private snapshotPath(sellerId: number, snapshotId: string) {
+    return sellerPath(sellerId, 'snapshots', `${snapshotId}.json`);
+  }
+
+  private historyPath(sellerId: number, ...segments: string[]) {
+    return sellerPath(sellerId, 'snapshots', 'history', ...segments);
+  }
+
+  async load(sellerId: number, snapshotId: string): Promise<Snapshot | null> {
+    // El ID llega desde la URL: no se permite que salga de la carpeta
+    if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      return null;
+    }
+    return readJson<Snapshot>(this.snapshotPath(sellerId, snapshotId));
+  }
+
+  async save(snapshot: Snapshot): Promise<void> {
+    const { sellerId } = snapshot;
+    await writeJson(this.snapshotPath(sellerId, snapshot.id), snapshot);
+
+    const previous = (await this.list(sellerId)).filter((s) => s.id !== snapshot.id);
+    const index = retainedSnapshots([...previous, summarize(snapshot)]);
+    await this.updateHistory(sellerId, index, snapshot);
+    await writeJson(this.indexPath(sellerId), index);
+
+    const kept = new Set(index.map((s) => s.id));
+    for (const summary of previous.filter((s) => !kept.has(s.id))) {
+      await fs.rm(this.snapshotPath(sellerId, summary.id), { force: true });
+    }
+  }
+
+  async itemHistory(sellerId: number, itemId: string): Promise<HistoryPoint[]> {
+    // Fotos guardadas antes de que existiera el índice: se arma la primera vez
+    if (!(await readJson<string[]>(this.historyPath(sellerId, 'snapshots.json')))) {
+      await this.updateHistory(sellerId, await this.list(sellerId));
+    }
+    const shard = await readJson<HistoryShard>(this.historyPath(sellerId, `${shardFor(itemId)}.json`));
+    return shard?.[itemId] ?? [];
+  }
+
+  /**
+   * Deja el índice por item con los puntos de las fotos de `index`: quita
+   * los de fotos descartadas y agrega los de fotos que todavía no tenía.
+   */
+  private async updateHistory(sellerId: number, index: SnapshotSummary[], latest?: Snapshot) {
+    const indexed = new Set((await readJson<string[]>(this.historyPath(sellerId, 'snapshots.json'))) ?? []);
+    const additions = new Map<number, Array<[string, HistoryPoint]>>();
+
+    for (const summary of index.filter((s) => !indexed.has(s.id))) {
+      const snapshot = summary.id === latest?.id ? latest : await this.load(sellerId, summary.id);
+      for (const item of snapshot?.items ?? []) {
+        const shard = shardFor(item.id);
+        if (!additions.has(shard)) additions.set(shard, []);
+        additions.get(shard)!.push([item.id, historyPoint(summary.takenAt, item)]);
+      }
+    }
+
+    const takenAt = new Set(index.map((s) => s.takenAt));
+    for (let shard = 0; shard < HISTORY_SHARDS; shard++) {
+      const filePath = this.historyPath(sellerId, `${shard}.json`);
+      const points = (await readJson<HistoryShard>(filePath)) ?? {};
+      const next: HistoryShard = {};
+
+      for (const [itemId, itemPoints] of Object.entries(points)) {
+        const kept = itemPoints.filter((point) => takenAt.has(point.takenAt));
+        if (kept.length > 0) next[itemId] = kept;
+      }
+      for (const [itemId, point] of additions.get(shard) ?? []) {
+        (next[itemId] ??= []).push(point);
+      }
+      Object.values(next).forEach((itemPoints) => itemPoints.sort((a, b) => a.takenAt.localeCompare(b.takenAt)));
+      await writeJson(filePath, next);
+    }
+
+    await writeJson(this.historyPath(sellerId, 'snapshots.json'), index.map((s) => s.id));
+  }
+}
+
+export class MemorySnapshotRepository implements SnapshotRepository {
+  private snapshots: Snapshot[];
+
+  constructor(fixtures: Snapshot[] = []) {
+    this.snapshots = [...fixtures];
+  }
+
+  async list(sellerId: number): Promise<SnapshotSummary[]> {
+    return this.snapshots
+      .filter((snapshot) => snapshot.sellerId === sellerId)
+      .sort((a, b) => a.takenAt.localeCompare(b.takenAt))
+      .map(summarize);
+  }
+
+  async load(sellerId: number, snapshotId: string): Promise<Snapshot | null> {
+    return this.snapshots.find((s) => s.sellerId === sellerId && s.id === snapshotId) ?? null;
+  }
+
+  async save(snapshot: Snapshot): Promise<void> {
+    this.snapshots = this.snapshots.filter(
+      (s) => !(s.sellerId === snapshot.sellerId && s.id === snapshot.id)
+    );
+    this.snapshots.push(snapshot);
+
+    const kept = new Set(retainedSnapshots(await this.list(snapshot.sellerId)).map((s) => s.id));
+    this.snapshots = this.snapshots.filter(
+      (s) => s.sellerId !== snapshot.sellerId || kept.has(s.id)
+    );
+  }
+
+  async itemHistory(sellerId: number, itemId: string): Promise<HistoryPoint[]> {
+    return itemHistory(this.snapshots.filter((s) => s.sellerId === sellerId), itemId);
+  }
+}
+
+let repository: SnapshotRepository = new FileSnapshotRepository();
+
+export function getSnapshotRepository(): SnapshotRepository {
+  return repository;
+}
+
+export function setSnapshotRepository(next: SnapshotRepository) {
+  repository = next;
+}
@@ -0,0 +1,89 @@
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import type { LinkedAccount } from '../accounts';
+import type { TeamMember } from '../team';
+import { getDataDir, readJson, writeJson } from './files';
+
+export interface StoredMember extends Omit<TeamMember, 'status'> {
+  sellerId: number;
+  // Cuenta a la que accede el miembro, para armar su sesión
+  account: LinkedAccount;
+  // Null hasta que acepta la invitación
+  passwordHash: string | null;
+  // Hash del token del enlace de invitación vigente
+  inviteHash: string | null;
+  inviteExpiresAt: string | null;
+}
+
+/**
+ * Miembros de los equipos de todas las cuentas, en un solo archivo: el email
+ * es único entre todos porque con él se inicia sesión sin indicar la cuenta.
+ */
+export interface TeamRepository {
+  load(): Promise<StoredMember[]>;
+  save(members: StoredMember[]): Promise<void>;
+}
+
+export function toTeamMember({ sellerId, account, passwordHash, inviteHash, inviteExpiresAt, ...member }: StoredMember): TeamMember {
+  return { ...member, status: passwordHash ? 'active' : 'invited' };
+}
+
+export function memberIdFor(createdAt: string): string {
+  return `member-${createdAt.replace(/[:.]/g, '-')}`;
+}
+
+// Vigencia del enlace de invitación
+const INVITE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Nuevo enlace de invitación. El token va en el enlace y sólo se guarda su
+ * hash; crear uno nuevo invalida el anterior.
+ */
+export function createInvite(now = Date.now()): { token: string; inviteHash: string; inviteExpiresAt: string } {
+  const token = randomBytes(32).toString('base64url');
+  return {
+    token,
+    inviteHash: hashInviteToken(token),
+    inviteExpiresAt: new Date(now + INVITE_MAX_AGE_MS).toISOString(),
+  };
+}
+
+export function inviteUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/invite/${token}`;
+}
+
+export class FileTeamRepository implements TeamRepository {
+  async load(): Promise<StoredMember[]> {
+    return (await readJson<StoredMember[]>(path.join(getDataDir(), 'team.json'))) ?? [];
+  }
+
+  async save(members: StoredMember[]): Promise<void> {
+    await writeJson(path.join(getDataDir(), 'team.json'), members);
+  }
+}
+
+export class MemoryTeamRepository implements TeamRepository {
+  private members: StoredMember[] = [];
+
+  async load(): Promise<StoredMember[]> {
+    return this.members;
+  }
+
+  async save(members: StoredMember[]): Promise<void> {
+    this.members = members;
+  }
+}
+
+let repository: TeamRepository = new FileTeamRepository();
+
+export function getTeamRepository(): TeamRepository {
+  return repository;
+}
+
+export function setTeamRepository(next: TeamRepository) {
+  repository = next;
+}
@@ -0,0 +1,94 @@
+import { decryptValue, encryptValue, isEncrypted } from '../encryption';
+import { listSellerIds, readJson, sellerPath, writeJson } from './files';
+
+export interface SellerTokens {
+  sellerId: number;
+  accessToken: string;
+  refreshToken: string;
+  // Vencimiento del access token
+  expiresAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Últimos tokens de cada vendedor, para llamar a la API sin una sesión del
+ * navegador (por ejemplo al procesar notificaciones). Los refresh tokens son
+ * de un solo uso: lo guardado acá es siempre el vigente.
+ */
+export interface TokenRepository {
+  load(sellerId: number): Promise<SellerTokens | null>;
+  save(tokens: SellerTokens): Promise<void>;
+}
+
+// Los archivos guardados antes de cifrar los tokens se leen tal cual; al
+// arrancar el servidor se cifran (ver encryptStoredTokens)
+function decryptToken(value: string): string {
+  return isEncrypted(value) ? decryptValue(value) : value;
+}
+
+/**
+ * Guarda los tokens cifrados con TOKEN_ENCRYPTION_KEY.
+ */
+export class FileTokenRepository implements TokenRepository {
+  async load(sellerId: number): Promise<SellerTokens | null> {
+    const stored = await readJson<SellerTokens>(sellerPath(sellerId, 'tokens.json'));
+
+    return stored && {
+      ...stored,
+      accessToken: decryptToken(stored.accessToken),
+      refreshToken: decryptToken(stored.refreshToken),
+    };
+  }
+
+  async save(tokens: SellerTokens): Promise<void> {
+    await writeJson(sellerPath(tokens.sellerId, 'tokens.json'), {
+      ...tokens,
+      accessToken: encryptValue(tokens.accessToken),
+      refreshToken: encryptValue(tokens.refreshToken),
+    });
+  }
+}
+
+/**
+ * Cifra los tokens que hayan quedado en texto plano de antes del cifrado.
+ * Corre una vez al arrancar, antes de atender requests: hacerlo al leer
+ * podría pisar un refresh token recién renovado por otro request. Devuelve
+ * cuántos archivos cifró.
+ */
+export async function encryptStoredTokens(): Promise<number> {
+  const repository = new FileTokenRepository();
+  let migrated = 0;
+
+  for (const sellerId of await listSellerIds()) {
+    const stored = await readJson<SellerTokens>(sellerPath(sellerId, 'tokens.json'));
+
+    if (stored && (!isEncrypted(stored.accessToken) || !isEncrypted(stored.refreshToken))) {
+      await repository.save((await repository.load(sellerId))!);
+      migrated++;
+    }
+  }
+
+  return migrated;
+}
+
+export class MemoryTokenRepository implements TokenRepository {
+  private tokens = new Map<number, SellerTokens>();
+
+  async load(sellerId: number): Promise<SellerTokens | null> {
+    return this.tokens.get(sellerId) ?? null;
+  }
+
+  async save(tokens: SellerTokens): Promise<void> {
+    this.tokens.set(tokens.sellerId, tokens);
+  }
+}
+
+let repository: TokenRepository = new FileTokenRepository();
+
+export function getTokenRepository(): TokenRepository {
+  return repository;
+}
+
+export function setTokenRepository(next: TokenRepository) {
+  repository = next;
+}
@@ -0,0 +1,81 @@
+import type { CatalogView } from '../catalog-view';
+import { readJson, sellerPath, writeJson } from './files';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  view: CatalogView;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedViews {
+  defaultViewId: string | null;
+  views: SavedView[];
+}
+
+const EMPTY_VIEWS: SavedViews = { defaultViewId: null, views: [] };
+
+/**
+ * Vistas guardadas de cada vendedor, compartidas por todo el equipo que usa
+ * la cuenta.
+ */
+export interface ViewRepository {
+  load(sellerId: number): Promise<SavedViews>;
+  save(sellerId: number, views: SavedViews): Promise<void>;
+}
+
+export function viewIdFor(createdAt: string): string {
+  return `view-${createdAt.replace(/[:.]/g, '-')}`;
+}
+
+const MAX_NAME_LENGTH = 80;
+
+/**
+ * Valida el nombre de una vista: obligatorio y sin repetir entre las vistas
+ * del vendedor (sin distinguir mayúsculas).
+ */
+export function validateViewName(name: unknown, saved: SavedViews, exceptId?: string): string[] {
+  if (typeof name !== 'string' || !name.trim()) {
+    return ['La vista necesita un nombre'];
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return [`El nombre no puede tener más de ${MAX_NAME_LENGTH} caracteres`];
+  }
+  const taken = saved.views.some(
+    (view) => view.id !== exceptId && view.name.toLowerCase() === name.trim().toLowerCase()
+  );
+  return taken ? [`Ya existe una vista llamada "${name.trim()}"`] : [];
+}
+
+export class FileViewRepository implements ViewRepository {
+  async load(sellerId: number): Promise<SavedViews> {
+    return (await readJson<SavedViews>(sellerPath(sellerId, 'views.json'))) ?? EMPTY_VIEWS;
+  }
+
+  async save(sellerId: number, views: SavedViews): Promise<void> {
+    await writeJson(sellerPath(sellerId, 'views.json'), views);
+  }
+}
+
+export class MemoryViewRepository implements ViewRepository {
+  private views = new Map<number, SavedViews>();
+
+  async load(sellerId: number): Promise<SavedViews> {
+    return this.views.get(sellerId) ?? EMPTY_VIEWS;
+  }
+
+  async save(sellerId: number, views: SavedViews): Promise<void> {
+    this.views.set(sellerId, views);
+  }
+}
+
+let repository: ViewRepository = new FileViewRepository();
+
+export function getViewRepository(): ViewRepository {
+  return repository;
+}
+
+export function setViewRepository(next: ViewRepository) {
+  repository = next;
+}
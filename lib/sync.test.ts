@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ApiItemDetails, normalizeItem } from './meli/catalog';
+import type { MeliApiItem, MeliClient, MeliUser } from './meli/client';
+import { CATALOG_VERSION, MemoryCatalogRepository, StoredCatalog } from './store/catalog';
+import { MemorySnapshotRepository } from './store/snapshots';
+import { syncCatalog } from './sync';
+
+const USER: MeliUser = { id: 123, nickname: 'VENDEDOR', site_id: 'MLA' };
+
+function apiItem(id: string, lastUpdated: string, overrides: Partial<ApiItemDetails> = {}): ApiItemDetails {
+  return {
+    id,
+    title: `Publicación ${id}`,
+    price: 100,
+    currency_id: 'ARS',
+    available_quantity: 5,
+    status: 'active',
+    permalink: `https://articulo.mercadolibre.com.ar/${id}`,
+    listing_type_id: 'gold_special',
+    last_updated: lastUpdated,
+    shipping: { mode: 'me2', free_shipping: false, logistic_type: null },
+    attributes: [{ id: 'SELLER_SKU', name: 'SKU', value_name: `SKU-${id}` }],
+    variations: [],
+    seller_custom_field: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Cliente falso con las publicaciones que tiene el vendedor en Mercado
+ * Libre. Registra qué IDs se pidieron en cada multiget.
+ */
+function fakeClient(items: ApiItemDetails[], listedIds = items.map((item) => item.id)) {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const getItems = vi.fn(async (ids: string[], attributes: readonly string[]) =>
+    ids
+      .filter((id) => byId.has(id))
+      .map((id) => Object.fromEntries(
+        attributes.map((attribute) => [attribute, byId.get(id)![attribute as keyof ApiItemDetails]])
+      ) as Partial<MeliApiItem>)
+  );
+  const client = {
+    searchSellerItems: vi.fn(async () => ({ results: listedIds, scroll_id: null })),
+    getItems,
+  };
+
+  return {
+    client: client as unknown as MeliClient,
+    // IDs pedidos con todos los detalles (no sólo last_updated)
+    detailRequests: () => getItems.mock.calls
+      .filter(([, attributes]) => attributes.includes('title'))
+      .flatMap(([ids]) => ids),
+    stampRequests: () => getItems.mock.calls
+      .filter(([, attributes]) => !attributes.includes('title'))
+      .flatMap(([ids]) => ids),
+  };
+}
+
+function storedCatalog(items: ApiItemDetails[], version: number | undefined = CATALOG_VERSION): StoredCatalog {
+  return {
+    version,
+    sellerId: USER.id,
+    siteId: USER.site_id,
+    syncedAt: '2026-01-01T00:00:00.000Z',
+    items: items.map(normalizeItem),
+  };
+}
+
+describe('syncCatalog', () => {
+  const OLD = '2026-01-01T00:00:00.000Z';
+  const NEW = '2026-01-02T00:00:00.000Z';
+
+  it('vuelve a pedir sólo los items nuevos o con otro last_updated', async () => {
+    const catalog = new MemoryCatalogRepository([
+      storedCatalog([apiItem('MLA1', OLD), apiItem('MLA2', OLD), apiItem('MLA3', OLD)]),
+    ]);
+    const { client, detailRequests, stampRequests } = fakeClient([
+      apiItem('MLA1', OLD),
+      apiItem('MLA2', NEW, { price: 150 }),
+      apiItem('MLA4', NEW),
+    ]);
+
+    const result = await syncCatalog(client, USER, undefined, { catalog, snapshots: new MemorySnapshotRepository() });
+
+    expect(stampRequests()).toEqual(['MLA1', 'MLA2', 'MLA4']);
+    expect(detailRequests()).toEqual(['MLA2', 'MLA4']);
+    expect(result).toMatchObject({ added: 1, updated: 1, removed: 1 });
+
+    const saved = await catalog.load(USER.id);
+    expect(saved?.items.map((item) => [item.id, item.price, item.last_updated])).toEqual([
+      ['MLA1', 100, OLD],
+      ['MLA2', 150, NEW],
+      ['MLA4', 100, NEW],
+    ]);
+    expect(saved?.syncedAt).toBe(result.catalog.syncedAt);
+  });
+
+  it('no vuelve a pedir detalles si nada cambió', async () => {
+    const items = [apiItem('MLA1', OLD), apiItem('MLA2', OLD)];
+    const catalog = new MemoryCatalogRepository([storedCatalog(items)]);
+    const { client, detailRequests } = fakeClient(items);
+
+    const result = await syncCatalog(client, USER, undefined, { catalog, snapshots: new MemorySnapshotRepository() });
+
+    expect(detailRequests()).toEqual([]);
+    expect(result).toMatchObject({ added: 0, updated: 0, removed: 0 });
+    expect(result.catalog.items.map((item) => item.id)).toEqual(['MLA1', 'MLA2']);
+  });
+
+  it('pide todo en la primera sincronización', async () => {
+    const catalog = new MemoryCatalogRepository();
+    const { client, detailRequests, stampRequests } = fakeClient([apiItem('MLA1', OLD), apiItem('MLA2', OLD)]);
+
+    const result = await syncCatalog(client, USER, undefined, { catalog, snapshots: new MemorySnapshotRepository() });
+
+    expect(stampRequests()).toEqual([]);
+    expect(detailRequests()).toEqual(['MLA1', 'MLA2']);
+    expect(result).toMatchObject({ added: 2, updated: 0, removed: 0 });
+  });
+
+  it('conserva lo que se guardó durante la sync si es más nuevo', async () => {
+    const catalog = new MemoryCatalogRepository([storedCatalog([apiItem('MLA1', OLD), apiItem('MLA2', OLD)])]);
+    const { client } = fakeClient([apiItem('MLA1', NEW, { price: 150 }), apiItem('MLA2', NEW, { price: 200 })]);
+    const NEWER = '2026-01-03T00:00:00.000Z';
+
+    // Mientras se listan los IDs, una notificación guarda MLA2 y una publicación nueva
+    vi.mocked(client.searchSellerItems).mockImplementationOnce(async () => {
+      const current = (await catalog.load(USER.id))!;
+      await catalog.save({
+        ...current,
+        items: [
+          current.items[0],
+          normalizeItem(apiItem('MLA2', NEWER, { price: 250 })),
+          normalizeItem(apiItem('MLA5', NEWER)),
+        ],
+      });
+      return { results: ['MLA1', 'MLA2'], scroll_id: null };
+    });
+
+    await syncCatalog(client, USER, undefined, { catalog, snapshots: new MemorySnapshotRepository() });
+
+    const saved = await catalog.load(USER.id);
+    expect(saved?.items.map((item) => [item.id, item.price])).toEqual([
+      ['MLA1', 150],
+      ['MLA2', 250],
+      ['MLA5', 100],
+    ]);
+  });
+
+  it('pide todo si el catálogo guardado es de otra versión', async () => {
+    const items = [apiItem('MLA1', OLD), apiItem('MLA2', OLD)];
+    const catalog = new MemoryCatalogRepository([storedCatalog(items, CATALOG_VERSION - 1)]);
+    const { client, detailRequests } = fakeClient(items);
+
+    const result = await syncCatalog(client, USER, undefined, { catalog, snapshots: new MemorySnapshotRepository() });
+
+    expect(detailRequests()).toEqual(['MLA1', 'MLA2']);
+    expect(result).toMatchObject({ added: 0, updated: 2, removed: 0 });
+  });
+
+  it('omite los items que la API ya no devuelve', async () => {
+    const catalog = new MemoryCatalogRepository();
+    const { client } = fakeClient([apiItem('MLA1', OLD)], ['MLA1', 'MLA9']);
+
+    const result = await syncCatalog(client, USER, undefined, { catalog, snapshots: new MemorySnapshotRepository() });
+
+    expect(result.catalog.items.map((item) => item.id)).toEqual(['MLA1']);
+    expect(result.added).toBe(1);
+  });
+
+  it('deja una foto con precio, stock y estado de cada item', async () => {
+    const snapshots = new MemorySnapshotRepository();
+    const { client } = fakeClient([apiItem('MLA1', OLD, { available_quantity: 0, status: 'paused' })]);
+
+    const result = await syncCatalog(client, USER, undefined, { catalog: new MemoryCatalogRepository(), snapshots });
+
+    const [summary] = await snapshots.list(USER.id);
+    expect(summary).toMatchObject({ takenAt: result.catalog.syncedAt, itemCount: 1 });
+    expect((await snapshots.load(USER.id, summary.id))?.items).toEqual([{
+      id: 'MLA1',
+      title: 'Publicación MLA1',
+      sku: 'SKU-MLA1',
+      price: 100,
+      currency_id: 'ARS',
+      available_quantity: 0,
+      status: 'paused',
+    }]);
+  });
+});
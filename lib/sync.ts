@@ -0,0 +1,188 @@
+import { MeliProduct } from '@/types/product';
+import { publishCatalogChanges } from './catalog-events';
+import {
+  ITEM_ATTRIBUTES,
+  fetchItemDetails,
+  listAllItemIds,
+  normalizeItem,
+} from './meli/catalog';
+import { MeliClient, MeliUser } from './meli/client';
+import { toSnapshotItem } from './history';
+import {
+  CATALOG_VERSION,
+  CatalogRepository,
+  StoredCatalog,
+  getCatalogRepository,
+  updateCatalog,
+} from './store/catalog';
+import { SnapshotRepository, getSnapshotRepository, snapshotIdFor } from './store/snapshots';
+
+export interface SyncProgress {
+  phase: 'ids' | 'changes' | 'details';
+  done: number;
+  total: number;
+}
+
+export interface SyncRepositories {
+  catalog: CatalogRepository;
+  snapshots: SnapshotRepository;
+}
+
+export interface SyncResult {
+  catalog: StoredCatalog;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+/**
+ * Sincroniza el catálogo guardado del vendedor con Mercado Libre. Sólo se
+ * vuelven a pedir completos los items nuevos o cuyo last_updated cambió.
+ * Cada sincronización deja además una foto de precio, stock y estado.
+ */
+export async function syncCatalog(
+  client: MeliClient,
+  user: MeliUser,
+  onProgress?: (progress: SyncProgress) => void,
+  repositories: SyncRepositories = {
+    catalog: getCatalogRepository(),
+    snapshots: getSnapshotRepository(),
+  }
+): Promise<SyncResult> {
+  const stored = await repositories.catalog.load(user.id);
+  const storedItems = new Map<string, MeliProduct>(
+    (stored?.items ?? []).map((item) => [item.id, item])
+  );
+  // Con un catálogo de una versión anterior no se reutiliza ningún item
+  const reusable = stored?.version === CATALOG_VERSION ? storedItems : new Map<string, MeliProduct>();
+
+  // 1. Todos los IDs vigentes
+  const ids = await listAllItemIds(client, user.id, (listed, total) => {
+    onProgress?.({ phase: 'ids', done: listed, total });
+  });
+
+  // 2. Sólo last_updated, para detectar qué cambió desde la última sync
+  let checked = 0;
+  const stamps = reusable.size === 0
+    ? []
+    : await fetchItemDetails(client, ids, ['id', 'last_updated'], (_items, requested) => {
+      checked += requested;
+      onProgress?.({ phase: 'changes', done: checked, total: ids.length });
+    });
+
+  const lastUpdated = new Map<string, string>(
+    stamps.map((stamp) => [stamp.id, stamp.last_updated])
+  );
+  const changedIds = ids.filter((id) => {
+    const item = reusable.get(id);
+    return !item || item.last_updated !== lastUpdated.get(id);
+  });
+
+  // 3. Detalles completos de los items nuevos o modificados
+  let fetched = 0;
+  const details = await fetchItemDetails(client, changedIds, ITEM_ATTRIBUTES, (_items, requested) => {
+    fetched += requested;
+    onProgress?.({ phase: 'details', done: fetched, total: changedIds.length });
+  });
+  const refreshed = new Map<string, MeliProduct>(
+    details.map((item) => [item.id, normalizeItem(item)])
+  );
+
+  // La sync puede tardar minutos: el catálogo se vuelve a leer al guardar y
+  // se conserva lo que guardaron mientras tanto las notificaciones o la
+  // edición masiva, salvo que esta sync haya traído una versión más nueva
+  const syncedAt = new Date().toISOString();
+  const listed = new Set(ids);
+  let saved: MeliProduct[] = [];
+
+  const catalog = (await updateCatalog(user.id, (latest) => {
+    saved = latest?.version === CATALOG_VERSION ? latest.items : [];
+    const latestItems = new Map(saved.map((item) => [item.id, item]));
+
+    const newest = (id: string) => {
+      const fetched = refreshed.get(id);
+      const current = latestItems.get(id);
+      if (!fetched) return current ?? reusable.get(id);
+      return current && current.last_updated >= fetched.last_updated ? current : fetched;
+    };
+
+    return {
+      version: CATALOG_VERSION,
+      sellerId: user.id,
+      siteId: user.site_id,
+      syncedAt,
+      items: [
+        ...ids.map(newest).filter((item): item is MeliProduct => item !== undefined),
+        // Publicaciones creadas después de listar los IDs, que trajo una notificación
+        ...saved.filter((item) => !listed.has(item.id) && !storedItems.has(item.id)),
+      ],
+    };
+  }, repositories.catalog))!;
+
+  // En la primera sincronización no hay con qué comparar: el dashboard ya relee todo
+  if (stored) {
+    publishCatalogChanges(user.id, saved, catalog.items);
+  }
+  await repositories.snapshots.save({
+    id: snapshotIdFor(syncedAt),
+    sellerId: user.id,
+    takenAt: syncedAt,
+    items: catalog.items.map(toSnapshotItem),
+  });
+
+  const currentIds = new Set(ids);
+  const refreshedIds = changedIds.filter((id) => refreshed.has(id));
+
+  return {
+    catalog,
+    added: refreshedIds.filter((id) => !storedItems.has(id)).length,
+    updated: refreshedIds.filter((id) => storedItems.has(id)).length,
+    removed: Array.from(storedItems.keys()).filter((id) => !currentIds.has(id)).length,
+  };
+}
+
+/**
+ * Vuelve a pedir algunos items del vendedor y los reemplaza (o agrega) en el
+ * catálogo guardado, sin tocar el resto ni la fecha de sincronización. Los
+ * items de otro vendedor se ignoran. Si el catálogo nunca se sincronizó no
+ * hace nada: la primera sincronización los va a traer.
+ */
+export async function refreshCatalogItems(
+  sellerId: number,
+  ids: string[],
+  client: MeliClient,
+  repository: CatalogRepository = getCatalogRepository()
+): Promise<MeliProduct[]> {
+  if (ids.length === 0) return [];
+
+  const details = await fetchItemDetails(client, ids, [...ITEM_ATTRIBUTES, 'seller_id']);
+  const refreshed = details
+    .filter((item) => item.seller_id === sellerId)
+    .map(normalizeItem);
+
+  if (refreshed.length === 0) return [];
+
+  // El catálogo se lee recién después del fetch, con el bloqueo del
+  // vendedor, para no pisar una sync o una edición que haya terminado
+  let before: MeliProduct[] = [];
+  const saved = await updateCatalog(sellerId, (stored) => {
+    if (!stored) return null;
+
+    before = stored.items;
+    const byId = new Map(refreshed.map((item) => [item.id, item]));
+    const existing = new Set(stored.items.map((item) => item.id));
+
+    return {
+      ...stored,
+      items: [
+        ...stored.items.map((item) => byId.get(item.id) ?? item),
+        ...refreshed.filter((item) => !existing.has(item.id)),
+      ],
+    };
+  }, repository);
+
+  if (!saved) return [];
+  publishCatalogChanges(sellerId, before, refreshed);
+
+  return refreshed;
+}
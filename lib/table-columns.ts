@@ -0,0 +1,339 @@
+import type { MeliProduct } from '@/types/product';
+import { LinkedAccount, accountLabel } from './accounts';
+import { formatDate } from './format';
+import type { MeliSite } from './meli/sites';
+import { FULFILLMENT_LABELS, getFulfillmentKey, getPublicationStatus } from './products';
+import {
+  SalesSummary,
+  VELOCITY_WINDOW,
+  daysOfCover,
+  productUnitsSold,
+  rowUnitsSold,
+  salesPerDay,
+} from './sales';
+import { STOCK_LEVELS, StockLevel, StockRules, getStockLevel } from './stock-rules';
+import { asRecord, isRecord } from './validation';
+import { CatalogRow, rowPrice, rowSku, rowStock, toCatalogRows, variationLabel } from './variations';
+
+export type ColumnId =
+  | 'title'
+  | 'sku'
+  | 'stock'
+  | 'stock_status'
+  | 'status'
+  | 'fulfillment'
+  | 'last_updated'
+  | 'price'
+  | 'free_shipping'
+  | 'listing_type'
+  | 'stock_value'
+  | 'sales_per_day'
+  | 'days_of_cover'
+  | 'account';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  column: ColumnId;
+  direction: SortDirection;
+}
+
+export interface TableLayout {
+  // Columnas visibles, en el orden en que se muestran
+  columns: ColumnId[];
+  // Orden de la tabla: la primera clave es la principal
+  sort: SortKey[];
+}
+
+export interface ColumnContext {
+  stockRules: StockRules;
+  site: MeliSite;
+  // Ventas agregadas; null si todavía no se calcularon
+  sales: SalesSummary | null;
+  // Cuentas vinculadas, para la columna de cuenta dueña
+  accounts?: LinkedAccount[];
+}
+
+interface ColumnDefinition {
+  label: string;
+  align: 'left' | 'center' | 'right';
+  width: string;
+  // Valor usado para ordenar, a nivel publicación
+  sortValue: (product: MeliProduct, context: ColumnContext) => string | number;
+  // Columnas que aporta a la exportación, a nivel fila (publicación o variación)
+  exportValues: (row: CatalogRow, context: ColumnContext) => Record<string, string | number>;
+}
+
+export const LISTING_TYPE_LABELS: Record<string, string> = {
+  gold_pro: 'Premium',
+  gold_premium: 'Oro Premium',
+  gold_special: 'Clásica',
+  gold: 'Oro',
+  silver: 'Plata',
+  bronze: 'Bronce',
+  free: 'Gratuita',
+};
+
+const STOCK_LEVEL_ORDER: Record<StockLevel, number> = {
+  sin_stock: 0,
+  bajo: 1,
+  normal: 2,
+};
+
+export function listingTypeLabel(listingTypeId: string | null): string {
+  if (!listingTypeId) return '-';
+  return LISTING_TYPE_LABELS[listingTypeId] ?? listingTypeId;
+}
+
+/**
+ * Valor del stock a precio de venta. En las publicaciones con variaciones se
+ * suma cada variación con su propio precio.
+ */
+export function stockValue(product: MeliProduct): number {
+  return toCatalogRows([product]).reduce((total, row) => total + rowPrice(row) * rowStock(row), 0);
+}
+
+// Al ordenar, lo que no se vende va después de lo que tiene cobertura finita
+const NO_SALES_COVER = Number.MAX_SAFE_INTEGER;
+
+export function productSalesPerDay(product: MeliProduct, sales: SalesSummary | null): number {
+  return salesPerDay(productUnitsSold(sales, product, VELOCITY_WINDOW), VELOCITY_WINDOW);
+}
+
+export function rowSalesPerDay(row: CatalogRow, sales: SalesSummary | null): number {
+  return salesPerDay(rowUnitsSold(sales, row, VELOCITY_WINDOW), VELOCITY_WINDOW);
+}
+
+export const COLUMNS: Record<ColumnId, ColumnDefinition> = {
+  title: {
+    label: 'Producto',
+    align: 'left',
+    width: 'w-[450px] min-w-[450px]',
+    sortValue: (product) => product.title.toLowerCase(),
+    exportValues: (row) => ({
+      'Producto': row.product.title,
+      'Variación': row.variation ? variationLabel(row.variation) : '',
+    }),
+  },
+  sku: {
+    label: 'SKU',
+    align: 'left',
+    width: 'w-24',
+    // Con variaciones, el SKU de la primera que tenga
+    sortValue: (product) => (toCatalogRows([product]).map(rowSku).find(Boolean) ?? '').toLowerCase(),
+    exportValues: (row) => ({ 'SKU': rowSku(row) || '-' }),
+  },
+  stock: {
+    label: 'Stock',
+    align: 'center',
+    width: 'w-16',
+    sortValue: (product) => product.available_quantity,
+    exportValues: (row) => ({ 'Stock': rowStock(row) }),
+  },
+  stock_status: {
+    label: 'Estado Stock',
+    align: 'center',
+    width: 'w-32',
+    sortValue: (product, { stockRules }) => STOCK_LEVEL_ORDER[getStockLevel(stockRules, product)],
+    exportValues: (row, { stockRules }) => ({
+      'Estado Stock': STOCK_LEVELS[getStockLevel(stockRules, row.product, row.variation)].label,
+    }),
+  },
+  status: {
+    label: 'Estado Publicación',
+    align: 'center',
+    width: 'w-36',
+    sortValue: (product) => getPublicationStatus(product.status).label,
+    exportValues: (row) => ({ 'Estado Publicación': getPublicationStatus(row.product.status).label }),
+  },
+  fulfillment: {
+    label: 'Fulfillment',
+    align: 'center',
+    width: 'w-32',
+    sortValue: (product) => getFulfillmentKey(product.shipping),
+    exportValues: (row) => ({ 'Fulfillment': FULFILLMENT_LABELS[getFulfillmentKey(row.product.shipping)] }),
+  },
+  last_updated: {
+    label: 'Última actualización',
+    align: 'left',
+    width: 'w-40',
+    sortValue: (product) => product.last_updated,
+    exportValues: (row, { site }) => ({ 'Última Actualización': formatDate(row.product.last_updated, site) }),
+  },
+  price: {
+    label: 'Precio',
+    align: 'right',
+    width: 'w-28',
+    sortValue: (product) => product.price,
+    exportValues: (row, { site }) => ({
+      'Precio': rowPrice(row),
+      'Moneda': row.product.currency_id || site.currency,
+    }),
+  },
+  free_shipping: {
+    label: 'Envío gratis',
+    align: 'center',
+    width: 'w-24',
+    sortValue: (product) => (product.shipping.free_shipping ? 1 : 0),
+    exportValues: (row) => ({ 'Envío Gratis': row.product.shipping.free_shipping ? 'Sí' : 'No' }),
+  },
+  listing_type: {
+    label: 'Tipo de publicación',
+    align: 'center',
+    width: 'w-32',
+    sortValue: (product) => listingTypeLabel(product.listing_type_id),
+    exportValues: (row) => ({ 'Tipo de Publicación': listingTypeLabel(row.product.listing_type_id) }),
+  },
+  stock_value: {
+    label: 'Valor stock',
+    align: 'right',
+    width: 'w-32',
+    sortValue: (product) => stockValue(product),
+    exportValues: (row) => ({ 'Valor Stock': Math.round(rowPrice(row) * rowStock(row) * 100) / 100 }),
+  },
+  sales_per_day: {
+    label: 'Ventas/día',
+    align: 'right',
+    width: 'w-24',
+    sortValue: (product, { sales }) => productSalesPerDay(product, sales),
+    exportValues: (row, { sales }) => ({
+      [`Ventas/día (${VELOCITY_WINDOW} días)`]: Math.round(rowSalesPerDay(row, sales) * 100) / 100,
+    }),
+  },
+  days_of_cover: {
+    label: 'Días de cobertura',
+    align: 'right',
+    width: 'w-28',
+    sortValue: (product, { sales }) =>
+      daysOfCover(product.available_quantity, productSalesPerDay(product, sales)) ?? NO_SALES_COVER,
+    exportValues: (row, { sales }) => {
+      const days = daysOfCover(rowStock(row), rowSalesPerDay(row, sales));
+      return { 'Días de Cobertura': days === null ? 'Sin ventas' : Math.floor(days) };
+    },
+  },
+  account: {
+    label: 'Cuenta',
+    align: 'left',
+    width: 'w-32',
+    sortValue: (product, { accounts }) => accountLabel(accounts, product.seller_id).toLowerCase(),
+    exportValues: (row, { accounts }) => ({ 'Cuenta': accountLabel(accounts, row.product.seller_id) }),
+  },
+};
+
+export const COLUMN_IDS = Object.keys(COLUMNS) as ColumnId[];
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  columns: ['title', 'sku', 'stock', 'stock_status', 'status', 'fulfillment', 'last_updated', 'price'],
+  sort: [],
+};
+
+function isColumnId(value: unknown): value is ColumnId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(COLUMNS, value);
+}
+
+/**
+ * Cambia el orden al hacer clic en una columna. Sin `append` la columna pasa
+ * a ser el único criterio; con `append` (shift + clic) se agrega como criterio
+ * secundario. Cada clic alterna ascendente, descendente y sin orden.
+ */
+export function toggleSort(sort: SortKey[], column: ColumnId, append: boolean): SortKey[] {
+  const current = sort.find((key) => key.column === column);
+  const next: SortKey | null = !current
+    ? { column, direction: 'asc' }
+    : current.direction === 'asc' ? { column, direction: 'desc' } : null;
+
+  if (!append) {
+    return next ? [next] : [];
+  }
+
+  if (!current) {
+    return [...sort, next!];
+  }
+
+  return next
+    ? sort.map((key) => (key.column === column ? next : key))
+    : sort.filter((key) => key.column !== column);
+}
+
+/**
+ * Ordena las publicaciones por cada criterio en orden de prioridad. Es
+ * estable: a igualdad se mantiene el orden original.
+ */
+export function sortProducts(products: MeliProduct[], sort: SortKey[], context: ColumnContext): MeliProduct[] {
+  if (sort.length === 0) return products;
+
+  const keyed = products.map((product, index) => ({
+    product,
+    index,
+    values: sort.map((key) => COLUMNS[key.column].sortValue(product, context)),
+  }));
+
+  keyed.sort((a, b) => {
+    for (let i = 0; i < sort.length; i++) {
+      const x = a.values[i];
+      const y = b.values[i];
+      const compared = typeof x === 'number' && typeof y === 'number'
+        ? x - y
+        : String(x).localeCompare(String(y));
+      if (compared !== 0) {
+        return sort[i].direction === 'asc' ? compared : -compared;
+      }
+    }
+    return a.index - b.index;
+  });
+
+  return keyed.map(({ product }) => product);
+}
+
+/**
+ * Fila de exportación con las columnas visibles en su orden. El ID de la
+ * publicación y de la variación siempre se incluyen para poder reimportar.
+ */
+export function exportRow(row: CatalogRow, columns: ColumnId[], context: ColumnContext): Record<string, string | number> {
+  return Object.assign(
+    { 'ID': row.product.id, 'ID Variación': row.variation?.id ?? '' },
+    ...columns.map((column) => COLUMNS[column].exportValues(row, context)),
+    { 'Link': row.product.permalink }
+  );
+}
+
+function isSortKey(value: unknown): value is SortKey {
+  return isRecord(value) && isColumnId(value.column) && (value.direction === 'asc' || value.direction === 'desc');
+}
+
+/**
+ * Valida un diseño de tabla recibido del cliente. Devuelve los errores.
+ */
+export function validateTableLayout(input: unknown): string[] {
+  const errors: string[] = [];
+  const { columns, sort } = asRecord(input);
+
+  if (!Array.isArray(columns) || columns.length === 0) {
+    errors.push('Debe haber al menos una columna visible');
+  } else if (!columns.every(isColumnId)) {
+    errors.push('Hay columnas desconocidas');
+  } else if (new Set(columns).size !== columns.length) {
+    errors.push('Hay columnas repetidas');
+  }
+
+  if (!Array.isArray(sort) || !sort.every(isSortKey)) {
+    errors.push('El orden es inválido');
+  }
+
+  return errors;
+}
+
+/**
+ * Diseño de tabla a partir de un input ya validado con validateTableLayout,
+ * sin campos de más.
+ */
+export function toTableLayout(input: unknown): TableLayout {
+  const { columns, sort } = asRecord(input);
+
+  return {
+    columns: Array.isArray(columns) ? columns.filter(isColumnId) : [],
+    sort: Array.isArray(sort)
+      ? sort.filter(isSortKey).map((key) => ({ column: key.column, direction: key.direction }))
+      : [],
+  };
+}
@@ -0,0 +1,99 @@
+import { asRecord } from './validation';
+
+// Roles de los usuarios del dashboard, de menor a mayor
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+export const ROLE_LABELS: Record<Role, { label: string; description: string }> = {
+  viewer: { label: 'Lectura', description: 'Ve el catálogo, las ventas y los reportes' },
+  editor: { label: 'Edición', description: 'Además cambia precios y stock, vistas, reglas y reportes' },
+  admin: { label: 'Administración', description: 'Además gestiona el equipo y ve la auditoría' },
+};
+
+// ID del usuario que inicia sesión con Mercado Libre: el dueño de la cuenta,
+// siempre con rol admin
+export const OWNER_USER_ID = 'owner';
+
+/**
+ * Usuario del dashboard detrás de una sesión: el dueño de la cuenta o un
+ * miembro del equipo.
+ */
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+/**
+ * Miembro del equipo de una cuenta, como lo ve el administrador.
+ */
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  // 'invited' hasta que usa el enlace de invitación y elige su contraseña
+  status: 'invited' | 'active';
+  createdAt: string;
+}
+
+export interface TeamMemberInput {
+  name: string;
+  email: string;
+  role: Role;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/**
+ * Si `role` alcanza para lo que pide `required`.
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function validateMemberInput(input: unknown): string[] {
+  const errors: string[] = [];
+  const { name, email, role } = asRecord(input);
+
+  if (typeof name !== 'string' || !name.trim()) {
+    errors.push('Falta el nombre');
+  }
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    errors.push('El email no es válido');
+  }
+  if (!isRole(role)) {
+    errors.push('Rol desconocido');
+  }
+
+  return errors;
+}
+
+/**
+ * Miembro a partir de un input ya validado con validateMemberInput, con el
+ * nombre y el email normalizados.
+ */
+export function toMemberInput(input: unknown): TeamMemberInput {
+  const { name, email, role } = asRecord(input);
+
+  return {
+    name: String(name).trim(),
+    email: normalizeEmail(String(email)),
+    role: isRole(role) ? role : 'viewer',
+  };
+}
+
+export function validatePassword(password: unknown): string[] {
+  return typeof password === 'string' && password.length >= MIN_PASSWORD_LENGTH
+    ? []
+    : [`La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres`];
+}
@@ -0,0 +1,23 @@
+import type { MeliProduct } from '@/types/product';
+
+/**
+ * Publicación de ejemplo para los tests: activa, con Mercado Envíos, SKU y
+ * 10 unidades, sin variaciones. `overrides` reemplaza los campos indicados.
+ */
+export function productFixture(overrides: Partial<MeliProduct> & Pick<MeliProduct, 'id'>): MeliProduct {
+  return {
+    title: `Publicación ${overrides.id}`,
+    seller_sku: `SKU-${overrides.id}`,
+    available_quantity: 10,
+    status: 'active',
+    price: 100,
+    currency_id: 'ARS',
+    last_updated: '2026-01-01T00:00:00.000Z',
+    permalink: `https://articulo.mercadolibre.com.ar/${overrides.id}`,
+    listing_type_id: 'gold_special',
+    shipping: { mode: 'me2', free_shipping: false, logistic_type: null },
+    attributes: [],
+    variations: [],
+    ...overrides,
+  };
+}
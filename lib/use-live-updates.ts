@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { ALL_ACCOUNTS } from './accounts';
+import type { CatalogChangeEvent, LiveStatus } from './live-updates';
+
+// Con SSE caído se consulta cada POLL_INTERVAL_MS y se reintenta SSE cada SSE_RETRY_MS
+const POLL_INTERVAL_MS = 30_000;
+const SSE_RETRY_MS = 60_000;
+
+// Errores seguidos de EventSource antes de pasar a polling
+const MAX_SSE_ERRORS = 3;
+
+export interface LiveUpdateHandlers {
+  onChanges: (events: CatalogChangeEvent[]) => void;
+  // Se perdieron eventos: hay que volver a leer el catálogo completo
+  onReset: () => void;
+}
+
+/**
+ * Escucha los cambios del catálogo por SSE (/api/events). Si el navegador no
+ * soporta EventSource o la conexión falla varias veces seguidas, pasa a
+ * consultar /api/events/changes periódicamente y cada tanto vuelve a probar
+ * SSE. `since` es la secuencia del catálogo que se leyó (`meta.seq` de
+ * /api/products): se reciben los cambios posteriores, aunque hayan pasado
+ * antes de conectarse. Con `allAccounts` escucha las publicaciones de todas
+ * las cuentas vinculadas. Devuelve el estado de la conexión para mostrarlo en
+ * la interfaz.
+ */
+export function useLiveUpdates(
+  enabled: boolean,
+  allAccounts: boolean,
+  since: number,
+  handlers: LiveUpdateHandlers
+): LiveStatus {
+  const [status, setStatus] = useState<LiveStatus>('connecting');
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  // Se lee al conectarse: un catálogo releído no obliga a reconectar
+  const sinceRef = useRef(since);
+  sinceRef.current = since;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const scope = allAccounts ? `&scope=${ALL_ACCOUNTS}` : '';
+    let seq = sinceRef.current;
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const receive = (events: CatalogChangeEvent[]) => {
+      if (events.length === 0) return;
+      seq = Math.max(seq, ...events.map((event) => event.seq));
+      handlersRef.current.onChanges(events);
+    };
+
+    const reset = (nextSeq: number) => {
+      seq = nextSeq;
+      handlersRef.current.onReset();
+    };
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/events/changes?since=${seq}${scope}`);
+
+        if (response.status === 401) {
+          stop();
+          setStatus('offline');
+          return;
+        }
+        if (!response.ok) {
+          throw new Error('Error consultando cambios');
+        }
+
+        const data = await response.json();
+        if (data.reset) {
+          reset(data.seq);
+        } else {
+          receive(data.events);
+          seq = Math.max(seq, data.seq);
+        }
+        if (!stopped) setStatus('polling');
+      } catch {
+        if (!stopped) setStatus('offline');
+      }
+    };
+
+    const scheduleRetry = () => {
+      if (stopped || retryTimer || typeof EventSource === 'undefined') return;
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        connect();
+      }, SSE_RETRY_MS);
+    };
+
+    // También se llama cuando falla un reintento de SSE con el polling ya
+    // andando: en ese caso sólo se programa el próximo reintento
+    const startPolling = () => {
+      if (stopped) return;
+      if (!pollTimer) {
+        setStatus('polling');
+        poll();
+        pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      }
+      scheduleRetry();
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const connect = () => {
+      if (stopped) return;
+      if (typeof EventSource === 'undefined') {
+        startPolling();
+        return;
+      }
+
+      let errors = 0;
+      // Con `since` el servidor reenvía lo que pasó desde que se leyó el
+      // catálogo o mientras se usaba polling
+      source = new EventSource(`/api/events?since=${seq}${scope}`);
+
+      const markLive = () => {
+        errors = 0;
+        stopPolling();
+        setStatus('live');
+      };
+
+      source.addEventListener('ready', (event) => {
+        seq = JSON.parse((event as MessageEvent).data).seq;
+        markLive();
+      });
+      source.addEventListener('reset', (event) => {
+        reset(JSON.parse((event as MessageEvent).data).seq);
+        markLive();
+      });
+      source.addEventListener('change', (event) => {
+        receive([JSON.parse((event as MessageEvent).data)]);
+      });
+      source.onopen = markLive;
+      source.onerror = () => {
+        errors++;
+        if (source?.readyState === EventSource.CLOSED || errors >= MAX_SSE_ERRORS) {
+          source?.close();
+          source = null;
+          startPolling();
+        } else {
+          setStatus('connecting');
+        }
+      };
+    };
+
+    const stop = () => {
+      stopped = true;
+      source?.close();
+      stopPolling();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+
+    connect();
+    return stop;
+  }, [enabled, allAccounts]);
+
+  return status;
+}
@@ -0,0 +1,123 @@
+import { RefObject, useCallback, useEffect, useMemo, useState } from 'react';
+
+// Filas de más que se dibujan arriba y abajo de las visibles, para que al
+// hacer scroll rápido no se vean huecos
+const OVERSCAN = 8;
+
+export interface VirtualRows {
+  // Filas a dibujar: [start, end)
+  start: number;
+  end: number;
+  // Alto de los espaciadores que ocupan el lugar de las filas no dibujadas
+  paddingTop: number;
+  paddingBottom: number;
+  // Lleva el scroll lo justo para que la fila quede visible
+  scrollToIndex: (index: number) => void;
+}
+
+/**
+ * Índice de la última fila que empieza antes de `position`.
+ */
+function findRow(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return Math.max(0, low);
+}
+
+/**
+ * Calcula qué filas de una tabla se ven dentro de su contenedor con scroll,
+ * a partir del alto de cada fila. `header` es el encabezado fijo de la
+ * tabla: las filas que quedan debajo de él no cuentan como visibles. Con
+ * `enabled` en false se dibujan todas.
+ */
+export function useVirtualRows(
+  container: RefObject<HTMLElement>,
+  header: RefObject<HTMLElement>,
+  heights: number[],
+  enabled: boolean
+): VirtualRows {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  // offsets[i] es dónde empieza la fila i; el último, el alto total
+  const offsets = useMemo(() => {
+    const result = [0];
+    heights.forEach((height, index) => result.push(result[index] + height));
+    return result;
+  }, [heights]);
+
+  // El contenedor puede montarse después que el hook (por ejemplo, cuando la
+  // tabla aparece al terminar de cargar). La ref no cambia de identidad, así
+  // que se sigue el elemento en un estado para volver a enganchar los eventos.
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  useEffect(() => {
+    if (container.current !== element) {
+      setElement(container.current);
+    }
+  });
+
+  useEffect(() => {
+    if (!enabled || !element) return;
+
+    let frame = 0;
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        setScrollTop(element.scrollTop);
+        setViewportHeight(element.clientHeight - (header.current?.offsetHeight ?? 0));
+      });
+    };
+
+    measure();
+    element.addEventListener('scroll', measure, { passive: true });
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      element.removeEventListener('scroll', measure);
+      observer.disconnect();
+    };
+  }, [enabled, element, header]);
+
+  const scrollToIndex = useCallback((index: number) => {
+    const element = container.current;
+    if (!element || index < 0 || index >= heights.length) return;
+
+    const visible = element.clientHeight - (header.current?.offsetHeight ?? 0);
+    const top = offsets[index];
+    const bottom = offsets[index + 1];
+
+    if (top < element.scrollTop) {
+      element.scrollTop = top;
+    } else if (bottom > element.scrollTop + visible) {
+      element.scrollTop = bottom - visible;
+    }
+  }, [container, header, offsets, heights.length]);
+
+  if (!enabled) {
+    return { start: 0, end: heights.length, paddingTop: 0, paddingBottom: 0, scrollToIndex };
+  }
+
+  const total = offsets[offsets.length - 1];
+  const start = Math.max(0, findRow(offsets, scrollTop) - OVERSCAN);
+  const end = Math.min(heights.length, findRow(offsets, scrollTop + viewportHeight) + 1 + OVERSCAN);
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: total - offsets[end],
+    scrollToIndex,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Ayudas para validar lo que llega del cliente o de Mercado Libre como
+ * `unknown` antes de leer sus campos.
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// El objeto si lo es, o uno vacío: así se pueden leer campos sin chequear null
+export function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+export function hasKey<T extends object>(object: T, key: unknown): key is keyof T {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(object, key);
+}
@@ -0,0 +1,73 @@
+import type { MeliProduct, MeliVariation } from '@/types/product';
+
+/**
+ * Fila del catálogo a nivel variación. Las publicaciones sin variaciones
+ * son una sola fila con `variation` en null.
+ */
+export interface CatalogRow {
+  product: MeliProduct;
+  variation: MeliVariation | null;
+}
+
+export function variationLabel(variation: MeliVariation): string {
+  return variation.attribute_combinations
+    .map((attr) => `${attr.name}: ${attr.value_name}`)
+    .join(' / ');
+}
+
+export function rowSku(row: CatalogRow): string | null {
+  return row.variation ? row.variation.seller_sku : row.product.seller_sku;
+}
+
+export function rowStock(row: CatalogRow): number {
+  return row.variation ? row.variation.available_quantity : row.product.available_quantity;
+}
+
+export function rowPrice(row: CatalogRow): number {
+  return row.variation ? row.variation.price : row.product.price;
+}
+
+function variationMatches(variation: MeliVariation, term: string): boolean {
+  return (
+    (variation.seller_sku?.toLowerCase().includes(term) ?? false) ||
+    String(variation.id).includes(term) ||
+    variationLabel(variation).toLowerCase().includes(term)
+  );
+}
+
+function productMatches(product: MeliProduct, term: string): boolean {
+  return (
+    product.title.toLowerCase().includes(term) ||
+    product.id.toLowerCase().includes(term) ||
+    (product.seller_sku?.toLowerCase().includes(term) ?? false)
+  );
+}
+
+/**
+ * Variaciones de la publicación que coinciden con la búsqueda. Si la
+ * publicación coincide por sí misma (título, ID o SKU) se devuelven todas.
+ * Devuelve null si ni la publicación ni ninguna variación coinciden.
+ */
+export function matchVariations(product: MeliProduct, searchTerm: string): MeliVariation[] | null {
+  const term = searchTerm.trim().toLowerCase();
+
+  if (!term || productMatches(product, term)) {
+    return product.variations;
+  }
+
+  const matches = product.variations.filter((variation) => variationMatches(variation, term));
+  return matches.length > 0 ? matches : null;
+}
+
+/**
+ * Expande cada publicación en una fila por variación (o una sola fila si no
+ * tiene variaciones), respetando la búsqueda.
+ */
+export function toCatalogRows(products: MeliProduct[], searchTerm = ''): CatalogRow[] {
+  return products.flatMap((product): CatalogRow[] => {
+    const variations = matchVariations(product, searchTerm);
+    if (variations === null) return [];
+    if (product.variations.length === 0) return [{ product, variation: null }];
+    return variations.map((variation) => ({ product, variation }));
+  });
+}
@@ -0,0 +1,28 @@
+import * as XLSX from 'xlsx';
+
+const MAX_COLUMN_WIDTH = 50;
+
+/**
+ * Arma un libro de una hoja con las filas dadas, ajustando el ancho de cada
+ * columna a su contenido.
+ */
+export function buildWorkbook(rows: Record<string, unknown>[], sheetName: string): XLSX.WorkBook {
+  const ws = XLSX.utils.json_to_sheet(rows);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, sheetName);
+
+  const colWidths = Object.keys(rows[0] || {}).map(key => {
+    const maxLength = Math.max(
+      key.length,
+      ...rows.map(row => String(row[key] ?? '').length)
+    );
+    return { wch: Math.min(maxLength + 2, MAX_COLUMN_WIDTH) };
+  });
+  ws['!cols'] = colWidths;
+
+  return wb;
+}
+
+export function downloadXlsx(rows: Record<string, unknown>[], sheetName: string, fileName: string) {
+  XLSX.writeFile(buildWorkbook(rows, sheetName), fileName);
+}
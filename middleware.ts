@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, isSessionId } from '@/lib/session';
+
+// Rutas de la API que funcionan sin sesión: el login con Mercado Libre y el
+// de los miembros del equipo, el logout y las notificaciones que manda
+// Mercado Libre
+const PUBLIC_API_ROUTES = [
+  '/api/auth',
+  '/api/callback',
+  '/api/logout',
+  '/api/notifications',
+  '/api/team/accept',
+  '/api/team/login',
+];
+
+function isPublic(pathname: string): boolean {
+  return PUBLIC_API_ROUTES.some((route) => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+/**
+ * Sin cookie de sesión, el dashboard redirige al inicio y la API responde
+ * 401. El middleware corre en edge y no puede leer las sesiones guardadas:
+ * que la sesión exista y no haya vencido lo verifica cada ruta al leerla
+ * (ver getSession).
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  if (isPublic(pathname) || isSessionId(request.cookies.get(SESSION_COOKIE)?.value)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'No autenticado' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.redirect(new URL('/', request.url));
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/api/:path*'],
+};
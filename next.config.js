@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // instrumentation.ts arranca el scheduler de reportes programados
+    instrumentationHook: true,
+  },
 }
 
 module.exports = nextConfig
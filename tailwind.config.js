@@ -4,6 +4,8 @@ module.exports = {
     './pages/**/*.{js,ts,jsx,tsx,mdx}',
     './components/**/*.{js,ts,jsx,tsx,mdx}',
     './app/**/*.{js,ts,jsx,tsx,mdx}',
+    // Etiquetas con colores definidas en lib (estados de stock, reportes, conexión)
+    './lib/**/*.{js,ts,jsx,tsx}',
   ],
   theme: {
     extend: {},
@@ -1,3 +1,17 @@
+export interface MeliAttribute {
+  id: string;
+  name: string;
+  value_name: string;
+}
+
+export interface MeliVariation {
+  id: number;
+  attribute_combinations: MeliAttribute[];
+  seller_sku: string | null;
+  available_quantity: number;
+  price: number;
+}
+
 export interface MeliProduct {
   id: string;
   title: string;
@@ -5,13 +19,19 @@ export interface MeliProduct {
   available_quantity: number;
   status: 'active' | 'paused' | 'closed' | 'under_review';
   price: number;
+  currency_id: string;
   last_updated: string;
   permalink: string;
+  listing_type_id: string | null;
   shipping: {
     mode: string;
     free_shipping: boolean;
     logistic_type: string | null;
   };
+  attributes: MeliAttribute[];
+  variations: MeliVariation[];
+  // Cuenta dueña de la publicación. Lo agrega /api/products; no se guarda
+  seller_id?: number;
 }
 
 export interface DashboardProduct {